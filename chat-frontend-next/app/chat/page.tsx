@@ -1,10 +1,20 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { useAuth } from '@/hooks/useAuth'
 import { useRouter } from 'next/navigation'
 import { useWebSocket } from '@/hooks/useWebSocket'
+import { useOutbox } from '@/hooks/useOutbox'
+import { useRoomMessages, useMessageStoreSync } from '@/hooks/useRoomMessages'
+import { usePinnedMessages, usePinSync } from '@/hooks/usePinnedMessages'
+import { useRoomRole } from '@/hooks/useRoomRole'
+import { useBookmarks, useBookmarkSync } from '@/hooks/useBookmarks'
+import { useReadReceipts, useReadReceiptSync, useOwnReadReceipt } from '@/hooks/useReadReceipts'
+import { useUnreadMarker } from '@/hooks/useUnreadMarker'
+import { usePresence, usePresenceSync, useOwnPresence } from '@/hooks/usePresence'
+import { useMessageNotifications } from '@/hooks/useNotifications'
+import { useSettings } from '@/hooks/useSettings'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -18,6 +28,13 @@ import { CreateRoomDialog } from "@/components/CreateRoomDialog"
 import { EditRoomDialog } from "@/components/EditRoomDialog"
 import { DeleteRoomConfirm } from "@/components/DeleteRoomConfirm"
 import { RoomMembersManager } from "@/components/RoomMembersManager"
+import { ThreadPanel } from "@/components/ThreadPanel"
+import { SearchPanel } from "@/components/SearchPanel"
+import { PinnedPanel } from "@/components/PinnedPanel"
+import { PinnedMessageBanner } from "@/components/PinnedMessageBanner"
+import { SavedPanel } from "@/components/SavedPanel"
+import { SetStatusButton } from "@/components/SetStatusButton"
+import { OnlineStatusBadge } from "@/components/OnlineStatusBadge"
 import {
   Search,
   MoreVertical,
@@ -31,13 +48,32 @@ import {
   Edit,
   Trash2,
   Users,
+  Pin,
+  Bookmark,
+  Bell,
+  BellOff,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import Link from "next/link"
-import type { Message } from "@/lib/types"
+import type { Attachment, Message } from "@/lib/types"
 import type { Room, DirectRoomResponse } from "@/lib/api/rooms"
 import { getRooms, getDirectRooms, markRoomAsRead } from "@/lib/api/rooms"
-import { getMessages, sendMessage, updateMessage, deleteMessage } from "@/lib/api/messages"
+import {
+  getMessagesSince,
+  updateMessage,
+  deleteMessage,
+  addReaction,
+  removeReaction,
+  hasReacted,
+  pinMessage,
+  unpinMessage,
+} from "@/lib/api/messages"
+import { messageStore } from "@/lib/messageStore"
+import { pinStore } from "@/lib/pins"
+import { bookmarkStore } from "@/lib/bookmarks"
+import { CHAT_PATH, parseMessageLink } from "@/lib/messageLinks"
+import { mentionsUser } from "@/lib/mentions"
+import type { WSInboundFrameOf } from "@/lib/websocket"
 
 export default function ChatPage() {
   const { isAuthenticated, loading: authLoading, user } = useAuth()
@@ -47,14 +83,19 @@ export default function ChatPage() {
   const [rooms, setRooms] = useState<Room[]>([])
   const [directRooms, setDirectRooms] = useState<DirectRoomResponse[]>([])
   const [selectedRoomId, setSelectedRoomId] = useState<number | null>(null)
-  const [messages, setMessages] = useState<Message[]>([])
   const [loadingRooms, setLoadingRooms] = useState(true)
-  const [loadingMessages, setLoadingMessages] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [hasMoreMessages, setHasMoreMessages] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
   const [replyTo, setReplyTo] = useState<Message | null>(null)
+  const [threadRootId, setThreadRootId] = useState<number | null>(null)
+  // Panel next to the chat, besides threads
+  const [sidePanel, setSidePanel] = useState<'search' | 'pins' | 'saved' | null>(null)
+  // Message to jump to (search results, deep links), and the one the list should scroll to
+  const [jumpTarget, setJumpTarget] = useState<{ roomId: number; messageId: number } | null>(null)
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null)
+  // Newest message the user has scrolled to in the open room (marks it read)
+  const [seenUpTo, setSeenUpTo] = useState<{ roomId: number; messageId: number } | null>(null)
+  const [jumpError, setJumpError] = useState<string | null>(null)
 
   // Room management dialogs (admin only)
   const [createRoomOpen, setCreateRoomOpen] = useState(false)
@@ -69,13 +110,127 @@ export default function ChatPage() {
   // Check if user is admin
   const isAdmin = user?.role === 'admin'
 
+  // Messages of the selected room, from the shared store (cached across room switches)
+  const {
+    messages,
+    loading: loadingMessages,
+    hasMore: hasMoreMessages,
+    hasNewer: hasNewerMessages,
+    error: messagesError,
+    loadMore: loadMoreMessages,
+    loadNewer: loadNewerMessages,
+    loadLatest: loadLatestMessages,
+    loadAround: loadMessagesAround,
+    revalidated: messagesRevalidated,
+  } = useRoomMessages(selectedRoomId)
+
+  // Pins of the selected group room (direct messages have none), and
+  // whether the user may change them (room admins and owners)
+  const pinRoomId =
+    selectedRoomId !== null && rooms.some((room) => room.id === selectedRoomId && room.type !== 'direct')
+      ? selectedRoomId
+      : null
+  const { pins, loading: loadingPins, error: pinsError } = usePinnedMessages(pinRoomId)
+  const roomRole = useRoomRole(pinRoomId, user?.id ?? null)
+  const canPin = roomRole === 'admin' || roomRole === 'owner'
+  const pinnedIds = useMemo(() => new Set(pins.map((pin) => pin.message.id)), [pins])
+
+  // The user's saved messages (all rooms)
+  const {
+    bookmarks,
+    loading: loadingBookmarks,
+    error: bookmarksError,
+    source: bookmarksSource,
+    reload: reloadBookmarks,
+  } = useBookmarks(user?.id ?? null)
+  const bookmarkedIds = useMemo(() => new Set(bookmarks.map((bookmark) => bookmark.message.id)), [bookmarks])
+
+  // Latest selected room for WebSocket callbacks that outlive a render
+  const selectedRoomIdRef = useRef<number | null>(null)
+  selectedRoomIdRef.current = selectedRoomId
+
+  // Whether the message list follows new messages (scrolled to the bottom)
+  const listPinnedRef = useRef(true)
+
+  // Catch up after the WebSocket reconnects: messages broadcast while the
+  // socket was down never arrived, and unread counts are stale
+  const handleReconnect = useCallback(async (joinedRooms: number[]) => {
+    const roomId = selectedRoomIdRef.current
+
+    try {
+      // A window of older history catches up by paging forward instead
+      if (roomId !== null && joinedRooms.includes(roomId) && !messageStore.getRoomState(roomId)?.hasNewer) {
+        const cached = messageStore.getRoomMessages(roomId)
+        const lastMessage = cached[cached.length - 1]
+        // Without a last seen message, the first page is all we need
+        const { messages: missed, truncated } = await getMessagesSince(roomId, lastMessage?.id ?? 0, 50, lastMessage ? 10 : 1)
+
+        if (truncated) {
+          // Too much was missed to close the gap; start over from the newest messages
+          messageStore.setLatestMessages(roomId, missed, true, { replace: true })
+        } else {
+          messageStore.addMessages(missed) // Marked read once the user scrolls down to them
+        }
+      }
+
+      // Refresh unread counts and last activity for every room
+      const [roomsData, dmsData] = await Promise.all([getRooms(), getDirectRooms()])
+      setRooms(roomsData)
+      setDirectRooms(dmsData)
+    } catch (err) {
+      console.error('Failed to recover missed messages:', err)
+    }
+  }, [])
+
   // WebSocket integration
   const {
-    messages: wsMessages,
     isConnected,
     sendTyping,
-    clearMessages: clearWsMessages
-  } = useWebSocket(selectedRoomId)
+    client: wsClient
+  } = useWebSocket(selectedRoomId, { onReconnect: handleReconnect })
+
+  // New messages, edits and deletions from WebSocket go straight into the store
+  useMessageStoreSync(wsClient)
+  usePinSync(wsClient)
+  useBookmarkSync(wsClient)
+  useReadReceiptSync(wsClient)
+  usePresenceSync(wsClient)
+
+  // The user's own presence (away while idle or in another tab, hidden if turned off in the settings)
+  const ownPresence = useOwnPresence(wsClient)
+
+  // Desktop notifications and sound for new messages outside the room on screen
+  const { settings, updateSetting } = useSettings()
+  useMessageNotifications(wsClient, {
+    currentUserId: user?.id ?? null,
+    selectedRoomId,
+    getRoom: (roomId) => {
+      const dm = directRooms.find((room) => room.id === roomId)
+      if (dm) return { name: dm.display_name || dm.name, isDirect: true }
+
+      const room = rooms.find((room) => room.id === roomId)
+      return room ? { name: room.name, isDirect: false } : null
+    },
+    onOpenRoom: (roomId) => setSelectedRoomId(roomId),
+  })
+
+  // Read receipts: how far the other members have read, and the user's own
+  // (sent for the newest message they have scrolled to, unless turned off in the settings)
+  const readReceipts = useReadReceipts(selectedRoomId)
+  useOwnReadReceipt(wsClient, selectedRoomId, seenUpTo?.roomId === selectedRoomId ? seenUpTo.messageId : null)
+
+  // Outbound queue (optimistic pending messages, persisted and retried on failure)
+  const {
+    pending: pendingMessages,
+    send: enqueueMessage,
+    retry: retryPendingMessage,
+    discard: discardPendingMessage
+  } = useOutbox(selectedRoomId, wsClient, {
+    userId: user?.id ?? null,
+    // Swap the pending bubble for the server message as soon as either the
+    // HTTP response or the WebSocket broadcast arrives
+    onDelivered: (message) => messageStore.addMessages([message]),
+  })
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -98,13 +253,11 @@ export default function ChatPage() {
       setRooms(roomsData)
       setDirectRooms(dmsData)
 
-      // Auto-select first DM or room if nothing is selected
-      if (!selectedRoomId) {
-        if (dmsData.length > 0) {
-          setSelectedRoomId(dmsData[0].id)
-        } else if (roomsData.length > 0) {
-          setSelectedRoomId(roomsData[0].id)
-        }
+      // Auto-select first DM or room if nothing is selected (a deep link may
+      // have selected one while the lists were loading)
+      const firstRoomId = dmsData[0]?.id ?? roomsData[0]?.id
+      if (firstRoomId !== undefined) {
+        setSelectedRoomId((current) => current ?? firstRoomId)
       }
     } catch (err: any) {
       console.error('Failed to load rooms:', err)
@@ -121,48 +274,40 @@ export default function ChatPage() {
     }
   }, [isAuthenticated])
 
-  // Load messages for a room
-  const loadMessagesForRoom = async (roomId: number, page: number) => {
-    try {
-      setLoadingMessages(true)
-      setError(null)
-
-      const response = await getMessages(roomId, page, 50)
+  // Open a message deep link (/chat?room=12&message=3456), then drop it from
+  // the address bar so switching rooms doesn't leave a stale link behind
+  useEffect(() => {
+    if (!isAuthenticated) return
 
-      // Backend returns messages in DESC order (newest first), reverse for display
-      const sortedMessages = [...response.messages].reverse()
+    const target = parseMessageLink(window.location.search)
+    if (!target) return
 
-      if (page === 1) {
-        setMessages(sortedMessages)
-        clearWsMessages() // Clear WebSocket messages when switching rooms
-      } else {
-        // Prepend older messages
-        setMessages((prev) => [...sortedMessages, ...prev])
-      }
+    window.history.replaceState(null, '', CHAT_PATH)
+    setSelectedRoomId(target.roomId)
+    setJumpTarget(target)
+  }, [isAuthenticated])
 
-      setCurrentPage(page)
-      setHasMoreMessages(response.pagination.page < response.pagination.totalPages)
-    } catch (err) {
-      console.error('Failed to load messages:', err)
-      setError('Failed to load messages')
-    } finally {
-      setLoadingMessages(false)
+  // Surface message load errors
+  useEffect(() => {
+    if (messagesError) {
+      setError(messagesError)
     }
-  }
+  }, [messagesError])
 
-  // Mark room as read
-  const markAsRead = useCallback(async (roomId: number) => {
+  // Mark room as read up to a message
+  const markAsRead = useCallback(async (roomId: number, messageId: number) => {
     try {
-      await markRoomAsRead(roomId)
-      // Update unread count in the local state
+      await markRoomAsRead(roomId, messageId)
+      // Update unread count and last-read position in the local state
+      const read = { unread_count: 0, mention_count: 0, last_read_message_id: messageId }
       setDirectRooms((prev) =>
         prev.map((dm) =>
-          dm.id === roomId ? { ...dm, unread_count: 0 } : dm
+          dm.id === roomId ? { ...dm, ...read } : dm
         )
       )
       setRooms((prev) =>
         prev.map((room) =>
-          (room as any).id === roomId ? { ...room, unread_count: 0 } : room
+          (room as any).id === roomId ? { ...room, ...read } : room
         )
       )
     } catch (err) {
@@ -170,28 +315,53 @@ export default function ChatPage() {
     }
   }, [])
 
-  // Load messages when room is selected
+  // Reset per-room state when another room is selected (messages load via
+  // useRoomMessages; the room is marked read once scrolled to the bottom)
   useEffect(() => {
-    if (selectedRoomId !== null) {
-      loadMessagesForRoom(selectedRoomId, 1)
-      markAsRead(selectedRoomId)
-    }
+    setThreadRootId(null) // Threads belong to the room they were opened in
+    setJumpError(null)
+  }, [selectedRoomId])
+
+  // The user has scrolled down to the newest message: mark the room read
+  const handleReachBottom = useCallback((messageId: number) => {
+    if (selectedRoomId === null) return
+
+    setSeenUpTo({ roomId: selectedRoomId, messageId })
+    markAsRead(selectedRoomId, messageId)
   }, [selectedRoomId, markAsRead])
 
-  // Update room list locally when new message arrives
+  // Update room list locally when new message arrives in any room: move the
+  // room to the top, and count the message as unread unless the user sees it
+  // come in (markAsRead resets the count once it is scrolled into view)
   const updateRoomList = useCallback((message: Message) => {
+    const userId = user?.id ?? null
+    const following =
+      message.room_id === selectedRoomIdRef.current &&
+      listPinnedRef.current &&
+      !messageStore.getRoomState(message.room_id)?.hasNewer
+
+    const countUnread = <T extends { unread_count?: number; mention_count?: number }>(room: T): T => {
+      if (following || message.user_id === userId) return room
+
+      const mentioned = userId !== null && mentionsUser(message.content, userId)
+      return {
+        ...room,
+        unread_count: (room.unread_count ?? 0) + 1,
+        mention_count: (room.mention_count ?? 0) + (mentioned ? 1 : 0),
+      }
+    }
+
     // Update Direct Rooms
     setDirectRooms((prev) => {
       const index = prev.findIndex((r) => r.id === message.room_id)
       if (index !== -1) {
-        const updatedRoom = {
+        const updatedRoom = countUnread({
           ...prev[index],
           last_message: {
             content: message.content,
             created_at: message.created_at,
           },
-          unread_count: 0 // Reset unread count since we are viewing it
-        }
+        })
         const newRooms = [...prev]
         newRooms.splice(index, 1)
         return [updatedRoom, ...newRooms]
@@ -203,63 +373,48 @@ export default function ChatPage() {
     setRooms((prev) => {
       const index = prev.findIndex((r) => r.id === message.room_id)
       if (index !== -1) {
-        const updatedRoom = {
+        const updatedRoom = countUnread({
           ...prev[index],
           updated_at: message.created_at,
-          unread_count: 0 // Reset unread count since we are viewing it
-        }
+        })
         const newRooms = [...prev]
         newRooms.splice(index, 1)
         return [updatedRoom, ...newRooms]
       }
       return prev
     })
-  }, [])
+  }, [user?.id])
 
-  // Append WebSocket messages to the message list
+  // React to new WebSocket messages in every room (the store already has them)
   useEffect(() => {
-    if (wsMessages.length > 0) {
-      setMessages((prev) => {
-        // Filter out duplicates
-        const newMessages = wsMessages.filter(
-          (wsMsg) => !prev.some((msg) => msg.id === wsMsg.id)
-        )
-        return [...prev, ...newMessages]
-      })
+    if (!wsClient) return
 
-      // Mark room as read when new messages arrive
-      if (selectedRoomId) {
-        markAsRead(selectedRoomId)
-      }
+    const handleMessage = (msg: WSInboundFrameOf<'message'>) => {
+      updateRoomList(msg.content)
+    }
 
-      // Update room list order locally
-      const lastMessage = wsMessages[wsMessages.length - 1]
-      if (lastMessage) {
-        updateRoomList(lastMessage)
-      }
+    wsClient.on('message', handleMessage)
+    return () => {
+      wsClient.off('message', handleMessage)
     }
-  }, [wsMessages, selectedRoomId, updateRoomList, markAsRead])
+  }, [wsClient, updateRoomList])
+
+  // The message list started or stopped following new messages
+  const handlePinnedChange = useCallback((pinned: boolean) => {
+    listPinnedRef.current = pinned
+  }, [])
 
   // Send message (with optional parent_id for threaded replies)
-  const handleSendMessage = async (content: string, parentId?: number) => {
+  const handleSendMessage = async (content: string, parentId?: number, attachments?: Attachment[]) => {
     if (!selectedRoomId) return
 
-    try {
-      await sendMessage({
-        room_id: selectedRoomId,
-        content,
-        parent_id: parentId,
-      })
-
-      // Message will be added via WebSocket broadcast automatically
-      // No need for optimistic update - WebSocket is fast enough
+    // Queue the message - it renders immediately as a pending bubble and is
+    // sent with a client nonce, kept across room switches and retried if the
+    // network fails. onDelivered swaps in the server copy.
+    enqueueMessage(content, parentId, attachments)
 
-      // Clear reply state after sending
-      setReplyTo(null)
-    } catch (err) {
-      console.error('Failed to send message:', err)
-      throw err // Re-throw so MessageInput can handle it
-    }
+    // Clear reply state after sending
+    setReplyTo(null)
   }
 
   // Handle reply to message
@@ -272,6 +427,64 @@ export default function ChatPage() {
     setReplyTo(null)
   }, [])
 
+  // Open the thread a message belongs to (its own, or its parent's for a reply)
+  const handleViewThread = useCallback((message: Message) => {
+    setSidePanel(null)
+    setThreadRootId(message.parent_id ?? message.id)
+  }, [])
+
+  // Open or close a side panel (search, pins, saved); it shares the side of the chat with threads
+  const toggleSidePanel = (panel: 'search' | 'pins' | 'saved') => {
+    setThreadRootId(null)
+    setSidePanel((current) => (current === panel ? null : panel))
+  }
+
+  // Mute or unmute notifications for a room (keywords and mentions still notify)
+  const toggleRoomMute = (roomId: number) => {
+    const muted = settings.mutedRooms
+    updateSetting('mutedRooms', muted.includes(roomId) ? muted.filter((id) => id !== roomId) : [...muted, roomId])
+  }
+
+  // Jump to a message (search result, pin, saved message): switch to its room, then load the history around it
+  const handleJumpToMessage = (message: Message) => {
+    setFocusMessageId(null)
+    setJumpError(null)
+    setSelectedRoomId(message.room_id)
+    setJumpTarget({ roomId: message.room_id, messageId: message.id })
+  }
+
+  // Load the messages around the jump target once its room is selected
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.roomId !== selectedRoomId) return
+
+    let cancelled = false
+    loadMessagesAround(jumpTarget.messageId).then((result) => {
+      if (cancelled) return
+      setJumpTarget(null)
+      if (result === 'found') {
+        setFocusMessageId(jumpTarget.messageId)
+      } else if (result === 'too-old') {
+        setJumpError('That message is too old to load')
+      } else if (result === 'missing') {
+        setJumpError('Could not find that message - it may have been deleted')
+      }
+      // 'failed' shows the load error itself
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [jumpTarget, selectedRoomId, loadMessagesAround])
+
+  const handleMessageFocused = useCallback(() => {
+    setFocusMessageId(null)
+  }, [])
+
+  // Send a reply from the thread panel (leaves the main input's reply state alone)
+  const handleSendThreadReply = (content: string, parentId?: number, attachments?: Attachment[]) => {
+    enqueueMessage(content, parentId, attachments)
+  }
+
   // Handle typing indicator
   const handleTypingChange = useCallback(
     (isTyping: boolean) => {
@@ -287,10 +500,8 @@ export default function ChatPage() {
     try {
       const updatedMessage = await updateMessage(messageId, newContent)
 
-      // Update message in the local state
-      setMessages((prev) =>
-        prev.map((msg) => (msg.id === messageId ? updatedMessage : msg))
-      )
+      // Update message (and reply previews quoting it) in the store
+      messageStore.updateMessage(updatedMessage)
     } catch (err) {
       console.error('Failed to edit message:', err)
       throw err // Re-throw so component can handle it
@@ -302,18 +513,65 @@ export default function ChatPage() {
     try {
       await deleteMessage(messageId)
 
-      // Remove message from local state
-      setMessages((prev) => prev.filter((msg) => msg.id !== messageId))
+      // Remove message (and reply previews quoting it) from the store
+      messageStore.removeMessage(messageId)
     } catch (err) {
       console.error('Failed to delete message:', err)
       throw err // Re-throw so component can handle it
     }
   }
 
+  // Toggle own reaction: applied optimistically, then replaced by the server's copy
+  const handleReact = async (message: Message, emoji: string) => {
+    if (!user) return
+
+    const reactor = { id: user.id, username: user.username }
+    const current = messageStore.getMessage(message.id) ?? message
+    const added = !hasReacted(current, emoji, user.id)
+
+    messageStore.applyReaction(message.id, emoji, reactor, added)
+    try {
+      const reactions = added
+        ? await addReaction(message.id, emoji)
+        : await removeReaction(message.id, emoji)
+      messageStore.setReactions(message.id, reactions)
+    } catch (err) {
+      console.error('Failed to update reaction:', err)
+      messageStore.applyReaction(message.id, emoji, reactor, !added) // Undo the optimistic change
+    }
+  }
+
+  // Pin or unpin a message (room admins and owners); others see it via WebSocket
+  const handleTogglePin = async (message: Message) => {
+    try {
+      if (pinStore.isPinned(message)) {
+        await unpinMessage(message.id)
+        pinStore.removePin(message.room_id, message.id)
+      } else {
+        pinStore.addPin(await pinMessage(message.id))
+      }
+    } catch (err) {
+      console.error('Failed to update pin:', err)
+    }
+  }
+
+  // Save a message, or remove it from the saved messages
+  const handleToggleBookmark = async (message: Message) => {
+    try {
+      if (bookmarkStore.isBookmarked(message.id)) {
+        await bookmarkStore.remove(message.id)
+      } else {
+        await bookmarkStore.add(message)
+      }
+    } catch (err) {
+      console.error('Failed to update saved message:', err)
+    }
+  }
+
   // Load more messages (pagination)
   const handleLoadMore = () => {
     if (selectedRoomId && !loadingMessages && hasMoreMessages) {
-      loadMessagesForRoom(selectedRoomId, currentPage + 1)
+      loadMoreMessages()
     }
   }
 
@@ -359,12 +617,6 @@ export default function ChatPage() {
       .slice(0, 2)
   }
 
-  // Check if user is online (for DMs)
-  const isUserOnline = (room: Room | DirectRoomResponse | null): boolean => {
-    if (!room || !('other_user' in room)) return false
-    return room.other_user.is_online
-  }
-
   // Get unread count
   const getUnreadCount = (room: Room | DirectRoomResponse): number => {
     if ('unread_count' in room) {
@@ -373,6 +625,11 @@ export default function ChatPage() {
     return 0
   }
 
+  // Get unread mentions of the current user (kept apart from the unread count)
+  const getMentionCount = (room: Room | DirectRoomResponse): number => {
+    return room.mention_count ?? 0
+  }
+
   // Room management handlers (admin only)
   const handleRoomCreated = (newRoom: Room) => {
     setRooms((prev) => [...prev, newRoom])
@@ -451,6 +708,21 @@ export default function ChatPage() {
   const selectedRoom = getSelectedRoom()
   const allRooms = getAllRooms()
 
+  // First message that was unread when the room was opened ("New messages" divider)
+  const { firstUnreadId, resolved: unreadResolved } = useUnreadMarker(
+    selectedRoomId,
+    selectedRoom
+      ? { unreadCount: selectedRoom.unread_count ?? 0, lastReadMessageId: selectedRoom.last_read_message_id }
+      : null,
+    messages,
+    messagesRevalidated,
+    user?.id ?? 0
+  )
+
+  // Presence of the other user (for DMs)
+  const otherUser = selectedRoom && 'other_user' in selectedRoom ? selectedRoom.other_user : null
+  const otherPresence = usePresence(otherUser)
+
   // Loading state
   if (authLoading) {
     return (
@@ -471,6 +743,15 @@ export default function ChatPage() {
           <div className="flex items-center justify-between mb-3">
             <h1 className="text-xl font-semibold text-black select-none">Messages</h1>
             <div className="flex items-center gap-2">
+              <SetStatusButton
+                status={ownPresence.status}
+                mode={ownPresence.mode}
+                customStatus={ownPresence.customStatus}
+                hidden={ownPresence.hidden}
+                onModeChange={ownPresence.setMode}
+                onSetCustomStatus={ownPresence.setCustomStatus}
+                onClearCustomStatus={ownPresence.clearCustomStatus}
+              />
               <CreateDMButton
                 onDMCreated={(roomId) => {
                   setSelectedRoomId(roomId)
@@ -488,6 +769,15 @@ export default function ChatPage() {
                   <Plus className="h-4 w-4 text-gray-600" />
                 </Button>
               )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("h-8 w-8 p-0 hover:bg-gray-100", sidePanel === 'saved' && "bg-gray-100")}
+                onClick={() => toggleSidePanel('saved')}
+                title="Saved messages"
+              >
+                <Bookmark className="h-4 w-4 text-gray-600" />
+              </Button>
               <Link href="/profile">
                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-gray-100">
                   <User className="h-4 w-4 text-gray-600" />
@@ -556,6 +846,7 @@ export default function ChatPage() {
                       key={room.id}
                       dm={room}
                       isSelected={isSelected}
+                      isMuted={settings.mutedRooms.includes(room.id)}
                       onClick={() => setSelectedRoomId(room.id)}
                     />
                   )
@@ -564,6 +855,7 @@ export default function ChatPage() {
                 // Render group rooms with original inline style
                 const displayName = getRoomDisplayName(room)
                 const unreadCount = getUnreadCount(room)
+                const mentionCount = getMentionCount(room)
 
                 return (
                   <div
@@ -584,11 +876,19 @@ export default function ChatPage() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
                         <h3 className="font-medium text-black truncate">{displayName}</h3>
+                        {settings.mutedRooms.includes(room.id) && (
+                          <BellOff className="h-3.5 w-3.5 text-gray-400 flex-shrink-0 ml-2" aria-label="Muted" />
+                        )}
                       </div>
                       <p className="text-sm text-gray-600 truncate">
                         Group chat
                       </p>
                     </div>
+                    {mentionCount > 0 && (
+                      <div className="bg-white text-black border border-black text-xs rounded-full h-5 min-w-[20px] px-1.5 flex items-center justify-center font-medium">
+                        @{mentionCount > 99 ? '99+' : mentionCount}
+                      </div>
+                    )}
                     {unreadCount > 0 && (
                       <div className="bg-black text-white text-xs rounded-full h-5 min-w-[20px] px-1.5 flex items-center justify-center font-medium">
                         {unreadCount > 99 ? '99+' : unreadCount}
@@ -616,18 +916,54 @@ export default function ChatPage() {
                       {getInitials(getRoomDisplayName(selectedRoom))}
                     </AvatarFallback>
                   </Avatar>
-                  {isUserOnline(selectedRoom) && (
-                    <div className="absolute -bottom-0.5 -right-0.5 h-3 w-3 bg-black border-2 border-white rounded-full" />
+                  {otherUser && (
+                    <OnlineStatusBadge status={otherPresence.status} label={otherPresence.label} size="sm" />
                   )}
                 </div>
                 <div>
                   <h2 className="font-semibold text-black">{getRoomDisplayName(selectedRoom)}</h2>
-                  <p className="text-xs text-gray-500">
-                    {isUserOnline(selectedRoom) ? 'Active now' : 'Offline'}
-                  </p>
+                  {otherUser && (
+                    <p className="text-xs text-gray-500">
+                      {otherPresence.label}
+                      {otherPresence.customStatus && ` · ${otherPresence.customStatus.text}`}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn("h-9 w-9 p-0 hover:bg-gray-100", sidePanel === 'search' && "bg-gray-100")}
+                  onClick={() => toggleSidePanel('search')}
+                  title="Search messages"
+                >
+                  <Search className="h-4 w-4 text-gray-600" />
+                </Button>
+                {pinRoomId !== null && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn("h-9 w-9 p-0 hover:bg-gray-100", sidePanel === 'pins' && "bg-gray-100")}
+                    onClick={() => toggleSidePanel('pins')}
+                    title="Pinned messages"
+                  >
+                    <Pin className="h-4 w-4 text-gray-600" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0 hover:bg-gray-100"
+                  onClick={() => toggleRoomMute(selectedRoom.id)}
+                  title={settings.mutedRooms.includes(selectedRoom.id) ? "Unmute notifications" : "Mute notifications"}
+                >
+                  {settings.mutedRooms.includes(selectedRoom.id) ? (
+                    <BellOff className="h-4 w-4 text-gray-600" />
+                  ) : (
+                    <Bell className="h-4 w-4 text-gray-600" />
+                  )}
+                </Button>
                 <Button variant="ghost" size="sm" className="h-9 w-9 p-0 hover:bg-gray-100">
                   <Phone className="h-4 w-4 text-gray-600" />
                 </Button>
@@ -694,6 +1030,32 @@ export default function ChatPage() {
               </div>
             </div>
 
+            {/* Latest pin */}
+            {pinRoomId !== null && (
+              <PinnedMessageBanner
+                pins={pins}
+                onJump={handleJumpToMessage}
+                onShowAll={() => {
+                  setThreadRootId(null)
+                  setSidePanel('pins')
+                }}
+              />
+            )}
+
+            {/* Message that could not be jumped to */}
+            {jumpError && (
+              <div className="px-4 py-2 border-b border-red-200 bg-red-50 flex items-center gap-2 text-sm text-red-600 flex-shrink-0">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span className="flex-1">{jumpError}</span>
+                <button
+                  onClick={() => setJumpError(null)}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+
             {/* Messages */}
             <MessageList
               messages={messages}
@@ -701,9 +1063,28 @@ export default function ChatPage() {
               loading={loadingMessages}
               hasMore={hasMoreMessages}
               onLoadMore={handleLoadMore}
+              hasNewer={hasNewerMessages}
+              onLoadNewer={loadNewerMessages}
+              onLoadLatest={loadLatestMessages}
               onEdit={handleEditMessage}
               onDelete={handleDeleteMessage}
               onReply={handleReply}
+              onViewThread={handleViewThread}
+              onReact={handleReact}
+              pinnedIds={pinnedIds}
+              onTogglePin={canPin ? handleTogglePin : undefined}
+              bookmarkedIds={bookmarkedIds}
+              onToggleBookmark={handleToggleBookmark}
+              readReceipts={readReceipts}
+              isDirect={'other_user' in selectedRoom}
+              pendingMessages={pendingMessages}
+              onRetryPending={retryPendingMessage}
+              onDiscardPending={discardPendingMessage}
+              focusMessageId={focusMessageId}
+              onFocused={handleMessageFocused}
+              unreadMessageId={firstUnreadId}
+              onReachBottom={unreadResolved ? handleReachBottom : undefined}
+              onPinnedChange={handlePinnedChange}
             />
 
             {/* Input Area (Typing Indicator + Message Input) */}
@@ -715,9 +1096,11 @@ export default function ChatPage() {
               <MessageInput
                 onSend={handleSendMessage}
                 onTypingChange={handleTypingChange}
-                disabled={!isConnected}
                 replyTo={replyTo}
                 onCancelReply={handleCancelReply}
+                roomId={selectedRoomId}
+                isDirect={'other_user' in selectedRoom}
+                currentUserId={user?.id ?? null}
               />
             </div>
           </>
@@ -746,6 +1129,61 @@ export default function ChatPage() {
         )}
       </div>
 
+      {/* Thread Panel */}
+      {selectedRoom && threadRootId !== null && (
+        <ThreadPanel
+          key={threadRootId}
+          rootId={threadRootId}
+          currentUserId={user?.id || 0}
+          isDirect={'other_user' in selectedRoom}
+          onClose={() => setThreadRootId(null)}
+          onSend={handleSendThreadReply}
+          onEdit={handleEditMessage}
+          onDelete={handleDeleteMessage}
+          onReact={handleReact}
+          pendingMessages={pendingMessages.filter((entry) => entry.parent_id === threadRootId)}
+          onRetryPending={retryPendingMessage}
+          onDiscardPending={discardPendingMessage}
+        />
+      )}
+
+      {/* Search Panel */}
+      {sidePanel === 'search' && (
+        <SearchPanel
+          rooms={[...directRooms, ...rooms].map((room) => ({ id: room.id, name: getRoomDisplayName(room) }))}
+          onClose={() => setSidePanel(null)}
+          onJump={handleJumpToMessage}
+        />
+      )}
+
+      {/* Pinned Messages Panel (group rooms) */}
+      {sidePanel === 'pins' && pinRoomId !== null && (
+        <PinnedPanel
+          pins={pins}
+          loading={loadingPins}
+          error={pinsError}
+          onClose={() => setSidePanel(null)}
+          onJump={handleJumpToMessage}
+          onUnpin={canPin ? handleTogglePin : undefined}
+        />
+      )}
+
+      {/* Saved Messages Panel */}
+      {sidePanel === 'saved' && (
+        <SavedPanel
+          bookmarks={bookmarks}
+          rooms={[...directRooms, ...rooms].map((room) => ({ id: room.id, name: getRoomDisplayName(room) }))}
+          loading={loadingBookmarks}
+          error={bookmarksError}
+          isLocal={bookmarksSource === 'local'}
+          onClose={() => setSidePanel(null)}
+          onRetry={reloadBookmarks}
+          onJump={handleJumpToMessage}
+          onRemove={(message) => bookmarkStore.remove(message.id)}
+          onSaveNote={(message, note) => bookmarkStore.setNote(message.id, note)}
+        />
+      )}
+
       {/* Room Management Dialogs (Admin only) */}
       {isAdmin && (
         <>
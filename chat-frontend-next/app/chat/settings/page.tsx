@@ -1,27 +1,23 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import { useNotificationPermission } from '@/hooks/useNotifications';
 import { useRouter } from 'next/navigation';
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { ArrowLeft, Bell, Moon, Shield, Download, Trash2, LogOut, Camera } from "lucide-react"
+import { ArrowLeft, Bell, Moon, Shield, Download, Trash2, LogOut, Camera, X } from "lucide-react"
 import Link from "next/link"
 
 export default function ChatSettingsPage() {
     const { isAuthenticated, loading, user, logout } = useAuth();
     const router = useRouter();
-    const [settings, setSettings] = useState({
-        notifications: true,
-        soundEnabled: true,
-        darkMode: false,
-        readReceipts: true,
-        onlineStatus: true,
-        messagePreview: true,
-        autoDownload: false,
-        twoFactorAuth: false,
-    })
+    const { settings, updateSetting } = useSettings();
+    const { permission, requestPermission } = useNotificationPermission();
+    const [keywordDraft, setKeywordDraft] = useState("");
 
     useEffect(() => {
         if (!loading && !isAuthenticated) {
@@ -32,12 +28,32 @@ export default function ChatSettingsPage() {
     if (loading) return <div className="h-screen bg-white flex items-center justify-center"><div className="text-black">Loading...</div></div>;
     if (!isAuthenticated) return null;
 
-    const updateSetting = (key: string, value: boolean) => {
-        setSettings((prev) => ({ ...prev, [key]: value }))
-    }
-
     const getInitials = (name: string) => name?.split(' ').map(n => n[0]).join('').toUpperCase() || 'U';
 
+    // Ask the browser for permission when notifications are turned on
+    const handleNotificationsChange = async (checked: boolean) => {
+        updateSetting("notifications", checked);
+        if (checked && permission === "default") {
+            await requestPermission();
+        }
+    };
+
+    // Add a keyword alert (ignoring duplicates)
+    const addKeyword = () => {
+        const keyword = keywordDraft.trim();
+        if (!keyword) return;
+
+        const exists = settings.notificationKeywords.some((k) => k.toLowerCase() === keyword.toLowerCase());
+        if (!exists) {
+            updateSetting("notificationKeywords", [...settings.notificationKeywords, keyword]);
+        }
+        setKeywordDraft("");
+    };
+
+    const removeKeyword = (keyword: string) => {
+        updateSetting("notificationKeywords", settings.notificationKeywords.filter((k) => k !== keyword));
+    };
+
     return (
         <div className="min-h-screen bg-white">
             {/* Header */}
@@ -97,10 +113,25 @@ export default function ChatSettingsPage() {
                                 <div>
                                     <h3 className="font-medium text-black">Push Notifications</h3>
                                     <p className="text-sm text-gray-600">Receive notifications for new messages</p>
+                                    {settings.notifications && permission === "denied" && (
+                                        <p className="text-xs text-red-600 mt-1">Blocked by your browser. Allow notifications for this site to receive them.</p>
+                                    )}
+                                    {settings.notifications && permission === "default" && (
+                                        <button
+                                            type="button"
+                                            onClick={requestPermission}
+                                            className="text-xs text-black underline mt-1"
+                                        >
+                                            Allow notifications in this browser
+                                        </button>
+                                    )}
+                                    {permission === "unsupported" && (
+                                        <p className="text-xs text-gray-500 mt-1">Not supported in this browser</p>
+                                    )}
                                 </div>
                                 <Switch
                                     checked={settings.notifications}
-                                    onCheckedChange={(checked) => updateSetting("notifications", checked)}
+                                    onCheckedChange={handleNotificationsChange}
                                 />
                             </div>
                             <div className="flex items-center justify-between">
@@ -123,6 +154,77 @@ export default function ChatSettingsPage() {
                                     onCheckedChange={(checked) => updateSetting("messagePreview", checked)}
                                 />
                             </div>
+                            <div>
+                                <h3 className="font-medium text-black">Keyword Alerts</h3>
+                                <p className="text-sm text-gray-600">Always notify when a message contains these words, even in muted rooms</p>
+                                {settings.notificationKeywords.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                        {settings.notificationKeywords.map((keyword) => (
+                                            <span
+                                                key={keyword}
+                                                className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-gray-100 text-sm text-black"
+                                            >
+                                                {keyword}
+                                                <button
+                                                    type="button"
+                                                    onClick={() => removeKeyword(keyword)}
+                                                    className="h-4 w-4 flex items-center justify-center rounded-full hover:bg-gray-200"
+                                                    title={`Remove "${keyword}"`}
+                                                >
+                                                    <X className="h-3 w-3 text-gray-600" />
+                                                </button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="flex gap-2 mt-2">
+                                    <Input
+                                        value={keywordDraft}
+                                        onChange={(e) => setKeywordDraft(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === "Enter") {
+                                                e.preventDefault();
+                                                addKeyword();
+                                            }
+                                        }}
+                                        placeholder="Add a keyword..."
+                                        className="max-w-xs"
+                                    />
+                                    <Button variant="outline" onClick={addKeyword} disabled={!keywordDraft.trim()}>
+                                        Add
+                                    </Button>
+                                </div>
+                            </div>
+                            <div>
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h3 className="font-medium text-black">Quiet Hours</h3>
+                                        <p className="text-sm text-gray-600">No notifications or sounds during these hours</p>
+                                    </div>
+                                    <Switch
+                                        checked={settings.quietHours.enabled}
+                                        onCheckedChange={(checked) => updateSetting("quietHours", { ...settings.quietHours, enabled: checked })}
+                                    />
+                                </div>
+                                {settings.quietHours.enabled && (
+                                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                                        <span>From</span>
+                                        <Input
+                                            type="time"
+                                            value={settings.quietHours.start}
+                                            onChange={(e) => updateSetting("quietHours", { ...settings.quietHours, start: e.target.value })}
+                                            className="w-32"
+                                        />
+                                        <span>to</span>
+                                        <Input
+                                            type="time"
+                                            value={settings.quietHours.end}
+                                            onChange={(e) => updateSetting("quietHours", { ...settings.quietHours, end: e.target.value })}
+                                            className="w-32"
+                                        />
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
 
@@ -163,7 +265,7 @@ export default function ChatSettingsPage() {
                             <div className="flex items-center justify-between">
                                 <div>
                                     <h3 className="font-medium text-black">Online Status</h3>
-                                    <p className="text-sm text-gray-600">Show when you're online</p>
+                                    <p className="text-sm text-gray-600">Show when you're online and when you were last active</p>
                                 </div>
                                 <Switch
                                     checked={settings.onlineStatus}
@@ -193,7 +295,7 @@ export default function ChatSettingsPage() {
                             <div className="flex items-center justify-between">
                                 <div>
                                     <h3 className="font-medium text-black">Auto-download Media</h3>
-                                    <p className="text-sm text-gray-600">Automatically download photos and videos</p>
+                                    <p className="text-sm text-gray-600">Automatically load image previews in chats</p>
                                 </div>
                                 <Switch
                                     checked={settings.autoDownload}
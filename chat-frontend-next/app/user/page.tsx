@@ -3,6 +3,7 @@
 import { Suspense, useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence } from "@/hooks/usePresence";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -39,6 +40,7 @@ function UserProfileContent() {
     const [userData, setUserData] = useState<User | null>(null);
     const [fetchingUser, setFetchingUser] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const presence = usePresence(userData);
 
     useEffect(() => {
         if (!loading && !isAuthenticated) {
@@ -168,7 +170,8 @@ function UserProfileContent() {
                                 </AvatarFallback>
                             </Avatar>
                             <OnlineStatusBadge
-                                isOnline={userData.is_online ?? false}
+                                status={presence.status}
+                                label={presence.label}
                                 size="lg"
                                 showOffline
                             />
@@ -255,14 +258,15 @@ function UserProfileContent() {
                                 <p className="text-black capitalize">{userData.role}</p>
                             </div>
 
-                            {userData.status && (
-                                <div className="space-y-2">
-                                    <label className="text-sm font-medium text-gray-700">
-                                        Status
-                                    </label>
-                                    <p className="text-black capitalize">{userData.status}</p>
-                                </div>
-                            )}
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-700">
+                                    Status
+                                </label>
+                                <p className="text-black">{presence.label}</p>
+                                {presence.customStatus && (
+                                    <p className="text-sm text-gray-600">{presence.customStatus.text}</p>
+                                )}
+                            </div>
                         </div>
                     </div>
                 </div>
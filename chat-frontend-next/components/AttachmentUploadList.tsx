@@ -0,0 +1,90 @@
+"use client"
+
+import type React from "react"
+import { AlertCircle, FileText, RotateCw, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatFileSize } from "@/lib/attachments"
+import type { AttachmentUpload } from "@/hooks/useAttachmentUploads"
+
+interface AttachmentUploadListProps {
+  uploads: AttachmentUpload[]
+  onRemove: (id: string) => void
+  onRetry: (id: string) => void
+}
+
+/**
+ * AttachmentUploadList component shows the files attached in the message input
+ *
+ * Features:
+ * - Image thumbnail or file icon, name and size
+ * - Progress bar while uploading
+ * - Retry for failed uploads; remove button (cancels the upload)
+ *
+ * @param uploads - Attached files
+ * @param onRemove - Callback to remove a file
+ * @param onRetry - Callback to upload a failed file again
+ */
+export function AttachmentUploadList({ uploads, onRemove, onRetry }: AttachmentUploadListProps) {
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {uploads.map((upload) => {
+        const failed = upload.status === "failed"
+
+        return (
+          <div
+            key={upload.id}
+            className={cn(
+              "relative w-52 flex items-center gap-2 p-2 rounded-lg border bg-gray-50",
+              failed ? "border-red-300" : "border-gray-200"
+            )}
+          >
+            {upload.previewUrl ? (
+              <img src={upload.previewUrl} alt="" className="h-10 w-10 flex-shrink-0 rounded object-cover" />
+            ) : (
+              <div className="h-10 w-10 flex-shrink-0 rounded bg-white border border-gray-200 flex items-center justify-center">
+                <FileText className="h-5 w-5 text-gray-500" />
+              </div>
+            )}
+
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-black truncate" title={upload.file.name}>
+                {upload.file.name}
+              </p>
+              {failed ? (
+                <button
+                  type="button"
+                  onClick={() => onRetry(upload.id)}
+                  className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700"
+                  title={upload.error}
+                >
+                  <AlertCircle className="h-3 w-3" />
+                  Failed
+                  <RotateCw className="h-3 w-3 ml-1" />
+                  Retry
+                </button>
+              ) : upload.status === "uploading" ? (
+                <div className="mt-1.5 h-1 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-black transition-[width] duration-200"
+                    style={{ width: `${upload.progress}%` }}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">{formatFileSize(upload.file.size)}</p>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => onRemove(upload.id)}
+              className="h-6 w-6 flex-shrink-0 flex items-center justify-center rounded hover:bg-gray-200"
+              title="Remove"
+            >
+              <X className="h-3.5 w-3.5 text-gray-500" />
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { Check, Copy } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { highlightCode, type HighlightTokenType } from "@/lib/highlight"
+
+interface CodeBlockProps {
+  code: string
+  language?: string | null
+}
+
+const TOKEN_CLASSES: Record<HighlightTokenType, string> = {
+  plain: "",
+  keyword: "text-sky-300",
+  string: "text-amber-200",
+  comment: "text-gray-500 italic",
+  number: "text-violet-300",
+}
+
+/**
+ * CodeBlock component displays a fenced code block from a message
+ *
+ * Features:
+ * - Syntax highlighting (lib/highlight)
+ * - Language label
+ * - Copy button with confirmation
+ * - Scrolls horizontally instead of wrapping long lines
+ *
+ * @param code - Code to display
+ * @param language - Language from the code fence
+ */
+export function CodeBlock({ code, language = null }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false)
+  const tokens = useMemo(() => highlightCode(code, language), [code, language])
+
+  // Reset the copied confirmation after a moment
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+    } catch (err) {
+      console.error('Failed to copy code:', err)
+    }
+  }
+
+  return (
+    <div className="my-1 rounded-lg bg-gray-900 text-gray-100 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-700 select-none">
+        <span className="text-[11px] text-gray-400 font-mono">{language || "code"}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-1 text-[11px] text-gray-400 hover:text-white transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre className="px-3 py-2 overflow-x-auto text-xs leading-relaxed">
+        <code className="font-mono">
+          {tokens.map((token, index) => (
+            <span key={index} className={cn(TOKEN_CLASSES[token.type])}>
+              {token.text}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  )
+}
@@ -1,14 +1,18 @@
 "use client"
 
 import type React from "react"
+import { BellOff } from "lucide-react"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { cn } from "@/lib/utils"
 import type { DirectRoomResponse } from "@/lib/api/rooms"
+import { stripMentions } from "@/lib/mentions"
+import { usePresence } from "@/hooks/usePresence"
 import { OnlineStatusBadge } from "./OnlineStatusBadge"
 
 interface DirectMessageCardProps {
   dm: DirectRoomResponse
   isSelected?: boolean
+  isMuted?: boolean
   onClick?: () => void
 }
 
@@ -17,17 +21,21 @@ interface DirectMessageCardProps {
  *
  * Features:
  * - Shows other user's avatar with initials
- * - Online status indicator (green dot)
- * - Unread count badge
+ * - Presence indicator (online, away or busy), with "last seen" on hover
+ * - Unread count badge, plus a mention badge when the user was pinged
  * - Last message preview
+ * - Muted indicator when notifications for the DM are muted
  * - Responsive hover state
  * - Selected state highlighting
  *
  * @param dm - Direct room data from API
  * @param isSelected - Whether this DM is currently selected
+ * @param isMuted - Whether notifications for this DM are muted
  * @param onClick - Handler for when the card is clicked
  */
-export function DirectMessageCard({ dm, isSelected = false, onClick }: DirectMessageCardProps) {
+export function DirectMessageCard({ dm, isSelected = false, isMuted = false, onClick }: DirectMessageCardProps) {
+  const presence = usePresence(dm.other_user)
+
   // Get user initials for avatar
   const getInitials = (username: string) => {
     const cleaned = username.replace(/[^a-zA-Z\s]/g, '')
@@ -78,16 +86,19 @@ export function DirectMessageCard({ dm, isSelected = false, onClick }: DirectMes
             {getInitials(dm.other_user.username)}
           </AvatarFallback>
         </Avatar>
-        <OnlineStatusBadge isOnline={dm.other_user.is_online} size="sm" />
+        <OnlineStatusBadge status={presence.status} label={presence.label} size="sm" />
       </div>
 
       {/* Message info */}
       <div className="flex-1 min-w-0">
         {/* Username and timestamp */}
         <div className="flex items-center justify-between mb-1">
-          <h3 className="font-medium text-black truncate">
-            {dm.display_name}
-          </h3>
+          <div className="flex items-center gap-1.5 min-w-0">
+            <h3 className="font-medium text-black truncate">
+              {dm.display_name}
+            </h3>
+            {isMuted && <BellOff className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" aria-label="Muted" />}
+          </div>
           {dm.last_message && (
             <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
               {formatTimestamp(dm.last_message.created_at)}
@@ -97,10 +108,17 @@ export function DirectMessageCard({ dm, isSelected = false, onClick }: DirectMes
 
         {/* Last message preview */}
         <p className="text-sm text-gray-600 truncate">
-          {dm.last_message?.content || 'No messages yet'}
+          {dm.last_message ? stripMentions(dm.last_message.content) : 'No messages yet'}
         </p>
       </div>
 
+      {/* Mention count badge */}
+      {!!dm.mention_count && (
+        <div className="bg-white text-black border border-black text-xs rounded-full h-5 min-w-[20px] px-1.5 flex items-center justify-center font-medium flex-shrink-0">
+          @{dm.mention_count > 99 ? '99+' : dm.mention_count}
+        </div>
+      )}
+
       {/* Unread count badge */}
       {dm.unread_count > 0 && (
         <div className="bg-black text-white text-xs rounded-full h-5 min-w-[20px] px-1.5 flex items-center justify-center font-medium flex-shrink-0">
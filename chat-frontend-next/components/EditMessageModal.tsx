@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Loader2 } from "lucide-react"
 import {
   Dialog,
@@ -12,6 +12,9 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import { MessageContent } from "@/components/MessageContent"
+import { hasMarkdown } from "@/lib/markdown"
+import { decodeMentions, encodeMentions } from "@/lib/mentions"
 import type { Message } from "@/lib/types"
 
 interface EditMessageModalProps {
@@ -25,8 +28,9 @@ interface EditMessageModalProps {
  * EditMessageModal component allows users to edit their messages
  *
  * Features:
- * - Pre-filled textarea with current message content
+ * - Pre-filled textarea with current message content (mentions shown as @username)
  * - Character counter
+ * - Live preview when the message uses Markdown formatting
  * - Save and cancel buttons
  * - Loading state during save
  * - Error handling
@@ -37,18 +41,22 @@ interface EditMessageModalProps {
  * @param onSave - Callback to save the edited message
  */
 export function EditMessageModal({ message, open, onOpenChange, onSave }: EditMessageModalProps) {
-  const [content, setContent] = useState(message.content)
+  // Edit mentions as plain @username and encode them again on save
+  const original = useMemo(() => decodeMentions(message.content), [message.content])
+  const [content, setContent] = useState(original.text)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const encoded = useMemo(() => encodeMentions(content, original.mentions), [content, original])
+  const formatted = useMemo(() => hasMarkdown(encoded), [encoded])
 
   // Reset content when message changes
   useEffect(() => {
-    setContent(message.content)
+    setContent(original.text)
     setError(null)
-  }, [message.content, open])
+  }, [original, open])
 
   const handleSave = async () => {
-    const trimmedContent = content.trim()
+    const trimmedContent = encoded.trim()
 
     // Validation
     if (!trimmedContent) {
@@ -76,7 +84,7 @@ export function EditMessageModal({ message, open, onOpenChange, onSave }: EditMe
   }
 
   const handleCancel = () => {
-    setContent(message.content)
+    setContent(original.text)
     setError(null)
     onOpenChange(false)
   }
@@ -123,6 +131,14 @@ export function EditMessageModal({ message, open, onOpenChange, onSave }: EditMe
               </div>
             </div>
 
+            {/* Formatting preview */}
+            {formatted && (
+              <div className="max-h-48 overflow-y-auto p-2 bg-gray-50 rounded-lg border border-gray-200">
+                <p className="text-xs text-gray-500 font-medium mb-1 select-none">Preview</p>
+                <MessageContent content={encoded} className="text-black" />
+              </div>
+            )}
+
             {error && (
               <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
                 {error}
@@ -0,0 +1,217 @@
+"use client"
+
+import type React from "react"
+import { useMemo, useState } from "react"
+import { Clock, Search } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import {
+  EMOJI,
+  EMOJI_CATEGORIES,
+  applySkinTone,
+  findEmojiByChar,
+  loadEmojiPreferences,
+  recordRecentEmoji,
+  saveEmojiPreferences,
+  searchEmoji,
+  type Emoji,
+  type EmojiCategoryId,
+  type SkinTone,
+} from "@/lib/emoji"
+
+interface EmojiPickerProps {
+  userId: number | null
+  onSelect: (emoji: string) => void
+  onClose: () => void
+  className?: string
+}
+
+type PickerTab = EmojiCategoryId | "recent"
+
+const SKIN_TONES: SkinTone[] = [0, 1, 2, 3, 4, 5]
+const SKIN_TONE_SAMPLE = EMOJI.find((emoji) => emoji.shortcodes.includes("hand"))!
+
+/**
+ * EmojiPicker component shows a searchable emoji panel (composer and reactions)
+ *
+ * Features:
+ * - Search by shortcode or keyword
+ * - Category tabs, plus recently used emoji (stored per user)
+ * - Skin-tone selection (remembered per user)
+ * - Works offline from the bundled dataset (lib/emojiData)
+ * - Closes on outside click or Escape
+ *
+ * @param userId - Current user's ID (recent emoji and skin tone are stored per user)
+ * @param onSelect - Callback with the emoji to insert (skin tone applied)
+ * @param onClose - Callback to close the picker
+ * @param className - Additional classes for the panel (e.g. to position it)
+ */
+export function EmojiPicker({ userId, onSelect, onClose, className }: EmojiPickerProps) {
+  const [preferences, setPreferences] = useState(() => loadEmojiPreferences(userId))
+  const [query, setQuery] = useState("")
+  const [tab, setTab] = useState<PickerTab>(preferences.recent.length > 0 ? "recent" : "people")
+  const [showSkinTones, setShowSkinTones] = useState(false)
+  const [hovered, setHovered] = useState<Emoji | null>(null)
+
+  // Emoji shown in the grid: search results, or the selected tab
+  const visible = useMemo(() => {
+    if (query.trim()) return searchEmoji(query)
+    if (tab === "recent") {
+      return preferences.recent
+        .map((char) => findEmojiByChar(char))
+        .filter((emoji): emoji is Emoji => !!emoji)
+    }
+    return EMOJI.filter((emoji) => emoji.category === tab)
+  }, [query, tab, preferences.recent])
+
+  const handleSelect = (emoji: Emoji) => {
+    setPreferences(recordRecentEmoji(userId, emoji))
+    onSelect(applySkinTone(emoji, preferences.skinTone))
+    onClose()
+  }
+
+  const handleSkinTone = (skinTone: SkinTone) => {
+    const updated = { ...preferences, skinTone }
+    setPreferences(updated)
+    saveEmojiPreferences(userId, updated)
+    setShowSkinTones(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  const sectionLabel = query.trim()
+    ? "Search results"
+    : tab === "recent"
+      ? "Recently used"
+      : EMOJI_CATEGORIES.find((category) => category.id === tab)?.label
+
+  return (
+    <>
+      {/* Backdrop to close the picker */}
+      <div className="fixed inset-0 z-10" onClick={onClose} />
+
+      <div
+        className={cn(
+          "absolute bottom-full left-0 mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-20 flex flex-col",
+          className
+        )}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Search and skin tone */}
+        <div className="p-2 border-b border-gray-200 flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search emoji..."
+              className="h-8 pl-8 bg-gray-50 border-gray-200 text-black placeholder:text-gray-400 focus-visible:ring-1 focus-visible:ring-black"
+              autoFocus
+            />
+          </div>
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowSkinTones(!showSkinTones)}
+              className="h-8 w-8 rounded-md hover:bg-gray-100 text-lg leading-none"
+              title="Skin tone"
+            >
+              {applySkinTone(SKIN_TONE_SAMPLE, preferences.skinTone)}
+            </button>
+            {showSkinTones && (
+              <div className="absolute right-0 top-full mt-1 flex gap-0.5 p-1 bg-white border border-gray-200 rounded-lg shadow-lg z-30">
+                {SKIN_TONES.map((tone) => (
+                  <button
+                    key={tone}
+                    type="button"
+                    onClick={() => handleSkinTone(tone)}
+                    className={cn(
+                      "h-8 w-8 rounded-md hover:bg-gray-100 text-lg leading-none",
+                      tone === preferences.skinTone && "bg-gray-100"
+                    )}
+                  >
+                    {applySkinTone(SKIN_TONE_SAMPLE, tone)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Category tabs */}
+        {!query.trim() && (
+          <div className="flex items-center justify-between px-1 py-1 border-b border-gray-200 select-none">
+            {preferences.recent.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setTab("recent")}
+                className={cn(
+                  "h-7 w-7 flex items-center justify-center rounded-md hover:bg-gray-100",
+                  tab === "recent" && "bg-gray-100"
+                )}
+                title="Recently used"
+              >
+                <Clock className="h-4 w-4 text-gray-600" />
+              </button>
+            )}
+            {EMOJI_CATEGORIES.map((category) => (
+              <button
+                key={category.id}
+                type="button"
+                onClick={() => setTab(category.id)}
+                className={cn(
+                  "h-7 w-7 rounded-md hover:bg-gray-100 text-base leading-none",
+                  tab === category.id && "bg-gray-100"
+                )}
+                title={category.label}
+              >
+                {category.icon}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Emoji grid */}
+        <div className="h-56 overflow-y-auto p-2">
+          <p className="text-xs text-gray-500 font-medium mb-1 px-1 select-none">{sectionLabel}</p>
+          {visible.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8 select-none">No emoji found</p>
+          ) : (
+            <div className="grid grid-cols-8 gap-0.5">
+              {visible.map((emoji) => (
+                <button
+                  key={emoji.char}
+                  type="button"
+                  onClick={() => handleSelect(emoji)}
+                  onMouseEnter={() => setHovered(emoji)}
+                  onMouseLeave={() => setHovered(null)}
+                  className="h-8 w-8 rounded-md hover:bg-gray-100 text-xl leading-none"
+                  title={`:${emoji.shortcodes[0]}:`}
+                >
+                  {applySkinTone(emoji, preferences.skinTone)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Hovered emoji */}
+        <div className="h-9 px-3 border-t border-gray-200 flex items-center gap-2 select-none">
+          {hovered ? (
+            <>
+              <span className="text-lg leading-none">{applySkinTone(hovered, preferences.skinTone)}</span>
+              <span className="text-xs text-gray-600 truncate">:{hovered.shortcodes[0]}:</span>
+            </>
+          ) : (
+            <span className="text-xs text-gray-400">Type :shortcode: in a message to insert emoji</span>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { ChevronLeft, ChevronRight, Download, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatFileSize, resolveAttachmentUrl } from "@/lib/attachments"
+import type { Attachment } from "@/lib/types"
+
+interface ImageLightboxProps {
+  images: Attachment[]
+  initialIndex?: number
+  onClose: () => void
+}
+
+/**
+ * ImageLightbox component shows image attachments full screen
+ *
+ * Features:
+ * - Full-size image over a dark backdrop
+ * - Previous/next between the images of a message (buttons or arrow keys)
+ * - Download button; Escape or a click on the backdrop closes it
+ *
+ * @param images - Image attachments of the message
+ * @param initialIndex - Image shown first
+ * @param onClose - Callback to close the lightbox
+ */
+export function ImageLightbox({ images, initialIndex = 0, onClose }: ImageLightboxProps) {
+  const [index, setIndex] = useState(initialIndex)
+  const image = images[Math.min(index, images.length - 1)]
+  const hasMultiple = images.length > 1
+
+  const showPrevious = () => setIndex((current) => (current - 1 + images.length) % images.length)
+  const showNext = () => setIndex((current) => (current + 1) % images.length)
+
+  // Keyboard navigation, and no page scrolling behind the lightbox
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+      if (e.key === "ArrowLeft") setIndex((current) => (current - 1 + images.length) % images.length)
+      if (e.key === "ArrowRight") setIndex((current) => (current + 1) % images.length)
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    document.body.style.overflow = "hidden"
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.body.style.overflow = "unset"
+    }
+  }, [images.length, onClose])
+
+  if (!image) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90" onClick={onClose}>
+      {/* Toolbar */}
+      <div className="flex items-center gap-3 px-4 py-3 text-white select-none" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{image.filename}</p>
+          <p className="text-xs text-gray-400">
+            {formatFileSize(image.size)}
+            {hasMultiple && ` · ${index + 1} of ${images.length}`}
+          </p>
+        </div>
+        <a
+          href={resolveAttachmentUrl(image.url)}
+          download={image.filename}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="h-9 w-9 flex items-center justify-center rounded-lg hover:bg-white/10"
+          title="Download"
+        >
+          <Download className="h-5 w-5" />
+        </a>
+        <button
+          type="button"
+          onClick={onClose}
+          className="h-9 w-9 flex items-center justify-center rounded-lg hover:bg-white/10"
+          title="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Image */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center px-16 pb-8">
+        <img
+          src={resolveAttachmentUrl(image.url)}
+          alt={image.filename}
+          className="max-h-full max-w-full object-contain"
+          onClick={(e) => e.stopPropagation()}
+        />
+
+        {hasMultiple &&
+          [
+            { label: "Previous", onClick: showPrevious, icon: ChevronLeft, position: "left-4" },
+            { label: "Next", onClick: showNext, icon: ChevronRight, position: "right-4" },
+          ].map(({ label, onClick, icon: Icon, position }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onClick()
+              }}
+              className={cn(
+                "absolute top-1/2 -translate-y-1/2 h-10 w-10 flex items-center justify-center rounded-full bg-white/10 hover:bg-white/20 text-white",
+                position
+              )}
+              title={label}
+            >
+              <Icon className="h-5 w-5" />
+            </button>
+          ))}
+      </div>
+    </div>
+  )
+}
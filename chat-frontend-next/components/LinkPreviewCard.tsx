@@ -0,0 +1,102 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { ImageIcon, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useLinkPreview } from "@/hooks/useLinkPreview"
+import { useSettings } from "@/hooks/useSettings"
+
+interface LinkPreviewCardProps {
+  url: string
+  isOwn?: boolean
+  onRemove?: () => void
+  className?: string
+}
+
+/**
+ * LinkPreviewCard component shows the preview of a link in a message
+ *
+ * Features:
+ * - Title, description, image and domain from the unfurl endpoint
+ * - Previews are cached per URL, so each link is fetched once
+ * - The image is served by the linked site, so it only loads automatically
+ *   with the "Auto-download Media" setting; otherwise it loads on click
+ * - Renders nothing while loading or when the link has no preview
+ * - Optional remove button (used by the message input before sending)
+ *
+ * @param url - Link href
+ * @param isOwn - Whether it is shown in an own (dark) bubble
+ * @param onRemove - Callback to remove the preview
+ * @param className - Additional classes for the card
+ */
+export function LinkPreviewCard({ url, isOwn = false, onRemove, className }: LinkPreviewCardProps) {
+  const state = useLinkPreview(url)
+  const { settings } = useSettings()
+  const [revealed, setRevealed] = useState(false)
+  if (state?.status !== "loaded") return null
+
+  const { preview } = state
+  const domain = new URL(url).hostname.replace(/^www\./, "")
+  const showImage = settings.autoDownload || revealed
+
+  return (
+    <div
+      className={cn(
+        "relative flex gap-3 p-2 rounded-lg border-l-2",
+        isOwn ? "bg-white/10 border-white/40" : "bg-gray-50 border-gray-300",
+        className
+      )}
+    >
+      <a href={url} target="_blank" rel="noopener noreferrer nofollow" className="flex-1 min-w-0 flex gap-3">
+        <span className="flex-1 min-w-0">
+          <span className={cn("block text-xs", isOwn ? "text-gray-300" : "text-gray-500")}>
+            {preview.site_name || domain}
+          </span>
+          {preview.title && (
+            <span className="block text-sm font-medium line-clamp-2 hover:underline">{preview.title}</span>
+          )}
+          {preview.description && (
+            <span className={cn("block text-xs line-clamp-2 mt-0.5", isOwn ? "text-gray-300" : "text-gray-600")}>
+              {preview.description}
+            </span>
+          )}
+        </span>
+        {preview.image_url && showImage && (
+          <img
+            src={preview.image_url}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="h-16 w-16 flex-shrink-0 rounded object-cover"
+          />
+        )}
+      </a>
+
+      {preview.image_url && !showImage && (
+        <button
+          type="button"
+          onClick={() => setRevealed(true)}
+          className={cn(
+            "h-16 w-16 flex-shrink-0 flex items-center justify-center rounded border",
+            isOwn ? "border-white/20 hover:bg-white/10" : "border-gray-200 hover:bg-gray-100"
+          )}
+          title={`Load image from ${domain}`}
+        >
+          <ImageIcon className={cn("h-5 w-5", isOwn ? "text-gray-300" : "text-gray-500")} />
+        </button>
+      )}
+
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center rounded-full bg-white border border-gray-200 shadow-sm hover:bg-gray-100"
+          title="Remove preview"
+        >
+          <X className="h-3 w-3 text-gray-500" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,14 @@
 
 import type React from "react"
 import { useState } from "react"
-import { MoreVertical, Edit2, Trash2, Reply } from "lucide-react"
+import { MoreVertical, Edit2, Trash2, Reply, MessagesSquare, SmilePlus, Link2, Pin, PinOff, Bookmark, BookmarkCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
+import { getMessageLink } from "@/lib/messageLinks"
 import type { Message } from "@/lib/types"
 import { EditMessageModal } from "@/components/EditMessageModal"
 import { DeleteMessageConfirm } from "@/components/DeleteMessageConfirm"
+import { EmojiPicker } from "@/components/EmojiPicker"
 
 interface MessageActionsProps {
   message: Message
@@ -15,14 +17,26 @@ interface MessageActionsProps {
   onEdit?: (messageId: number, newContent: string) => Promise<void>
   onDelete?: (messageId: number) => Promise<void>
   onReply?: (message: Message) => void
+  onViewThread?: (message: Message) => void
+  onReact?: (message: Message, emoji: string) => void
+  currentUserId?: number
+  isPinned?: boolean
+  onTogglePin?: (message: Message) => void
+  isBookmarked?: boolean
+  onToggleBookmark?: (message: Message) => void
 }
 
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "😮", "😢"]
+
 /**
  * MessageActions component displays edit, delete, and reply options for messages
  *
  * Features:
  * - Shows for all messages
- * - Reply option available for all messages
+ * - Quick reactions and an emoji picker to react with anything else
+ * - Reply, View thread and Copy link options available for all messages
+ * - Pin/unpin for room admins and owners
+ * - Save to / remove from the user's saved messages
  * - Edit and delete actions only for user's own messages
  * - Dropdown menu on hover/click
  * - Opens respective modals for confirmation
@@ -32,9 +46,30 @@ interface MessageActionsProps {
  * @param onEdit - Callback when message is edited
  * @param onDelete - Callback when message is deleted
  * @param onReply - Callback when user wants to reply to message
+ * @param onViewThread - Callback to open the thread the message belongs to
+ * @param onReact - Callback to toggle the current user's reaction
+ * @param currentUserId - Current user's ID (for the emoji picker's recent emoji)
+ * @param isPinned - Whether the message is pinned in its room
+ * @param onTogglePin - Callback to pin or unpin the message (omit when the user may not)
+ * @param isBookmarked - Whether the message is in the user's saved messages
+ * @param onToggleBookmark - Callback to save or unsave the message
  */
-export function MessageActions({ message, isOwn, onEdit, onDelete, onReply }: MessageActionsProps) {
+export function MessageActions({
+  message,
+  isOwn,
+  onEdit,
+  onDelete,
+  onReply,
+  onViewThread,
+  onReact,
+  currentUserId,
+  isPinned = false,
+  onTogglePin,
+  isBookmarked = false,
+  onToggleBookmark,
+}: MessageActionsProps) {
   const [showMenu, setShowMenu] = useState(false)
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
 
@@ -46,6 +81,15 @@ export function MessageActions({ message, isOwn, onEdit, onDelete, onReply }: Me
     setShowMenu(false)
   }
 
+  const handleCopyLink = async () => {
+    setShowMenu(false)
+    try {
+      await navigator.clipboard.writeText(getMessageLink(message))
+    } catch (err) {
+      console.error('Failed to copy link:', err)
+    }
+  }
+
   const handleDelete = async () => {
     if (onDelete) {
       await onDelete(message.id)
@@ -82,6 +126,34 @@ export function MessageActions({ message, isOwn, onEdit, onDelete, onReply }: Me
 
             {/* Menu */}
             <div className="absolute right-0 top-7 z-20 bg-white rounded-lg shadow-lg border border-gray-200 py-1 min-w-[140px]">
+              {/* Quick reactions (available for all messages) */}
+              {onReact && (
+                <div className="flex items-center gap-0.5 px-2 pb-1 mb-1 border-b border-gray-200">
+                  {QUICK_REACTIONS.map((emoji) => (
+                    <button
+                      key={emoji}
+                      onClick={() => {
+                        onReact(message, emoji)
+                        setShowMenu(false)
+                      }}
+                      className="h-7 w-7 rounded-md hover:bg-gray-100 text-base leading-none"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setShowEmojiPicker(true)
+                      setShowMenu(false)
+                    }}
+                    className="h-7 w-7 flex items-center justify-center rounded-md hover:bg-gray-100"
+                    title="Add reaction"
+                  >
+                    <SmilePlus className="h-3.5 w-3.5 text-gray-600" />
+                  </button>
+                </div>
+              )}
+
               {/* Reply option (available for all messages) */}
               {onReply && (
                 <button
@@ -96,6 +168,57 @@ export function MessageActions({ message, isOwn, onEdit, onDelete, onReply }: Me
                 </button>
               )}
 
+              {/* View thread (available for all messages) */}
+              {onViewThread && (
+                <button
+                  onClick={() => {
+                    onViewThread(message)
+                    setShowMenu(false)
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <MessagesSquare className="h-3.5 w-3.5" />
+                  View thread
+                </button>
+              )}
+
+              {/* Copy link (available for all messages) */}
+              <button
+                onClick={handleCopyLink}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <Link2 className="h-3.5 w-3.5" />
+                Copy link
+              </button>
+
+              {/* Save (available for all messages) */}
+              {onToggleBookmark && (
+                <button
+                  onClick={() => {
+                    onToggleBookmark(message)
+                    setShowMenu(false)
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {isBookmarked ? <BookmarkCheck className="h-3.5 w-3.5" /> : <Bookmark className="h-3.5 w-3.5" />}
+                  {isBookmarked ? "Remove from saved" : "Save message"}
+                </button>
+              )}
+
+              {/* Pin/unpin (room admins and owners) */}
+              {onTogglePin && (
+                <button
+                  onClick={() => {
+                    onTogglePin(message)
+                    setShowMenu(false)
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  {isPinned ? "Unpin message" : "Pin message"}
+                </button>
+              )}
+
               {/* Edit and Delete (only for own messages) */}
               {isOwn && (
                 <>
@@ -124,6 +247,16 @@ export function MessageActions({ message, isOwn, onEdit, onDelete, onReply }: Me
             </div>
           </>
         )}
+
+        {/* Emoji picker for reactions */}
+        {showEmojiPicker && onReact && (
+          <EmojiPicker
+            userId={currentUserId ?? null}
+            onSelect={(emoji) => onReact(message, emoji)}
+            onClose={() => setShowEmojiPicker(false)}
+            className="left-auto right-0"
+          />
+        )}
       </div>
 
       {/* Edit modal (only for own messages) */}
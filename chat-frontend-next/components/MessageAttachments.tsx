@@ -0,0 +1,118 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Download, FileText, ImageIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatFileSize, groupAttachments, resolveAttachmentUrl } from "@/lib/attachments"
+import { useSettings } from "@/hooks/useSettings"
+import { ImageLightbox } from "@/components/ImageLightbox"
+import type { Attachment } from "@/lib/types"
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[]
+  isOwn?: boolean
+}
+
+/**
+ * MessageAttachments component displays the files attached to a message
+ *
+ * Features:
+ * - Image thumbnails that open a lightbox
+ * - Download cards for other files (name, size)
+ * - Image previews only load automatically with the "Auto-download Media"
+ *   setting (or for own messages); otherwise they load on click
+ *
+ * @param attachments - Attachments of the message
+ * @param isOwn - Whether it is shown in an own (dark) bubble
+ */
+export function MessageAttachments({ attachments, isOwn = false }: MessageAttachmentsProps) {
+  const { settings } = useSettings()
+  const [revealed, setRevealed] = useState(false)
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const { images, files } = groupAttachments(attachments)
+  const showPreviews = settings.autoDownload || isOwn || revealed
+
+  return (
+    <div className="space-y-1.5">
+      {/* Images */}
+      {images.length > 0 &&
+        (showPreviews ? (
+          <div className={cn("grid gap-1", images.length > 1 && "grid-cols-2")}>
+            {images.map((image, index) => (
+              <button
+                key={image.id}
+                type="button"
+                onClick={() => setLightboxIndex(index)}
+                className={cn(
+                  "block overflow-hidden rounded-lg bg-gray-100",
+                  images.length > 1 && "aspect-square"
+                )}
+                // Reserve the image's space before it loads
+                style={
+                  images.length === 1 && image.width && image.height
+                    ? { aspectRatio: `${image.width} / ${image.height}` }
+                    : undefined
+                }
+                title={image.filename}
+              >
+                <img
+                  src={resolveAttachmentUrl(image.thumbnail_url ?? image.url)}
+                  alt={image.filename}
+                  loading="lazy"
+                  className="h-full w-full max-h-72 object-cover"
+                />
+              </button>
+            ))}
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setRevealed(true)}
+            className={cn(
+              "w-full flex items-center gap-3 px-3 py-2 rounded-lg border text-left",
+              isOwn ? "border-white/20 hover:bg-white/10" : "border-gray-200 bg-gray-50 hover:bg-gray-100"
+            )}
+          >
+            <ImageIcon className={cn("h-5 w-5 flex-shrink-0", isOwn ? "text-gray-300" : "text-gray-500")} />
+            <span className="flex-1 min-w-0">
+              <span className="block text-sm font-medium truncate">
+                {images.length === 1 ? images[0].filename : `${images.length} images`}
+              </span>
+              <span className={cn("block text-xs", isOwn ? "text-gray-300" : "text-gray-500")}>
+                {formatFileSize(images.reduce((total, image) => total + image.size, 0))} · Click to load
+              </span>
+            </span>
+          </button>
+        ))}
+
+      {/* Other files */}
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={resolveAttachmentUrl(file.url)}
+          download={file.filename}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={cn(
+            "flex items-center gap-3 px-3 py-2 rounded-lg border",
+            isOwn ? "border-white/20 hover:bg-white/10" : "border-gray-200 bg-gray-50 hover:bg-gray-100"
+          )}
+        >
+          <FileText className={cn("h-5 w-5 flex-shrink-0", isOwn ? "text-gray-300" : "text-gray-500")} />
+          <span className="flex-1 min-w-0">
+            <span className="block text-sm font-medium truncate">{file.filename}</span>
+            <span className={cn("block text-xs", isOwn ? "text-gray-300" : "text-gray-500")}>
+              {formatFileSize(file.size)}
+            </span>
+          </span>
+          <Download className={cn("h-4 w-4 flex-shrink-0", isOwn ? "text-gray-300" : "text-gray-500")} />
+        </a>
+      ))}
+
+      {lightboxIndex !== null && (
+        <ImageLightbox images={images} initialIndex={lightboxIndex} onClose={() => setLightboxIndex(null)} />
+      )}
+    </div>
+  )
+}
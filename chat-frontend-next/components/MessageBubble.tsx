@@ -1,19 +1,35 @@
 "use client"
 
 import type React from "react"
+import { useMemo } from "react"
 import { cn } from "@/lib/utils"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import type { Message } from "@/lib/types"
 import { formatMessageTime } from "@/lib/api/messages"
+import { mentionsUser, stripMentions } from "@/lib/mentions"
+import { extractLinks } from "@/lib/markdown"
+import { MAX_LINK_PREVIEWS } from "@/lib/linkPreviews"
 import { MessageActions } from "@/components/MessageActions"
+import { MessageContent } from "@/components/MessageContent"
+import { ReactionBar } from "@/components/ReactionBar"
+import { MessageAttachments } from "@/components/MessageAttachments"
+import { LinkPreviewCard } from "@/components/LinkPreviewCard"
+import { MessagesSquare, Pin } from "lucide-react"
 
 interface MessageBubbleProps {
   message: Message
   isOwn: boolean
+  currentUserId?: number
   showAvatar?: boolean
   onEdit?: (messageId: number, newContent: string) => Promise<void>
   onDelete?: (messageId: number) => Promise<void>
   onReply?: (message: Message) => void
+  onViewThread?: (message: Message) => void
+  onReact?: (message: Message, emoji: string) => void
+  isPinned?: boolean
+  onTogglePin?: (message: Message) => void
+  isBookmarked?: boolean
+  onToggleBookmark?: (message: Message) => void
 }
 
 /**
@@ -21,12 +37,33 @@ interface MessageBubbleProps {
  *
  * @param message - The message object from the API
  * @param isOwn - Whether the message belongs to the current user
+ * @param currentUserId - Current user's ID (highlights messages that mention them)
  * @param showAvatar - Whether to show the avatar (useful for grouping)
  * @param onEdit - Callback when message is edited
  * @param onDelete - Callback when message is deleted
  * @param onReply - Callback when user wants to reply to message
+ * @param onViewThread - Callback to open the message's thread (also shows the reply count)
+ * @param onReact - Callback to toggle the current user's reaction
+ * @param isPinned - Whether the message is pinned in its room
+ * @param onTogglePin - Callback to pin or unpin the message (room admins and owners)
+ * @param isBookmarked - Whether the message is in the user's saved messages
+ * @param onToggleBookmark - Callback to save or unsave the message
  */
-export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDelete, onReply }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  isOwn,
+  currentUserId,
+  showAvatar = true,
+  onEdit,
+  onDelete,
+  onReply,
+  onViewThread,
+  onReact,
+  isPinned = false,
+  onTogglePin,
+  isBookmarked = false,
+  onToggleBookmark,
+}: MessageBubbleProps) {
   // Get user initials for avatar
   const getInitials = (username: string) => {
     return username
@@ -37,6 +74,12 @@ export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDel
       .slice(0, 2)
   }
 
+  // Messages that ping the current user stand out
+  const mentionsMe = !isOwn && currentUserId !== undefined && mentionsUser(message.content, currentUserId)
+
+  // Links shown as preview cards (the sender may have sent some as <url> without one)
+  const links = useMemo(() => extractLinks(message.content).slice(0, MAX_LINK_PREVIEWS), [message.content])
+
   return (
     <div className={cn("flex gap-3", isOwn ? "justify-end" : "justify-start")}>
       {/* Avatar for other users */}
@@ -69,7 +112,16 @@ export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDel
             <p className="font-medium text-gray-500">
               {message.parent_message.user?.username}
             </p>
-            <p className="line-clamp-2">{message.parent_message.content}</p>
+            <p className="line-clamp-2">
+              {stripMentions(message.parent_message.content) || "Attachment"}
+            </p>
+          </div>
+        )}
+
+        {/* Reply whose parent is not loaded, or has since been deleted */}
+        {message.parent_id && !message.parent_message && (
+          <div className="text-xs px-3 py-1.5 rounded-lg border-l-2 mb-1 bg-gray-50 border-gray-300 text-gray-400 italic select-none">
+            {message.parent_deleted ? "Original message was deleted" : "Reply to a message"}
           </div>
         )}
 
@@ -77,13 +129,25 @@ export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDel
         <div className="group relative flex items-start gap-2">
           <div
             className={cn(
-              "px-4 py-2 rounded-2xl transition-all duration-200 flex-1",
+              "px-4 py-2 rounded-2xl transition-all duration-200 flex-1 min-w-0",
               isOwn
                 ? "bg-black text-white"
-                : "bg-white text-black border border-gray-200",
+                : mentionsMe
+                  ? "bg-amber-50 text-black border border-amber-300"
+                  : "bg-white text-black border border-gray-200",
             )}
           >
-            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+            {message.content && (
+              <MessageContent content={message.content} isOwn={isOwn} currentUserId={currentUserId} />
+            )}
+            {!!message.attachments?.length && (
+              <div className={cn(message.content && "mt-2")}>
+                <MessageAttachments attachments={message.attachments} isOwn={isOwn} />
+              </div>
+            )}
+            {links.map((link) => (
+              <LinkPreviewCard key={link.href} url={link.href} isOwn={isOwn} className="mt-2" />
+            ))}
             <div className={cn(
               "flex items-center gap-2 mt-1 select-none",
               isOwn && "justify-end"
@@ -91,6 +155,15 @@ export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDel
               <p className={cn("text-xs", isOwn ? "text-gray-300" : "text-gray-500")}>
                 {formatMessageTime(message.created_at)}
               </p>
+              {isPinned && (
+                <span
+                  className={cn("flex items-center gap-0.5 text-xs", isOwn ? "text-gray-300" : "text-gray-500")}
+                  title="Pinned"
+                >
+                  <Pin className="h-3 w-3" />
+                  pinned
+                </span>
+              )}
               {/* Show edited indicator if message was edited */}
               {message.updated_at !== message.created_at && (
                 <span className={cn("text-xs italic", isOwn ? "text-gray-400" : "text-gray-400")}>
@@ -107,8 +180,39 @@ export function MessageBubble({ message, isOwn, showAvatar = true, onEdit, onDel
             onEdit={onEdit}
             onDelete={onDelete}
             onReply={onReply}
+            onViewThread={onViewThread}
+            onReact={onReact}
+            currentUserId={currentUserId}
+            isPinned={isPinned}
+            onTogglePin={onTogglePin}
+            isBookmarked={isBookmarked}
+            onToggleBookmark={onToggleBookmark}
           />
         </div>
+
+        {/* Reactions */}
+        {!!message.reactions?.length && (
+          <ReactionBar
+            reactions={message.reactions}
+            currentUserId={currentUserId}
+            isOwn={isOwn}
+            onToggle={onReact ? (emoji) => onReact(message, emoji) : undefined}
+          />
+        )}
+
+        {/* Reply count (opens the thread) */}
+        {onViewThread && !!message.reply_count && (
+          <div className={cn("flex", isOwn && "justify-end")}>
+            <button
+              type="button"
+              onClick={() => onViewThread(message)}
+              className="flex items-center gap-1 px-1 text-xs font-medium text-gray-600 hover:text-black hover:underline select-none"
+            >
+              <MessagesSquare className="h-3 w-3" />
+              {message.reply_count} {message.reply_count === 1 ? "reply" : "replies"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,123 @@
+"use client"
+
+import type React from "react"
+import { useMemo } from "react"
+import { cn } from "@/lib/utils"
+import { CodeBlock } from "@/components/CodeBlock"
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown"
+
+interface MessageContentProps {
+  content: string
+  isOwn?: boolean
+  currentUserId?: number
+  className?: string
+}
+
+/**
+ * MessageContent component renders message text with Markdown formatting
+ *
+ * Features:
+ * - Bold, italics, inline code and auto-linked URLs
+ * - Fenced code blocks with highlighting and a copy button
+ * - Blockquotes and bulleted/numbered lists
+ * - @mentions, highlighted when they mention the current user
+ * - Safe by construction: content is rendered as React text, never as HTML
+ *
+ * @param content - Message content (Markdown)
+ * @param isOwn - Whether it is shown in an own (dark) bubble
+ * @param currentUserId - Current user's ID (highlights their mentions)
+ * @param className - Additional classes for the wrapper
+ */
+export function MessageContent({ content, isOwn = false, currentUserId, className }: MessageContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content])
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case "bold":
+          return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>
+        case "italic":
+          return <em key={index}>{renderInline(node.children)}</em>
+        case "code":
+          return (
+            <code
+              key={index}
+              className={cn(
+                "px-1 py-0.5 rounded font-mono text-[0.85em]",
+                isOwn ? "bg-white/15" : "bg-gray-100 border border-gray-200"
+              )}
+            >
+              {node.text}
+            </code>
+          )
+        case "link":
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className={cn("underline underline-offset-2 break-all", isOwn ? "text-white" : "text-blue-600")}
+            >
+              {node.text}
+            </a>
+          )
+        case "mention":
+          return (
+            <span
+              key={index}
+              title={node.username}
+              className={cn(
+                "px-0.5 rounded font-medium",
+                node.userId === currentUserId
+                  ? "bg-amber-200 text-black"
+                  : isOwn ? "bg-white/15 text-white" : "bg-gray-100 text-black"
+              )}
+            >
+              @{node.username}
+            </span>
+          )
+        default:
+          return node.text
+      }
+    })
+
+  const renderBlocks = (items: MarkdownBlock[]): React.ReactNode =>
+    items.map((block, index) => {
+      switch (block.type) {
+        case "code":
+          return <CodeBlock key={index} code={block.code} language={block.language} />
+        case "blockquote":
+          return (
+            <blockquote
+              key={index}
+              className={cn("border-l-2 pl-3 space-y-1", isOwn ? "border-gray-500 text-gray-200" : "border-gray-300 text-gray-600")}
+            >
+              {renderBlocks(block.children)}
+            </blockquote>
+          )
+        case "list": {
+          const items = block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))
+          return block.ordered ? (
+            <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+          ) : (
+            <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>
+          )
+        }
+        default:
+          return (
+            <p key={index} className="whitespace-pre-wrap">
+              {renderInline(block.children)}
+            </p>
+          )
+      }
+    })
+
+  return (
+    <div className={cn("text-sm break-words space-y-1 min-w-0", className)}>
+      {renderBlocks(blocks)}
+    </div>
+  )
+}
@@ -1,31 +1,71 @@
 "use client"
 
 import type React from "react"
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { Send, Smile, Loader2, X } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { MessageContent } from "@/components/MessageContent"
+import { EmojiPicker } from "@/components/EmojiPicker"
+import { AttachmentUploadList } from "@/components/AttachmentUploadList"
+import { LinkPreviewCard } from "@/components/LinkPreviewCard"
+import { Send, Smile, Loader2, X, Eye, EyeOff, Paperclip, Upload, AlertCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
-import type { Message } from "@/lib/types"
+import { extractLinks, hasMarkdown } from "@/lib/markdown"
+import { MAX_LINK_PREVIEWS, suppressLinkPreview } from "@/lib/linkPreviews"
+import { encodeMentions, findMentionQuery, stripMentions, type MentionUser } from "@/lib/mentions"
+import {
+  applySkinTone,
+  findShortcodeQuery,
+  loadEmojiPreferences,
+  recordRecentEmoji,
+  replaceShortcodes,
+  searchEmoji,
+  type Emoji,
+} from "@/lib/emoji"
+import { useMentionSuggestions } from "@/hooks/useMentionSuggestions"
+import { useAttachmentUploads } from "@/hooks/useAttachmentUploads"
+import type { Attachment, Message } from "@/lib/types"
 
 interface MessageInputProps {
-  onSend: (content: string, parentId?: number) => Promise<void> | void
+  onSend: (content: string, parentId?: number, attachments?: Attachment[]) => Promise<void> | void
   placeholder?: string
   disabled?: boolean
   onTypingChange?: (isTyping: boolean) => void
   replyTo?: Message | null
   onCancelReply?: () => void
+  parentId?: number
+  roomId?: number | null
+  isDirect?: boolean
+  currentUserId?: number | null
 }
 
+const MAX_EMOJI_SUGGESTIONS = 6
+const LINK_PREVIEW_DELAY = 500 // ms after the last keystroke
+
 /**
  * MessageInput component for sending messages
  *
- * @param onSend - Callback when user sends a message (content, optional parentId)
+ * Features:
+ * - Enter sends, Shift+Enter adds a line (for pasted code and stack traces)
+ * - Grows with its content up to a few lines
+ * - Live preview of Markdown formatting (can be hidden)
+ * - @mention and :shortcode: autocomplete (arrow keys to choose, Enter/Tab to insert, Esc to close)
+ * - Emoji picker; typed :shortcodes: are converted to emoji on send
+ * - Attach files by dropping, pasting or picking them; they upload right away
+ *   (with progress) and the message can be sent once every upload is done
+ * - Link previews of the URLs in the message, which can be removed before sending
+ *
+ * @param onSend - Callback when user sends a message (content, optional parentId and attachments)
  * @param placeholder - Input placeholder text
  * @param disabled - Whether input is disabled
  * @param onTypingChange - Callback when typing state changes (for typing indicators)
  * @param replyTo - Message being replied to (for threaded replies)
  * @param onCancelReply - Callback to cancel reply mode
+ * @param parentId - Parent for every message sent (e.g. replies in a thread), unless replying to another one
+ * @param roomId - Room the input sends to (enables @mention autocomplete)
+ * @param isDirect - Whether the room is a direct message (suggests all users instead of participants)
+ * @param currentUserId - Current user's ID (recent emoji and skin tone are stored per user)
  */
 export function MessageInput({
   onSend,
@@ -34,10 +74,90 @@ export function MessageInput({
   onTypingChange,
   replyTo = null,
   onCancelReply,
+  parentId,
+  roomId = null,
+  isDirect = false,
+  currentUserId = null,
 }: MessageInputProps) {
   const [message, setMessage] = useState("")
   const [sending, setSending] = useState(false)
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null)
+  const [showPreview, setShowPreview] = useState(true)
+  const [caret, setCaret] = useState(0)
+  const [mentions, setMentions] = useState<MentionUser[]>([])
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+  const [dismissedSuggestionStart, setDismissedSuggestionStart] = useState<number | null>(null)
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([])
+  const [previewSource, setPreviewSource] = useState("")
+  const [removedPreviews, setRemovedPreviews] = useState<string[]>([])
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const pendingCaretRef = useRef<number | null>(null)
+  // dragenter/dragleave also fire for children; count them to know when the drag really leaves
+  const dragDepthRef = useRef(0)
+
+  const {
+    uploads,
+    addFiles,
+    remove: removeUpload,
+    retry: retryUpload,
+    clear: clearUploads,
+    attachments,
+    ready: uploadsReady,
+  } = useAttachmentUploads()
+  const canSend = (message.trim().length > 0 || uploads.length > 0) && uploadsReady
+
+  // Message as it will be sent (picked @mentions encoded)
+  const encoded = useMemo(() => encodeMentions(message, mentions), [message, mentions])
+
+  // Only preview when formatting changes how the message looks
+  const formatted = useMemo(() => hasMarkdown(encoded), [encoded])
+
+  // Links that will get a preview card (looked up once the user pauses typing)
+  const previewLinks = useMemo(
+    () =>
+      extractLinks(previewSource)
+        .filter((link) => !removedPreviews.includes(link.href))
+        .slice(0, MAX_LINK_PREVIEWS),
+    [previewSource, removedPreviews]
+  )
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewSource(encoded), LINK_PREVIEW_DELAY)
+    return () => clearTimeout(timeout)
+  }, [encoded])
+
+  // @mention or :shortcode being typed at the caret (unless closed with Escape)
+  const typedMention = roomId !== null ? findMentionQuery(message, caret) : null
+  const typedShortcode = typedMention ? null : findShortcodeQuery(message, caret)
+  const dismissed = (typedMention ?? typedShortcode)?.start === dismissedSuggestionStart
+  const mentionQuery = dismissed ? null : typedMention
+  const shortcodeQuery = dismissed ? null : typedShortcode
+  const shortcodeText = shortcodeQuery?.query ?? null
+
+  const suggestions = useMentionSuggestions(roomId, isDirect, mentionQuery?.query ?? null)
+  const emojiSuggestions = useMemo(
+    () => (shortcodeText ? searchEmoji(shortcodeText, MAX_EMOJI_SUGGESTIONS) : []),
+    [shortcodeText]
+  )
+  const suggestionCount = mentionQuery ? suggestions.length : emojiSuggestions.length
+  const highlighted = Math.min(activeSuggestion, suggestionCount - 1)
+
+  // Grow the textarea with its content (and place the caret after inserted text)
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.style.height = "auto"
+    textarea.style.height = `${textarea.scrollHeight}px`
+
+    if (pendingCaretRef.current !== null) {
+      textarea.focus()
+      textarea.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current)
+      pendingCaretRef.current = null
+    }
+  }, [message])
 
   // Handle typing indicator
   const handleTyping = useCallback(
@@ -68,10 +188,91 @@ export function MessageInput({
     [onTypingChange, typingTimeout]
   )
 
+  // Track the caret and reset the suggestion list as the text changes
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value
+    const position = e.target.selectionStart
+
+    setCaret(position)
+    setActiveSuggestion(0)
+    if (!findMentionQuery(value, position) && !findShortcodeQuery(value, position)) {
+      setDismissedSuggestionStart(null)
+    }
+    handleTyping(value)
+  }
+
+  // Replace the text from `start` to the caret and put the caret after it
+  const insertAtCaret = (start: number, inserted: string) => {
+    const before = message.slice(0, start)
+    const position = before.length + inserted.length
+
+    pendingCaretRef.current = position
+    setCaret(position)
+    handleTyping(before + inserted + message.slice(caret))
+  }
+
+  // Replace the typed @query with the picked user
+  const selectMention = (user: MentionUser) => {
+    if (!mentionQuery) return
+
+    setMentions((prev) => (prev.some((mention) => mention.id === user.id) ? prev : [...prev, user]))
+    insertAtCaret(mentionQuery.start, `@${user.username} `)
+  }
+
+  // Replace the typed :query with the picked emoji
+  const selectEmoji = (emoji: Emoji) => {
+    if (!shortcodeQuery) return
+
+    const { skinTone } = recordRecentEmoji(currentUserId, emoji)
+    insertAtCaret(shortcodeQuery.start, applySkinTone(emoji, skinTone))
+  }
+
+  // Validate and upload attached files (rejected ones are listed under the input)
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0 || disabled) return
+    setAttachmentErrors(addFiles(files))
+  }
+
+  // Pasted files (e.g. screenshots) are attached instead of inserted as text
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0) {
+      e.preventDefault()
+      handleFiles(files)
+    }
+  }
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes("Files")
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || disabled) return
+    e.preventDefault()
+    dragDepthRef.current++
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+    if (dragDepthRef.current === 0) setIsDragging(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return
+    e.preventDefault()
+    dragDepthRef.current = 0
+    setIsDragging(false)
+    handleFiles(Array.from(e.dataTransfer.files))
+  }
+
   // Handle sending message
   const handleSend = async () => {
-    const trimmedMessage = message.trim()
-    if (!trimmedMessage || sending || disabled) return
+    const { skinTone } = loadEmojiPreferences(currentUserId)
+    const withoutRemovedPreviews = extractLinks(encoded)
+      .filter((link) => removedPreviews.includes(link.href))
+      .reduce(suppressLinkPreview, encoded)
+    const trimmedMessage = replaceShortcodes(withoutRemovedPreviews, skinTone).trim()
+    if ((!trimmedMessage && uploads.length === 0) || !uploadsReady || sending || disabled) return
 
     try {
       setSending(true)
@@ -85,10 +286,15 @@ export function MessageInput({
       }
 
       // Send message with optional parent_id for threaded replies
-      await onSend(trimmedMessage, replyTo?.id)
+      await onSend(trimmedMessage, replyTo?.id ?? parentId, attachments.length > 0 ? attachments : undefined)
 
-      // Clear input and reply state
+      // Clear input, attachments and reply state
       setMessage("")
+      setMentions([])
+      setPreviewSource("")
+      setRemovedPreviews([])
+      clearUploads()
+      setAttachmentErrors([])
       if (onCancelReply) {
         onCancelReply()
       }
@@ -100,16 +306,56 @@ export function MessageInput({
     }
   }
 
-  // Handle Enter key
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+  // Handle Enter key (Shift+Enter inserts a new line)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Navigate the mention/emoji suggestions while they are open
+    const query = mentionQuery ?? shortcodeQuery
+    if (query && suggestionCount > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setActiveSuggestion((highlighted + step + suggestionCount) % suggestionCount)
+        return
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && !e.shiftKey && !e.nativeEvent.isComposing) {
+        e.preventDefault()
+        if (mentionQuery) {
+          selectMention(suggestions[highlighted])
+        } else {
+          selectEmoji(emojiSuggestions[highlighted])
+        }
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setDismissedSuggestionStart(query.start)
+        return
+      }
+    }
+
+    // Enter while composing (IME) picks a candidate instead of sending
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault()
       handleSend()
     }
   }
 
   return (
-    <div className="p-4 border-t border-gray-200 bg-white">
+    <div
+      className="relative p-4 border-t border-gray-200 bg-white"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => isFileDrag(e) && !disabled && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop zone */}
+      {isDragging && (
+        <div className="absolute inset-2 z-30 flex items-center justify-center gap-2 rounded-lg border-2 border-dashed border-black bg-white/95 text-sm font-medium text-black pointer-events-none select-none">
+          <Upload className="h-4 w-4" />
+          Drop files to attach
+        </div>
+      )}
+
       {/* Reply preview */}
       {replyTo && (
         <div className="mb-2 flex items-start gap-2 p-2 bg-gray-50 rounded-lg border border-gray-200">
@@ -117,7 +363,7 @@ export function MessageInput({
             <p className="text-xs text-gray-500 font-medium mb-0.5">
               Replying to {replyTo.user?.username || 'User'}
             </p>
-            <p className="text-sm text-gray-700 truncate">{replyTo.content}</p>
+            <p className="text-sm text-gray-700 truncate">{stripMentions(replyTo.content) || "Attachment"}</p>
           </div>
           {onCancelReply && (
             <Button
@@ -133,39 +379,187 @@ export function MessageInput({
         </div>
       )}
 
-      <div className="flex items-center gap-2">
-        {/* Emoji button (placeholder for future emoji picker) */}
+      {/* Formatting preview */}
+      {showPreview && formatted && (
+        <div className="mb-2 max-h-48 overflow-y-auto p-2 bg-gray-50 rounded-lg border border-gray-200">
+          <p className="text-xs text-gray-500 font-medium mb-1 select-none">Preview</p>
+          <MessageContent content={encoded} className="text-black" />
+        </div>
+      )}
+
+      {/* Link previews (removing one sends its link without a preview) */}
+      {previewLinks.map((link) => (
+        <LinkPreviewCard
+          key={link.href}
+          url={link.href}
+          onRemove={() => setRemovedPreviews((prev) => [...prev, link.href])}
+          className="mb-2"
+        />
+      ))}
+
+      {/* Attached files */}
+      {uploads.length > 0 && (
+        <AttachmentUploadList uploads={uploads} onRemove={removeUpload} onRetry={retryUpload} />
+      )}
+
+      {/* Files that were not attached */}
+      {attachmentErrors.length > 0 && (
+        <div className="mb-2 flex items-start gap-2 text-xs text-red-600">
+          <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          <div className="flex-1 space-y-0.5">
+            {attachmentErrors.map((error, index) => (
+              <p key={index}>{error}</p>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setAttachmentErrors([])}
+            className="text-gray-500 hover:text-black"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="relative flex items-end gap-2">
+        {/* Mention suggestions */}
+        {mentionQuery && suggestions.length > 0 && (
+          <div className="absolute bottom-full left-12 mb-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+            {suggestions.map((user, index) => (
+              <button
+                key={user.id}
+                type="button"
+                // Keep focus (and the caret) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectMention(user)}
+                onMouseEnter={() => setActiveSuggestion(index)}
+                className={cn(
+                  "w-full px-3 py-1.5 text-sm text-left flex items-center gap-2 text-black",
+                  index === highlighted && "bg-gray-100"
+                )}
+              >
+                <Avatar className="h-6 w-6">
+                  <AvatarFallback className="bg-gray-100 text-black text-[10px] font-medium border border-gray-200 select-none">
+                    {user.username.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate">@{user.username}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Emoji suggestions */}
+        {shortcodeQuery && emojiSuggestions.length > 0 && (
+          <div className="absolute bottom-full left-12 mb-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+            {emojiSuggestions.map((emoji, index) => (
+              <button
+                key={emoji.char}
+                type="button"
+                // Keep focus (and the caret) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectEmoji(emoji)}
+                onMouseEnter={() => setActiveSuggestion(index)}
+                className={cn(
+                  "w-full px-3 py-1.5 text-sm text-left flex items-center gap-2 text-black",
+                  index === highlighted && "bg-gray-100"
+                )}
+              >
+                <span className="text-lg leading-none">{emoji.char}</span>
+                <span className="truncate">:{emoji.shortcodes[0]}:</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Emoji picker */}
+        {showEmojiPicker && (
+          <EmojiPicker
+            userId={currentUserId}
+            onSelect={(emoji) => insertAtCaret(caret, emoji)}
+            onClose={() => setShowEmojiPicker(false)}
+          />
+        )}
+
+        {/* Emoji button */}
         <Button
           variant="ghost"
           size="sm"
           className="h-10 w-10 p-0 hover:bg-gray-100 flex-shrink-0"
+          onClick={() => setShowEmojiPicker(!showEmojiPicker)}
           disabled={disabled}
+          title="Emoji"
           type="button"
         >
           <Smile className="h-4 w-4 text-gray-600" />
         </Button>
 
+        {/* Attach button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-10 w-10 p-0 hover:bg-gray-100 flex-shrink-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Attach files"
+          type="button"
+        >
+          <Paperclip className="h-4 w-4 text-gray-600" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(Array.from(e.target.files ?? []))
+            e.target.value = ""
+          }}
+        />
+
         {/* Message input */}
-        <Input
+        <Textarea
+          ref={textareaRef}
+          rows={1}
           value={message}
-          onChange={(e) => handleTyping(e.target.value)}
-          onKeyPress={handleKeyPress}
+          onChange={handleChange}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           placeholder={placeholder}
-          className="flex-1 bg-gray-50 border-gray-200 focus-visible:ring-1 focus-visible:ring-black text-black placeholder:text-gray-400"
+          className="flex-1 min-h-10 max-h-40 resize-none bg-gray-50 border-gray-200 focus-visible:ring-1 focus-visible:ring-black focus-visible:ring-offset-0 text-black placeholder:text-gray-400"
           disabled={disabled || sending}
         />
 
+        {/* Formatting preview toggle */}
+        {formatted && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 w-10 p-0 hover:bg-gray-100 flex-shrink-0"
+            onClick={() => setShowPreview(!showPreview)}
+            title={showPreview ? "Hide preview" : "Show preview"}
+            type="button"
+          >
+            {showPreview ? (
+              <EyeOff className="h-4 w-4 text-gray-600" />
+            ) : (
+              <Eye className="h-4 w-4 text-gray-600" />
+            )}
+          </Button>
+        )}
+
         {/* Send button */}
         <Button
           onClick={handleSend}
           size="sm"
           className={cn(
             "h-10 w-10 p-0 flex-shrink-0 transition-colors",
-            message.trim()
+            canSend
               ? "bg-black hover:bg-gray-800 text-white"
               : "bg-gray-200 text-gray-400 cursor-not-allowed"
           )}
-          disabled={!message.trim() || sending || disabled}
+          disabled={!canSend || sending || disabled}
           type="button"
         >
           {sending ? (
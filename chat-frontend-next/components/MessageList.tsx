@@ -1,13 +1,18 @@
 "use client"
 
 import type React from "react"
-import { useEffect, useRef } from "react"
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Button } from "@/components/ui/button"
 import { MessageBubble } from "@/components/MessageBubble"
+import { PendingMessageBubble } from "@/components/PendingMessageBubble"
+import { ReadReceipts } from "@/components/ReadReceipts"
+import { useVirtualList } from "@/hooks/useVirtualList"
 import { groupMessagesByDate, isMessageOwner } from "@/lib/api/messages"
-import type { Message } from "@/lib/types"
-import { Loader2 } from "lucide-react"
+import { getReadersByMessage } from "@/lib/readReceipts"
+import { cn } from "@/lib/utils"
+import type { Message, ReadReceipt } from "@/lib/types"
+import type { OutboxEntry } from "@/lib/outbox"
+import { Loader2, ArrowUp, ArrowDown } from "lucide-react"
 
 interface MessageListProps {
   messages: Message[]
@@ -15,24 +20,106 @@ interface MessageListProps {
   loading?: boolean
   hasMore?: boolean
   onLoadMore?: () => void
+  hasNewer?: boolean
+  onLoadNewer?: () => void
+  onLoadLatest?: () => void
   autoScroll?: boolean
   onEdit?: (messageId: number, newContent: string) => Promise<void>
   onDelete?: (messageId: number) => Promise<void>
   onReply?: (message: Message) => void
+  onViewThread?: (message: Message) => void
+  onReact?: (message: Message, emoji: string) => void
+  pinnedIds?: Set<number>
+  onTogglePin?: (message: Message) => void
+  bookmarkedIds?: Set<number>
+  onToggleBookmark?: (message: Message) => void
+  readReceipts?: ReadReceipt[]
+  isDirect?: boolean
+  pendingMessages?: OutboxEntry[]
+  onRetryPending?: (clientId: string) => void
+  onDiscardPending?: (clientId: string) => void
+  focusMessageId?: number | null
+  onFocused?: () => void
+  unreadMessageId?: number | null
+  onReachBottom?: (messageId: number) => void
+  onPinnedChange?: (pinned: boolean) => void
+}
+
+// Start loading older (or newer) messages when scrolled this close to the top (or bottom) (px)
+const LOAD_MORE_THRESHOLD = 200
+
+// Height estimates for rows that have not been rendered yet (px)
+const DATE_ROW_HEIGHT = 52
+const MESSAGE_ROW_HEIGHT = 80
+const GROUPED_MESSAGE_ROW_HEIGHT = 48
+
+// How long a message that was jumped to stays highlighted (ms)
+const FOCUS_HIGHLIGHT_DURATION = 2000
+
+// Flattened list: a date separator before each day's messages
+type MessageListRow =
+  | { type: "date"; key: string; date: string }
+  | { type: "message"; key: string; date: string; message: Message; showAvatar: boolean }
+
+// Check if messages should be grouped (same user, within 5 minutes)
+const shouldGroupWithPrevious = (current: Message, previous: Message | null): boolean => {
+  if (!previous) return false
+  if (current.user_id !== previous.user_id) return false
+
+  // Check if messages are within 5 minutes of each other
+  const currentTime = new Date(current.created_at).getTime()
+  const previousTime = new Date(previous.created_at).getTime()
+  const diff = currentTime - previousTime
+  return diff < 5 * 60 * 1000 // 5 minutes
 }
 
 /**
  * MessageList component displays a scrollable list of messages with date separators
  *
+ * Features:
+ * - Opens scrolled to the newest message, or to the "New messages" divider
+ *   above the first unread one
+ * - Follows new messages only while scrolled to the bottom; otherwise counts
+ *   them in a "N new messages" pill until they are scrolled into view
+ * - Floating control to jump to the first unread or the latest message
+ * - Loads older history automatically when scrolled near the top
+ * - Showing older history (after jumping to an old message), loads newer
+ *   history when scrolled near the bottom; "Jump to latest" reloads the newest
+ * - Keeps the visible messages in place when older ones are prepended
+ * - Only renders the messages near the visible area (variable row heights)
+ * - Date of the topmost visible message stays pinned at the top
+ * - Scrolls to and briefly highlights a given message (search results)
+ * - Read receipts: "Seen" under the last message in direct messages, avatars
+ *   of who has read up to each message in group rooms
+ *
  * @param messages - Array of message objects from the API
  * @param currentUserId - Current user's ID to determine message ownership
  * @param loading - Whether messages are currently loading
  * @param hasMore - Whether there are more messages to load
  * @param onLoadMore - Callback to load more messages (pagination)
- * @param autoScroll - Whether to auto-scroll to bottom on new messages (default: true)
+ * @param hasNewer - Whether newer messages than the loaded ones exist (showing older history)
+ * @param onLoadNewer - Callback to load newer messages
+ * @param onLoadLatest - Callback to load the newest messages in place of older history
+ * @param autoScroll - Whether to follow new messages while scrolled to the bottom (default: true)
  * @param onEdit - Callback when a message is edited
  * @param onDelete - Callback when a message is deleted
  * @param onReply - Callback when user wants to reply to a message
+ * @param onViewThread - Callback to open a message's thread
+ * @param onReact - Callback to toggle the current user's reaction to a message
+ * @param pinnedIds - IDs of the room's pinned messages
+ * @param onTogglePin - Callback to pin or unpin a message (room admins and owners)
+ * @param bookmarkedIds - IDs of the user's saved messages
+ * @param onToggleBookmark - Callback to save or unsave a message
+ * @param readReceipts - How far each member of the room has read
+ * @param isDirect - Whether the room is a direct message (shows "Seen" instead of avatars)
+ * @param pendingMessages - Own messages still in the outbox (sending or failed)
+ * @param onRetryPending - Callback to retry a failed message
+ * @param onDiscardPending - Callback to discard a pending message
+ * @param focusMessageId - Message to scroll to and highlight once it is loaded
+ * @param onFocused - Callback after scrolling to focusMessageId
+ * @param unreadMessageId - First unread message (shows the "New messages" divider above it)
+ * @param onReachBottom - Callback with the newest message's ID once it has been scrolled into view
+ * @param onPinnedChange - Callback when the view starts or stops following new messages
  */
 export function MessageList({
   messages,
@@ -40,75 +127,344 @@ export function MessageList({
   loading = false,
   hasMore = false,
   onLoadMore,
+  hasNewer = false,
+  onLoadNewer,
+  onLoadLatest,
   autoScroll = true,
   onEdit,
   onDelete,
   onReply,
+  onViewThread,
+  onReact,
+  pinnedIds,
+  onTogglePin,
+  bookmarkedIds,
+  onToggleBookmark,
+  readReceipts,
+  isDirect = false,
+  pendingMessages = [],
+  onRetryPending,
+  onDiscardPending,
+  focusMessageId = null,
+  onFocused,
+  unreadMessageId = null,
+  onReachBottom,
+  onPinnedChange,
 }: MessageListProps) {
-  const scrollRef = useRef<HTMLDivElement>(null)
-  const lastMessageIdRef = useRef<number | null>(null)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const [highlightedId, setHighlightedId] = useState<number | null>(null)
+  // Whether the view follows new messages: set at the bottom, cleared once the user scrolls up
+  const pinnedRef = useRef(true)
+  const onPinnedChangeRef = useRef(onPinnedChange)
+  onPinnedChangeRef.current = onPinnedChange
 
-  // Group messages by date for date separators
-  const groupedMessages = groupMessagesByDate(messages)
+  const setPinned = useCallback((pinned: boolean) => {
+    if (pinnedRef.current === pinned) return
+    pinnedRef.current = pinned
+    onPinnedChangeRef.current?.(pinned)
+  }, [])
+  const lastScrollTopRef = useRef(0)
+  // Newest message before the ones that arrived while scrolled up (null when none did)
+  const [newAfterId, setNewAfterId] = useState<number | null>(null)
+  // Scroll to the bottom once the newest messages replace older history
+  const awaitingLatestRef = useRef(false)
+  // What was rendered at the last commit, to tell new rooms from new messages
+  const renderedRef = useRef({
+    firstId: null as number | null,
+    lastId: null as number | null,
+    pendingCount: 0,
+    hasNewer: false,
+  })
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    if (autoScroll && messages.length > 0) {
-      const lastMessage = messages[messages.length - 1]
-      // Only scroll if we have a new message
-      if (lastMessageIdRef.current !== lastMessage.id) {
-        lastMessageIdRef.current = lastMessage.id
-        scrollRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' })
+  // Group messages by date for date separators, then flatten into rows
+  const rows = useMemo(() => {
+    const result: MessageListRow[] = []
+
+    Object.entries(groupMessagesByDate(messages)).forEach(([date, dateMessages]) => {
+      result.push({ type: "date", key: `date-${date}`, date })
+      dateMessages.forEach((message, index) => {
+        const previousMessage = index > 0 ? dateMessages[index - 1] : null
+        result.push({
+          type: "message",
+          key: `message-${message.id}`,
+          date,
+          message,
+          showAvatar: !shouldGroupWithPrevious(message, previousMessage),
+        })
+      })
+    })
+
+    return result
+  }, [messages])
+
+  // Members placed at the latest message they have read (the user left out)
+  const readersByMessage = useMemo(
+    () => getReadersByMessage(messages.map((message) => message.id), readReceipts ?? [], currentUserId),
+    [messages, readReceipts, currentUserId]
+  )
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null
+
+  const getRowKey = useCallback((index: number) => rows[index].key, [rows])
+
+  const estimateRowSize = useCallback((index: number) => {
+    const row = rows[index]
+    if (row.type === "date") return DATE_ROW_HEIGHT
+    return row.showAvatar ? MESSAGE_ROW_HEIGHT : GROUPED_MESSAGE_ROW_HEIGHT
+  }, [rows])
+
+  // Windowed rendering; also keeps the view anchored when older pages are prepended
+  const {
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    firstVisibleIndex,
+    lastVisibleIndex,
+    measureRow,
+    scrollToOffset,
+    scrollToKey,
+    atBottom,
+    isAtBottom,
+  } = useVirtualList({
+    count: rows.length,
+    getKey: getRowKey,
+    estimateSize: estimateRowSize,
+    viewportRef,
+    // Pages of newer history are read from the top, not followed to the bottom
+    followBottom: !hasNewer,
+  })
+
+  // Date of the topmost visible row (hidden while its own separator is at the top)
+  const topRow = rows.length > 0 ? rows[firstVisibleIndex] : null
+  const stickyDate = topRow && topRow.type === "message" ? topRow.date : null
+
+  // Scroll to the bottom for a new room, for new messages while pinned to the
+  // bottom, and for the user's own messages, after every commit.
+  // Scrolls the viewport directly: scrollIntoView also scrolls the page itself.
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const previous = renderedRef.current
+    const lastId = messages.length > 0 ? messages[messages.length - 1].id : null
+    const isLoaded = (id: number | null) => id !== null && messages.some((msg) => msg.id === id)
+
+    const queued = pendingMessages.length > previous.pendingCount
+
+    if (hasNewer) {
+      // Showing older history: a queued message shows up below the newest ones
+      if (queued && onLoadLatest) {
+        awaitingLatestRef.current = true
+        onLoadLatest()
+      }
+    } else if (awaitingLatestRef.current || (lastId !== null && !isLoaded(previous.firstId) && !isLoaded(previous.lastId))) {
+      // First load, another room, or back from older history: open at the newest message
+      awaitingLatestRef.current = false
+      setPinned(true)
+      setNewAfterId(null)
+      scrollToOffset(viewport.scrollHeight)
+    } else if (!previous.hasNewer) {
+      const appended = isLoaded(previous.lastId) && lastId !== previous.lastId
+
+      if (autoScroll && (queued || (appended && pinnedRef.current))) {
+        // The user queued a message, or a new one arrived while following along
+        setPinned(true)
+        scrollToOffset(viewport.scrollHeight, "smooth")
+      } else if (appended) {
+        // Reading further up: count the new messages instead
+        setNewAfterId((current) => current ?? previous.lastId)
       }
     }
-  }, [messages, autoScroll])
-
-  // Check if messages should be grouped (same user, within 5 minutes)
-  const shouldGroupWithPrevious = (current: Message, previous: Message | null): boolean => {
-    if (!previous) return false
-    if (current.user_id !== previous.user_id) return false
-
-    // Check if messages are within 5 minutes of each other
-    const currentTime = new Date(current.created_at).getTime()
-    const previousTime = new Date(previous.created_at).getTime()
-    const diff = currentTime - previousTime
-    return diff < 5 * 60 * 1000 // 5 minutes
+
+    renderedRef.current = {
+      firstId: messages.length > 0 ? messages[0].id : null,
+      lastId,
+      pendingCount: pendingMessages.length,
+      hasNewer,
+    }
+  })
+
+  // Scroll to the "New messages" divider once the first unread message is
+  // known (after the bottom scroll above, which opens the room)
+  const scrolledUnreadRef = useRef<number | null>(null)
+  useLayoutEffect(() => {
+    if (unreadMessageId === null) {
+      scrolledUnreadRef.current = null // Another room (or reopened): scroll again next time
+      return
+    }
+    if (unreadMessageId === scrolledUnreadRef.current) return
+    if (!scrollToKey(`message-${unreadMessageId}`, "start")) return
+
+    scrolledUnreadRef.current = unreadMessageId
+  }, [unreadMessageId, rows, scrollToKey])
+
+  // Scroll to the focused message once it is in the list (after the bottom
+  // scroll above, which would otherwise move it out of view again)
+  useLayoutEffect(() => {
+    if (focusMessageId === null || !scrollToKey(`message-${focusMessageId}`)) return
+
+    setHighlightedId(focusMessageId)
+    onFocused?.()
+  }, [focusMessageId, rows, scrollToKey, onFocused])
+
+  // Report the newest message once the user is at the bottom. Runs after
+  // every commit (scrolling re-renders), so after the scrolls above as well.
+  // The bottom of older history is not the newest message, so it is not reported.
+  const reportedBottomRef = useRef<number | null>(null)
+  useLayoutEffect(() => {
+    const lastId = messages.length > 0 ? messages[messages.length - 1].id : null
+    if (!onReachBottom || hasNewer || lastId === null || lastId === reportedBottomRef.current || !isAtBottom()) return
+
+    reportedBottomRef.current = lastId
+    onReachBottom(lastId)
+  })
+
+  // Jump control: back up to the divider while it is above the view, otherwise down to the latest
+  const dividerIndex = unreadMessageId === null
+    ? -1
+    : rows.findIndex((row) => row.type === "message" && row.message.id === unreadMessageId)
+  const dividerAbove = dividerIndex !== -1 && dividerIndex < firstVisibleIndex
+
+  const jumpToFirstUnread = () => {
+    if (unreadMessageId !== null) scrollToKey(`message-${unreadMessageId}`, "start")
+  }
+
+  const jumpToLatest = () => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    if (hasNewer && onLoadLatest) {
+      awaitingLatestRef.current = true
+      onLoadLatest()
+      return
+    }
+
+    setPinned(true)
+    scrollToOffset(viewport.scrollHeight, "smooth")
+  }
+
+  // Messages that arrived while scrolled up and are still below the view
+  let newestVisibleId = 0
+  for (let i = lastVisibleIndex; i >= 0; i--) {
+    const row = rows[i]
+    if (row.type === "message") {
+      newestVisibleId = row.message.id
+      break
+    }
+  }
+  const newCount = newAfterId === null
+    ? 0
+    : messages.filter((message) => message.id > Math.max(newAfterId, newestVisibleId)).length
+
+  // Reset the count once they have all been scrolled into view
+  useEffect(() => {
+    if (newAfterId !== null && newCount === 0) {
+      setNewAfterId(null)
+    }
+  }, [newAfterId, newCount])
+
+  // Fade the highlight out again
+  useEffect(() => {
+    if (highlightedId === null) return
+
+    const timer = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_DURATION)
+    return () => clearTimeout(timer)
+  }, [highlightedId])
+
+  // Load older messages when scrolled near the top
+  const loadMoreIfNearTop = useCallback(() => {
+    const viewport = viewportRef.current
+    if (!viewport || !hasMore || loading || !onLoadMore) return
+
+    if (viewport.scrollTop < LOAD_MORE_THRESHOLD) {
+      onLoadMore()
+    }
+  }, [hasMore, loading, onLoadMore])
+
+  // Load newer messages when scrolled near the bottom of older history
+  const loadNewerIfNearBottom = useCallback(() => {
+    const viewport = viewportRef.current
+    if (!viewport || !hasNewer || !onLoadNewer) return
+
+    if (viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < LOAD_MORE_THRESHOLD) {
+      onLoadNewer()
+    }
+  }, [hasNewer, onLoadNewer])
+
+  // Also check after each load, in case the messages do not fill the view yet
+  useEffect(() => {
+    loadMoreIfNearTop()
+    loadNewerIfNearBottom()
+  }, [loadMoreIfNearTop, loadNewerIfNearBottom, messages])
+
+  // Follow the user's scrolling: pinned again at the bottom, unpinned when scrolling up
+  const handleScroll = () => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    if (isAtBottom()) {
+      setPinned(true)
+    } else if (viewport.scrollTop < lastScrollTopRef.current - 1) {
+      setPinned(false)
+    }
+    lastScrollTopRef.current = viewport.scrollTop
+
+    loadMoreIfNearTop()
+    loadNewerIfNearBottom()
   }
 
   return (
-    <ScrollArea className="flex-1 bg-gray-50 h-0">
-      <div className="p-4 space-y-4">
-        {/* Load more button */}
-        {hasMore && onLoadMore && (
-          <div className="flex justify-center py-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onLoadMore}
-              disabled={loading}
-              className="bg-white"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Loading...
-                </>
-              ) : (
-                'Load More'
-              )}
-            </Button>
-          </div>
-        )}
+    <ScrollArea
+      className="flex-1 bg-gray-50 h-0"
+      viewportRef={viewportRef}
+      onViewportScroll={handleScroll}
+    >
+      {/* Sticky date of the messages at the top of the view */}
+      {stickyDate && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 bg-white px-3 py-1 rounded-full border border-gray-200 shadow-sm select-none pointer-events-none">
+          <p className="text-xs text-gray-500 font-medium">{stickyDate}</p>
+        </div>
+      )}
+
+      {/* Loading older messages (overlaid, so the list does not shift) */}
+      {loading && messages.length > 0 && (
+        <div className="absolute top-10 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-white px-3 py-1 rounded-full border border-gray-200 shadow-sm select-none">
+          <Loader2 className="h-3 w-3 animate-spin text-gray-400" />
+          <span className="text-xs text-gray-500">Loading older messages...</span>
+        </div>
+      )}
+
+      {/* New messages below the view, or jump to the first unread or the latest message */}
+      {newCount > 0 ? (
+        <button
+          type="button"
+          onClick={jumpToLatest}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1.5 bg-black px-3 py-1.5 rounded-full shadow-md text-xs font-medium text-white hover:bg-gray-800 transition-colors select-none"
+        >
+          <ArrowDown className="h-3.5 w-3.5" />
+          {newCount} new {newCount === 1 ? "message" : "messages"}
+        </button>
+      ) : messages.length > 0 && (dividerAbove || !atBottom || hasNewer) && (
+        <button
+          type="button"
+          onClick={dividerAbove ? jumpToFirstUnread : jumpToLatest}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1.5 bg-white px-3 py-1.5 rounded-full border border-gray-200 shadow-md text-xs font-medium text-gray-700 hover:bg-gray-50 transition-colors select-none"
+        >
+          {dividerAbove ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />}
+          {dividerAbove ? "Jump to first unread" : "Jump to latest"}
+        </button>
+      )}
 
-        {/* Loading indicator at top */}
-        {loading && !hasMore && (
+      {/* useVirtualList anchors the scroll position itself, so turn off the browser's */}
+      <div className="p-4 [overflow-anchor:none]">
+        {/* Loading indicator for the first page */}
+        {loading && messages.length === 0 && (
           <div className="flex justify-center py-4">
             <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
           </div>
         )}
 
         {/* Empty state */}
-        {messages.length === 0 && !loading && (
+        {messages.length === 0 && pendingMessages.length === 0 && !loading && (
           <div className="flex flex-col items-center justify-center py-12 text-center select-none">
             <div className="text-gray-400 mb-2">
               <svg
@@ -130,39 +486,78 @@ export function MessageList({
           </div>
         )}
 
-        {/* Messages grouped by date */}
-        {Object.entries(groupedMessages).map(([date, dateMessages]) => (
-          <div key={date} className="space-y-2">
-            {/* Date separator */}
-            <div className="flex items-center justify-center py-2">
-              <div className="bg-white px-3 py-1 rounded-full border border-gray-200 shadow-sm select-none">
-                <p className="text-xs text-gray-500 font-medium">{date}</p>
-              </div>
+        {/* Rendered rows, between spacers standing in for the rest */}
+        <div style={{ height: paddingTop }} />
+        {virtualRows.map(({ index, key }) => {
+          const row = rows[index]
+
+          return (
+            <div
+              key={key}
+              data-key={key}
+              ref={measureRow}
+              className={cn(
+                "pb-2 rounded-lg transition-colors duration-700",
+                row.type === "message" && row.message.id === highlightedId && "bg-amber-100"
+              )}
+            >
+              {row.type === "date" ? (
+                // Date separator
+                <div className="flex items-center justify-center pt-4 pb-2">
+                  <div className="bg-white px-3 py-1 rounded-full border border-gray-200 shadow-sm select-none">
+                    <p className="text-xs text-gray-500 font-medium">{row.date}</p>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {/* Divider above the first message that was unread when the room was opened */}
+                  {row.message.id === unreadMessageId && (
+                    <div className="flex items-center gap-3 pt-2 pb-3 select-none">
+                      <div className="flex-1 h-px bg-red-300" />
+                      <span className="text-xs font-medium text-red-500">New messages</span>
+                      <div className="flex-1 h-px bg-red-300" />
+                    </div>
+                  )}
+                  <MessageBubble
+                    message={row.message}
+                    isOwn={isMessageOwner(row.message, currentUserId)}
+                    currentUserId={currentUserId}
+                    showAvatar={row.showAvatar}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    onReply={onReply}
+                    onViewThread={onViewThread}
+                    onReact={onReact}
+                    isPinned={pinnedIds?.has(row.message.id)}
+                    onTogglePin={onTogglePin}
+                    isBookmarked={bookmarkedIds?.has(row.message.id)}
+                    onToggleBookmark={onToggleBookmark}
+                  />
+                  {/* Read receipts ("Seen" only under the user's own last message in DMs) */}
+                  {(!isDirect ||
+                    (row.message.id === lastMessageId && isMessageOwner(row.message, currentUserId))) && (
+                    <ReadReceipts readers={readersByMessage.get(row.message.id) ?? []} isDirect={isDirect} />
+                  )}
+                </>
+              )}
             </div>
+          )
+        })}
+        <div style={{ height: paddingBottom }} />
 
-            {/* Messages for this date */}
-            {dateMessages.map((message, index) => {
-              const previousMessage = index > 0 ? dateMessages[index - 1] : null
-              const isOwn = isMessageOwner(message, currentUserId)
-              const showAvatar = !shouldGroupWithPrevious(message, previousMessage)
-
-              return (
-                <MessageBubble
-                  key={message.id}
-                  message={message}
-                  isOwn={isOwn}
-                  showAvatar={showAvatar}
-                  onEdit={onEdit}
-                  onDelete={onDelete}
-                  onReply={onReply}
-                />
-              )
-            })}
+        {/* Messages not yet acknowledged by the server */}
+        {pendingMessages.length > 0 && (
+          <div className="space-y-2 pt-2">
+            {pendingMessages.map((entry) => (
+              <PendingMessageBubble
+                key={entry.client_id}
+                entry={entry}
+                onRetry={onRetryPending}
+                onDiscard={onDiscardPending}
+              />
+            ))}
           </div>
-        ))}
-
-        {/* Scroll anchor */}
-        <div ref={scrollRef} />
+        )}
       </div>
     </ScrollArea>
   )
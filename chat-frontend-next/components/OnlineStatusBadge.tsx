@@ -2,12 +2,13 @@
 
 import React from "react"
 import { cn } from "@/lib/utils"
+import type { PresenceStatus } from "@/lib/websocket"
 
 interface OnlineStatusBadgeProps {
   /**
-   * Whether the user is currently online
+   * The user's presence status
    */
-  isOnline: boolean
+  status: PresenceStatus
   /**
    * Size variant of the badge
    * - sm: 3x3 (12px) - for small avatars in lists
@@ -23,43 +24,73 @@ interface OnlineStatusBadgeProps {
    * Show gray dot when offline (optional)
    */
   showOffline?: boolean
+  /**
+   * Hover text, e.g. "Last seen 5m ago" (defaults to the status)
+   */
+  label?: string
+  /**
+   * Render a small dot in the text flow (e.g. next to a name) instead of over an avatar
+   */
+  inline?: boolean
+}
+
+const statusClasses: Record<PresenceStatus, string> = {
+  online: "bg-green-500",
+  away: "bg-amber-400",
+  busy: "bg-red-500",
+  offline: "bg-gray-400",
+}
+
+const statusLabels: Record<PresenceStatus, string> = {
+  online: "Online",
+  away: "Away",
+  busy: "Busy",
+  offline: "Offline",
 }
 
 /**
- * OnlineStatusBadge component displays a user's online/offline status
+ * OnlineStatusBadge component displays a user's presence status
  *
  * Features:
- * - Green dot indicator when user is online
+ * - Green dot when online, amber when away, red when busy
  * - Optional gray dot when offline
  * - Three size variants (sm, md, lg)
- * - Positioned absolutely for overlay on avatars
+ * - Positioned absolutely for overlay on avatars, or inline next to a name
  * - White border for contrast against avatar backgrounds
  *
  * Usage:
  * ```tsx
  * // Basic usage (small, for DM cards)
- * <OnlineStatusBadge isOnline={user.is_online} size="sm" />
+ * const { status, label } = usePresence(dm.other_user)
+ * <OnlineStatusBadge status={status} label={label} size="sm" />
  *
  * // Large, for profile pages
- * <OnlineStatusBadge isOnline={user.online} size="lg" />
+ * <OnlineStatusBadge status={status} size="lg" />
  *
  * // Show offline status
- * <OnlineStatusBadge isOnline={user.is_online} showOffline />
+ * <OnlineStatusBadge status={status} showOffline />
+ *
+ * // Next to a name in a member list
+ * <OnlineStatusBadge status={status} inline />
  * ```
  *
- * @param isOnline - Whether the user is currently online
+ * @param status - The user's presence status
  * @param size - Size variant (sm, md, lg)
  * @param className - Additional CSS classes
  * @param showOffline - Whether to show a gray dot when offline
+ * @param label - Hover text (defaults to the status)
+ * @param inline - Whether to render inline instead of over an avatar
  */
 export function OnlineStatusBadge({
-  isOnline,
+  status,
   size = "md",
   className,
   showOffline = false,
+  label,
+  inline = false,
 }: OnlineStatusBadgeProps) {
   // Don't render anything if offline and showOffline is false
-  if (!isOnline && !showOffline) {
+  if (status === "offline" && !showOffline) {
     return null
   }
 
@@ -78,14 +109,13 @@ export function OnlineStatusBadge({
   return (
     <div
       className={cn(
-        "absolute rounded-full border-white",
-        sizeClasses[size],
-        positionClasses[size],
-        isOnline ? "bg-green-500" : "bg-gray-400",
+        "rounded-full border-white",
+        inline ? "inline-block h-2 w-2 flex-shrink-0" : ["absolute", sizeClasses[size], positionClasses[size]],
+        statusClasses[status],
         className
       )}
-      aria-label={isOnline ? "Online" : "Offline"}
-      title={isOnline ? "Online" : "Offline"}
+      aria-label={statusLabels[status]}
+      title={label ?? statusLabels[status]}
     />
   )
 }
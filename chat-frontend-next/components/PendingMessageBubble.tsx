@@ -0,0 +1,89 @@
+"use client"
+
+import type React from "react"
+import { Loader2, AlertCircle, RotateCw, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { OutboxEntry } from "@/lib/outbox"
+import { MessageContent } from "@/components/MessageContent"
+import { MessageAttachments } from "@/components/MessageAttachments"
+
+interface PendingMessageBubbleProps {
+  entry: OutboxEntry
+  onRetry?: (clientId: string) => void
+  onDiscard?: (clientId: string) => void
+}
+
+/**
+ * PendingMessageBubble component displays an own message that is still in the outbox
+ *
+ * Features:
+ * - "Sending..." state while the request is in flight
+ * - "Failed to send" state with the error message
+ * - Retry and discard buttons for failed messages
+ *
+ * @param entry - Outbox entry to display
+ * @param onRetry - Callback to retry a failed message
+ * @param onDiscard - Callback to discard the message
+ */
+export function PendingMessageBubble({ entry, onRetry, onDiscard }: PendingMessageBubbleProps) {
+  const failed = entry.status === "failed"
+
+  return (
+    <div className="flex gap-3 justify-end">
+      <div className="max-w-xs lg:max-w-md space-y-1 items-end">
+        <div
+          className={cn(
+            "px-4 py-2 rounded-2xl transition-all duration-200",
+            failed
+              ? "bg-white text-black border border-red-300"
+              : "bg-black text-white opacity-60"
+          )}
+        >
+          {entry.content && <MessageContent content={entry.content} isOwn={!failed} />}
+          {!!entry.attachments?.length && (
+            <div className={cn(entry.content && "mt-2")}>
+              <MessageAttachments attachments={entry.attachments} isOwn={!failed} />
+            </div>
+          )}
+        </div>
+
+        {/* Delivery status */}
+        <div className="flex items-center justify-end gap-2 px-1 select-none">
+          {failed ? (
+            <>
+              <span className="flex items-center gap-1 text-xs text-red-600" title={entry.error}>
+                <AlertCircle className="h-3 w-3" />
+                Failed to send
+              </span>
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(entry.client_id)}
+                  className="flex items-center gap-1 text-xs text-gray-700 hover:text-black"
+                >
+                  <RotateCw className="h-3 w-3" />
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  type="button"
+                  onClick={() => onDiscard(entry.client_id)}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600"
+                >
+                  <X className="h-3 w-3" />
+                  Discard
+                </button>
+              )}
+            </>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-gray-400">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Sending...
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import type React from "react"
+import { Pin } from "lucide-react"
+import { stripMentions } from "@/lib/mentions"
+import type { Message, PinnedMessage } from "@/lib/types"
+
+interface PinnedMessageBannerProps {
+  pins: PinnedMessage[]
+  onJump: (message: Message) => void
+  onShowAll: () => void
+}
+
+/**
+ * PinnedMessageBanner component shows the room's latest pin under the chat header
+ *
+ * Features:
+ * - Most recently pinned message, with its author
+ * - Click the message to jump to it
+ * - Pin count that opens the Pinned panel
+ *
+ * @param pins - Pins of the room, most recently pinned first
+ * @param onJump - Callback to jump to a pinned message
+ * @param onShowAll - Callback to open the Pinned panel
+ */
+export function PinnedMessageBanner({ pins, onJump, onShowAll }: PinnedMessageBannerProps) {
+  const latest = pins[0]
+  if (!latest) return null
+
+  const { message } = latest
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 bg-white flex items-center gap-3 flex-shrink-0">
+      <Pin className="h-4 w-4 text-gray-500 flex-shrink-0" />
+      <button
+        type="button"
+        onClick={() => onJump(message)}
+        className="flex-1 min-w-0 text-left"
+        title="Jump to message"
+      >
+        <p className="text-xs font-medium text-black select-none">
+          Pinned · {message.user?.username}
+        </p>
+        <p className="text-sm text-gray-600 truncate">
+          {stripMentions(message.content) || "Attachment"}
+        </p>
+      </button>
+      <button
+        type="button"
+        onClick={onShowAll}
+        className="text-xs font-medium text-gray-600 hover:text-black whitespace-nowrap select-none"
+      >
+        {pins.length === 1 ? "View pin" : `All ${pins.length} pins`}
+      </button>
+    </div>
+  )
+}
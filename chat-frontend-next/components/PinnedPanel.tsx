@@ -0,0 +1,119 @@
+"use client"
+
+import type React from "react"
+import { X, Loader2, AlertCircle, Pin, PinOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { formatMessageTime } from "@/lib/api/messages"
+import { buildSnippet } from "@/lib/search"
+import type { Message, PinnedMessage } from "@/lib/types"
+
+interface PinnedPanelProps {
+  pins: PinnedMessage[]
+  loading?: boolean
+  error?: string | null
+  onClose: () => void
+  onJump: (message: Message) => void
+  onUnpin?: (message: Message) => void
+}
+
+/**
+ * PinnedPanel component lists a room's pinned messages, next to the chat
+ *
+ * Features:
+ * - Every pin, most recently pinned first, with author, time and who pinned it
+ * - Click a pin to jump to the message
+ * - Unpin button for room admins and owners
+ * - Updates live as pins change over WebSocket
+ *
+ * @param pins - Pins of the room
+ * @param loading - Whether the pins are loading
+ * @param error - Load error
+ * @param onClose - Callback to close the panel
+ * @param onJump - Callback to jump to a pinned message
+ * @param onUnpin - Callback to unpin a message (omit when the user may not)
+ */
+export function PinnedPanel({ pins, loading = false, error = null, onClose, onJump, onUnpin }: PinnedPanelProps) {
+  return (
+    <div className="w-96 border-l border-gray-200 bg-white flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0 select-none">
+        <div>
+          <h2 className="font-semibold text-black">Pinned</h2>
+          <p className="text-xs text-gray-500">
+            {pins.length} pinned {pins.length === 1 ? "message" : "messages"}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-8 w-8 p-0 hover:bg-gray-100"
+          title="Close pinned messages"
+        >
+          <X className="h-4 w-4 text-gray-600" />
+        </Button>
+      </div>
+
+      {/* Pins */}
+      <ScrollArea className="flex-1 bg-gray-50 h-0">
+        <div className="p-4 space-y-2">
+          {error && pins.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <AlertCircle className="h-8 w-8 text-red-500 mb-2" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : pins.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center select-none">
+              <Pin className="h-8 w-8 text-gray-300 mb-2" />
+              <p className="text-sm text-gray-500">No pinned messages</p>
+              <p className="text-xs text-gray-400 mt-1">Room admins can pin important messages here</p>
+            </div>
+          ) : (
+            pins.map(({ message, pinned_by, pinned_at }) => (
+              <div
+                key={message.id}
+                className="group relative bg-white border border-gray-200 rounded-lg hover:border-gray-400 transition-colors"
+              >
+                <button
+                  type="button"
+                  onClick={() => onJump(message)}
+                  className="w-full text-left p-3"
+                  title="Jump to message"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-1 pr-6 select-none">
+                    <span className="font-medium text-black truncate">{message.user?.username}</span>
+                    <span className="ml-auto flex-shrink-0">{formatMessageTime(message.created_at)}</span>
+                  </div>
+                  <p className="text-sm text-gray-800 break-words line-clamp-4">
+                    {buildSnippet(message.content, [], 300) || (
+                      <span className="italic text-gray-500">Attachment</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-2 select-none">
+                    Pinned by {pinned_by.username} · {formatMessageTime(pinned_at)}
+                  </p>
+                </button>
+
+                {onUnpin && (
+                  <button
+                    type="button"
+                    onClick={() => onUnpin(message)}
+                    className="absolute top-2 right-2 h-6 w-6 flex items-center justify-center rounded opacity-0 group-hover:opacity-100 hover:bg-gray-100 transition-opacity"
+                    title="Unpin"
+                  >
+                    <PinOff className="h-3.5 w-3.5 text-gray-500" />
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
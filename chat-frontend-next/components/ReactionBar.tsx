@@ -0,0 +1,116 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { SmilePlus } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { EmojiPicker } from "@/components/EmojiPicker"
+import type { ReactionSummary } from "@/lib/types"
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[]
+  currentUserId?: number
+  isOwn?: boolean
+  onToggle?: (emoji: string) => void
+}
+
+const MAX_LISTED_USERS = 10
+
+/**
+ * ReactionBar component displays the reactions under a message
+ *
+ * Features:
+ * - One chip per emoji with its count; own reactions are highlighted
+ * - Clicking a chip toggles the current user's reaction
+ * - Hovering a chip lists who reacted
+ * - Button to add another reaction from the emoji picker
+ *
+ * @param reactions - Reaction summary of the message
+ * @param currentUserId - Current user's ID (highlights own reactions)
+ * @param isOwn - Whether the message is the current user's (aligns the bar right)
+ * @param onToggle - Callback to add/remove the current user's reaction
+ */
+export function ReactionBar({ reactions, currentUserId, isOwn = false, onToggle }: ReactionBarProps) {
+  const [showPicker, setShowPicker] = useState(false)
+
+  const hasReacted = (emoji: string) =>
+    reactions.some((reaction) => reaction.emoji === emoji && reaction.users.some((user) => user.id === currentUserId))
+
+  // Picking an emoji only ever adds a reaction (chips are for removing)
+  const handlePick = (emoji: string) => {
+    if (!hasReacted(emoji)) {
+      onToggle?.(emoji)
+    }
+  }
+
+  // Who reacted, e.g. "alice, bob and 3 others"
+  const describeUsers = (reaction: ReactionSummary) => {
+    const names = reaction.users
+      .slice(0, MAX_LISTED_USERS)
+      .map((user) => (user.id === currentUserId ? "You" : user.username))
+    const others = reaction.count - names.length
+
+    if (others > 0) return `${names.join(", ")} and ${others} ${others === 1 ? "other" : "others"}`
+    if (names.length <= 1) return names.join("")
+    return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+  }
+
+  return (
+    <div className={cn("relative flex flex-wrap items-center gap-1", isOwn && "justify-end")}>
+      {reactions.map((reaction) => {
+        const reacted = hasReacted(reaction.emoji)
+
+        return (
+          <div key={reaction.emoji} className="relative group/reaction">
+            <button
+              type="button"
+              onClick={() => onToggle?.(reaction.emoji)}
+              disabled={!onToggle}
+              className={cn(
+                "h-6 px-2 flex items-center gap-1 rounded-full border text-xs transition-colors select-none",
+                reacted
+                  ? "bg-gray-100 border-black text-black"
+                  : "bg-white border-gray-200 text-gray-700 hover:border-gray-400"
+              )}
+            >
+              <span className="text-sm leading-none">{reaction.emoji}</span>
+              <span className="font-medium">{reaction.count}</span>
+            </button>
+
+            {/* Who reacted */}
+            <div
+              className={cn(
+                "hidden group-hover/reaction:block absolute bottom-full mb-1 z-20 w-max max-w-56",
+                "px-2 py-1 rounded-md bg-gray-900 text-white text-xs shadow-lg pointer-events-none",
+                isOwn ? "right-0" : "left-0"
+              )}
+            >
+              {describeUsers(reaction)} reacted with {reaction.emoji}
+            </div>
+          </div>
+        )
+      })}
+
+      {/* Add another reaction */}
+      {onToggle && (
+        <button
+          type="button"
+          onClick={() => setShowPicker(!showPicker)}
+          className="h-6 w-6 flex items-center justify-center rounded-full border border-gray-200 bg-white hover:border-gray-400"
+          title="Add reaction"
+        >
+          <SmilePlus className="h-3.5 w-3.5 text-gray-500" />
+        </button>
+      )}
+
+      {showPicker && onToggle && (
+        <EmojiPicker
+          userId={currentUserId ?? null}
+          onSelect={handlePick}
+          onClose={() => setShowPicker(false)}
+          className={isOwn ? "left-auto right-0" : undefined}
+        />
+      )}
+    </div>
+  )
+}
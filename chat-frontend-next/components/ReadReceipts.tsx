@@ -0,0 +1,64 @@
+"use client"
+
+import type React from "react"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { formatMessageTime } from "@/lib/api/messages"
+import type { ReadReceipt } from "@/lib/types"
+
+interface ReadReceiptsProps {
+  readers: ReadReceipt[]
+  isDirect?: boolean
+}
+
+// Avatars shown before the rest are summed up as "+N"
+const MAX_AVATARS = 5
+
+/**
+ * ReadReceipts component shows who has read up to a message, under it
+ *
+ * Features:
+ * - "Seen" in direct messages
+ * - Stack of small avatars in group rooms, with "+N" for the rest
+ * - Names and read times on hover
+ *
+ * @param readers - Receipts of the members whose latest read message this is
+ * @param isDirect - Whether the room is a direct message
+ */
+export function ReadReceipts({ readers, isDirect = false }: ReadReceiptsProps) {
+  if (readers.length === 0) return null
+
+  const getName = (receipt: ReadReceipt) => receipt.user.username || "Someone"
+
+  if (isDirect) {
+    const latest = readers[readers.length - 1]
+    return (
+      <p
+        className="text-xs text-gray-500 text-right px-1 mt-1 select-none"
+        title={`Seen ${formatMessageTime(latest.read_at)}`}
+      >
+        Seen
+      </p>
+    )
+  }
+
+  const shown = readers.slice(0, MAX_AVATARS)
+  const hidden = readers.length - shown.length
+
+  return (
+    <div
+      className="flex justify-end items-center mt-1 pr-1 select-none"
+      title={`Read by ${readers.map(getName).join(", ")}`}
+    >
+      <div className="flex -space-x-1">
+        {shown.map((receipt) => (
+          <Avatar key={receipt.user.id} className="h-4 w-4 border border-white">
+            <AvatarFallback className="bg-gray-200 text-black text-[8px] font-medium">
+              {getName(receipt).slice(0, 1).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      {hidden > 0 && <span className="text-[10px] text-gray-500 ml-1">+{hidden}</span>}
+    </div>
+  )
+}
@@ -18,6 +18,8 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { getRoomParticipants, inviteUserToRoom, removeUserFromRoom, updateRoomMemberRole } from "@/lib/api/rooms"
 import { getUsers } from "@/lib/api/users"
 import { TransferOwnershipDialog } from "@/components/TransferOwnershipDialog"
+import { OnlineStatusBadge } from "@/components/OnlineStatusBadge"
+import { usePresence } from "@/hooks/usePresence"
 import type { Room, ParticipantResponse } from "@/lib/api/rooms"
 import type { User } from "@/lib/types"
 
@@ -28,6 +30,14 @@ interface RoomMembersManagerProps {
   onOpenChange: (open: boolean) => void
 }
 
+/**
+ * Presence dot next to a member's name (nothing while offline)
+ */
+function MemberPresence({ participant }: { participant: ParticipantResponse }) {
+  const { status, label } = usePresence(participant)
+  return <OnlineStatusBadge status={status} label={label} inline />
+}
+
 /**
  * RoomMembersManager component allows admins to manage room members
  *
@@ -36,7 +46,7 @@ interface RoomMembersManagerProps {
  * - Search and invite new users to the room
  * - Remove users from the room (with confirmation)
  * - Display user roles (owner, admin, member)
- * - Real-time online status indicators
+ * - Live presence indicators (online, away, busy)
  * - Loading and error states
  * - Admin-only functionality
  *
@@ -258,9 +268,7 @@ export function RoomMembersManager({ room, currentUserId, open, onOpenChange }:
                               {participant.id === currentUserId && (
                                 <span className="text-xs text-gray-500">(You)</span>
                               )}
-                              {participant.is_online && (
-                                <span className="h-2 w-2 rounded-full bg-green-500" />
-                              )}
+                              <MemberPresence participant={participant} />
                             </div>
                             <div className="flex items-center gap-2 mt-0.5">
                               <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getRoleBadgeColor(participant.role)}`}>
@@ -0,0 +1,254 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { X, Loader2, AlertCircle, Bookmark as BookmarkIcon, StickyNote, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Textarea } from "@/components/ui/textarea"
+import { formatMessageTime } from "@/lib/api/messages"
+import { MAX_NOTE_LENGTH } from "@/lib/bookmarks"
+import { buildSnippet } from "@/lib/search"
+import type { Bookmark, Message } from "@/lib/types"
+
+interface SavedPanelProps {
+  bookmarks: Bookmark[]
+  rooms: { id: number; name: string }[]
+  loading?: boolean
+  error?: string | null
+  isLocal?: boolean
+  onClose: () => void
+  onRetry?: () => void
+  onJump: (message: Message) => void
+  onRemove: (message: Message) => Promise<void>
+  onSaveNote: (message: Message, note: string) => Promise<void>
+}
+
+interface SavedMessageCardProps {
+  bookmark: Bookmark
+  roomName: string
+  onJump: (message: Message) => void
+  onRemove: (message: Message) => Promise<void>
+  onSaveNote: (message: Message, note: string) => Promise<void>
+}
+
+/**
+ * A saved message with its note (editable in place)
+ */
+function SavedMessageCard({ bookmark, roomName, onJump, onRemove, onSaveNote }: SavedMessageCardProps) {
+  const { message, note } = bookmark
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(note ?? "")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const startEditing = () => {
+    setDraft(note ?? "")
+    setError(null)
+    setEditing(true)
+  }
+
+  const handleSaveNote = async () => {
+    if (draft.trim() === (note ?? "")) {
+      setEditing(false)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSaveNote(message, draft)
+      setEditing(false)
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || "Failed to save note")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    try {
+      setError(null)
+      await onRemove(message)
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || "Failed to remove saved message")
+    }
+  }
+
+  return (
+    <div className="group relative bg-white border border-gray-200 rounded-lg hover:border-gray-400 transition-colors">
+      <button
+        type="button"
+        onClick={() => onJump(message)}
+        className="w-full text-left p-3 pb-2"
+        title="Jump to message"
+      >
+        <div className="flex items-center gap-2 text-xs text-gray-500 mb-1 pr-12 select-none">
+          <span className="font-medium text-black truncate">{roomName}</span>
+          <span className="ml-auto flex-shrink-0">{formatMessageTime(message.created_at)}</span>
+        </div>
+        <p className="text-xs text-gray-500 mb-0.5 select-none">{message.user?.username}</p>
+        <p className="text-sm text-gray-800 break-words line-clamp-3">
+          {buildSnippet(message.content, [], 240) || <span className="italic text-gray-500">Attachment</span>}
+        </p>
+      </button>
+
+      {/* Note */}
+      <div className="px-3 pb-3">
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value.slice(0, MAX_NOTE_LENGTH))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault()
+                  handleSaveNote()
+                }
+                if (e.key === "Escape") setEditing(false)
+              }}
+              placeholder="Add a note..."
+              className="min-h-[60px] text-sm bg-gray-50 border-gray-200 focus-visible:ring-1 focus-visible:ring-black"
+              autoFocus
+              disabled={saving}
+            />
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveNote} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : note ? (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="w-full text-left flex items-start gap-1.5 rounded-md bg-amber-50 border border-amber-200 px-2 py-1.5 text-xs text-gray-700 hover:border-amber-300"
+            title="Edit note"
+          >
+            <StickyNote className="h-3.5 w-3.5 mt-px flex-shrink-0 text-amber-600" />
+            <span className="break-words whitespace-pre-wrap">{note}</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-black select-none"
+          >
+            <StickyNote className="h-3.5 w-3.5" />
+            Add note
+          </button>
+        )}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleRemove}
+        className="absolute top-2 right-2 h-6 w-6 flex items-center justify-center rounded opacity-0 group-hover:opacity-100 hover:bg-red-50 transition-opacity"
+        title="Remove from saved"
+      >
+        <Trash2 className="h-3.5 w-3.5 text-red-600" />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * SavedPanel component lists the user's saved messages across all rooms, next to the chat
+ *
+ * Features:
+ * - Room name, author, time and a preview of each saved message
+ * - Click an entry to jump to the message in its room
+ * - Optional personal note per entry, edited in place
+ * - Remove from saved
+ * - Notice when bookmarks are only kept in this browser
+ *
+ * @param bookmarks - Saved messages, most recently saved first
+ * @param rooms - Rooms and DMs (with display names) to name each entry's room
+ * @param loading - Whether the bookmarks are loading
+ * @param error - Load error
+ * @param isLocal - Whether bookmarks are kept in this browser only (no backend support yet)
+ * @param onClose - Callback to close the panel
+ * @param onRetry - Callback to load the bookmarks again after an error
+ * @param onJump - Callback to jump to a saved message
+ * @param onRemove - Callback to remove a saved message
+ * @param onSaveNote - Callback to save an entry's note
+ */
+export function SavedPanel({
+  bookmarks,
+  rooms,
+  loading = false,
+  error = null,
+  isLocal = false,
+  onClose,
+  onRetry,
+  onJump,
+  onRemove,
+  onSaveNote,
+}: SavedPanelProps) {
+  const roomNames = new Map(rooms.map((room) => [room.id, room.name]))
+
+  return (
+    <div className="w-96 border-l border-gray-200 bg-white flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0 select-none">
+        <div>
+          <h2 className="font-semibold text-black">Saved messages</h2>
+          <p className="text-xs text-gray-500">
+            {isLocal ? "Saved in this browser only" : `${bookmarks.length} saved`}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-8 w-8 p-0 hover:bg-gray-100"
+          title="Close saved messages"
+        >
+          <X className="h-4 w-4 text-gray-600" />
+        </Button>
+      </div>
+
+      {/* Saved messages */}
+      <ScrollArea className="flex-1 bg-gray-50 h-0">
+        <div className="p-4 space-y-2">
+          {error && !bookmarks.length ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <AlertCircle className="h-8 w-8 text-red-500 mb-2" />
+              <p className="text-sm text-red-600">{error}</p>
+              {onRetry && (
+                <Button variant="outline" size="sm" onClick={onRetry} className="mt-2">
+                  Retry
+                </Button>
+              )}
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : bookmarks.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center select-none">
+              <BookmarkIcon className="h-8 w-8 text-gray-300 mb-2" />
+              <p className="text-sm text-gray-500">No saved messages</p>
+              <p className="text-xs text-gray-400 mt-1">Save messages from their actions menu to find them here</p>
+            </div>
+          ) : (
+            bookmarks.map((bookmark) => (
+              <SavedMessageCard
+                key={bookmark.message.id}
+                bookmark={bookmark}
+                roomName={roomNames.get(bookmark.message.room_id) ?? "Unknown room"}
+                onJump={onJump}
+                onRemove={onRemove}
+                onSaveNote={onSaveNote}
+              />
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { X, Search, Loader2, AlertCircle, Link2, Paperclip } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useMessageSearch } from "@/hooks/useMessageSearch"
+import { getUsers } from "@/lib/api/users"
+import { formatMessageTime } from "@/lib/api/messages"
+import { buildSnippet, getSearchTerms, highlightMatches } from "@/lib/search"
+import { cn } from "@/lib/utils"
+import type { Message, User } from "@/lib/types"
+
+interface SearchPanelProps {
+  rooms: { id: number; name: string }[]
+  onClose: () => void
+  onJump: (message: Message) => void
+}
+
+const selectClassName =
+  "h-8 w-full min-w-0 rounded-md border border-gray-200 bg-gray-50 px-2 text-xs text-black outline-none focus-visible:ring-1 focus-visible:ring-black"
+
+/**
+ * SearchPanel component searches messages across all of the user's rooms, next to the chat
+ *
+ * Features:
+ * - Full-text query, searched as you type
+ * - Filters: room, author, date range, has:link, has:attachment
+ * - Results with room, author, time and the matching words highlighted
+ * - "Load more" pagination
+ * - Clicking a result jumps to the message in its room
+ *
+ * @param rooms - Rooms and DMs to offer in the room filter (with display names)
+ * @param onClose - Callback to close the panel
+ * @param onJump - Callback when a result is clicked
+ */
+export function SearchPanel({ rooms, onClose, onJump }: SearchPanelProps) {
+  const [query, setQuery] = useState("")
+  const [roomId, setRoomId] = useState<number | null>(null)
+  const [userId, setUserId] = useState<number | null>(null)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [hasLink, setHasLink] = useState(false)
+  const [hasAttachment, setHasAttachment] = useState(false)
+  const [users, setUsers] = useState<User[]>([])
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const { results, total, loading, error, hasMore, active, loadMore } = useMessageSearch({
+    query,
+    roomId,
+    userId,
+    from,
+    to,
+    hasLink,
+    hasAttachment,
+  })
+
+  const terms = useMemo(() => getSearchTerms(query), [query])
+  const roomNames = useMemo(() => new Map(rooms.map((room) => [room.id, room.name])), [rooms])
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  // Authors for the filter
+  useEffect(() => {
+    let cancelled = false
+
+    getUsers()
+      .then((data) => {
+        if (!cancelled) setUsers(data)
+      })
+      .catch((err) => {
+        console.error('Failed to load users:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const hasFilters = roomId !== null || userId !== null || from || to || hasLink || hasAttachment
+
+  const clearFilters = () => {
+    setRoomId(null)
+    setUserId(null)
+    setFrom("")
+    setTo("")
+    setHasLink(false)
+    setHasAttachment(false)
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-200 bg-white flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex-shrink-0 space-y-3">
+        <div className="flex items-center justify-between select-none">
+          <h2 className="font-semibold text-black">Search messages</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0 hover:bg-gray-100"
+            title="Close search"
+          >
+            <X className="h-4 w-4 text-gray-600" />
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            ref={inputRef}
+            placeholder="Search..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") onClose()
+            }}
+            className="pl-10 bg-gray-50 border-gray-200 focus-visible:ring-1 focus-visible:ring-black text-black placeholder:text-gray-400"
+          />
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={roomId ?? ""}
+            onChange={(e) => setRoomId(e.target.value ? Number(e.target.value) : null)}
+            className={selectClassName}
+            title="Room"
+          >
+            <option value="">All rooms</option>
+            {rooms.map((room) => (
+              <option key={room.id} value={room.id}>
+                {room.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={userId ?? ""}
+            onChange={(e) => setUserId(e.target.value ? Number(e.target.value) : null)}
+            className={selectClassName}
+            title="Author"
+          >
+            <option value="">Anyone</option>
+            {users.map((author) => (
+              <option key={author.id} value={author.id}>
+                {author.username}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className={selectClassName}
+            title="From"
+          />
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className={selectClassName}
+            title="To"
+          />
+        </div>
+
+        <div className="flex items-center gap-2 select-none">
+          {[
+            { label: "has:link", icon: Link2, active: hasLink, toggle: () => setHasLink(!hasLink) },
+            { label: "has:attachment", icon: Paperclip, active: hasAttachment, toggle: () => setHasAttachment(!hasAttachment) },
+          ].map(({ label, icon: Icon, active: isActive, toggle }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={toggle}
+              className={cn(
+                "flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs transition-colors",
+                isActive ? "border-black bg-black text-white" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              )}
+            >
+              <Icon className="h-3 w-3" />
+              {label}
+            </button>
+          ))}
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="ml-auto text-xs text-gray-500 hover:text-black"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <ScrollArea className="flex-1 bg-gray-50 h-0">
+        <div className="p-4 space-y-2">
+          {!active ? (
+            <p className="text-sm text-gray-400 text-center py-8 select-none">
+              Type to search, or pick an author or has: filter
+            </p>
+          ) : error && results.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <AlertCircle className="h-8 w-8 text-red-500 mb-2" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          ) : loading && results.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8 select-none">No messages found</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 select-none">
+                {total} {total === 1 ? "result" : "results"}
+              </p>
+
+              {results.map((message) => (
+                <button
+                  key={message.id}
+                  type="button"
+                  onClick={() => onJump(message)}
+                  className="w-full text-left bg-white border border-gray-200 rounded-lg p-3 hover:border-gray-400 transition-colors"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-1 select-none">
+                    <span className="font-medium text-black truncate">{message.user?.username}</span>
+                    <span className="truncate">in {roomNames.get(message.room_id) ?? "Unknown room"}</span>
+                    <span className="ml-auto flex-shrink-0">{formatMessageTime(message.created_at)}</span>
+                  </div>
+                  <p className="text-sm text-gray-800 break-words">
+                    {message.content.trim() ? (
+                      highlightMatches(buildSnippet(message.content, terms), terms).map((part, index) =>
+                        part.match ? (
+                          <mark key={index} className="bg-amber-200 text-black rounded-sm">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )
+                    ) : (
+                      <span className="italic text-gray-500">Attachment</span>
+                    )}
+                  </p>
+                </button>
+              ))}
+
+              {error && <p className="text-xs text-red-600 text-center">{error}</p>}
+
+              {hasMore && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={loadMore}
+                  disabled={loading}
+                  className="w-full"
+                >
+                  {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load more"}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
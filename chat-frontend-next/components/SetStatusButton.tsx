@@ -0,0 +1,259 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Smile, EyeOff } from "lucide-react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogBody,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { MAX_STATUS_TEXT_LENGTH } from "@/lib/presence"
+import type { CustomStatus, OwnStatusMode } from "@/lib/presence"
+import type { PresenceStatus } from "@/lib/websocket"
+import { cn } from "@/lib/utils"
+import { OnlineStatusBadge } from "./OnlineStatusBadge"
+
+interface SetStatusButtonProps {
+  status: PresenceStatus
+  mode: OwnStatusMode
+  customStatus: CustomStatus | null
+  hidden?: boolean
+  onModeChange: (mode: OwnStatusMode) => void
+  onSetCustomStatus: (text: string, expiresAt: string | null) => void
+  onClearCustomStatus: () => void
+}
+
+type ClearAfter = "never" | "30m" | "1h" | "4h" | "today"
+
+const MODE_OPTIONS: { mode: OwnStatusMode; label: string; description: string; dot: string }[] = [
+  { mode: "auto", label: "Automatic", description: "Online, or away while you're inactive", dot: "bg-green-500" },
+  { mode: "away", label: "Away", description: "Show as away until you change it", dot: "bg-amber-400" },
+  { mode: "busy", label: "Busy", description: "Let others know you're not available", dot: "bg-red-500" },
+]
+
+const CLEAR_AFTER_OPTIONS: { value: ClearAfter; label: string }[] = [
+  { value: "never", label: "Don't clear" },
+  { value: "30m", label: "30 minutes" },
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "today", label: "Today" },
+]
+
+/**
+ * When a custom status set now should clear itself
+ */
+function getExpiresAt(clearAfter: ClearAfter): string | null {
+  const now = new Date()
+
+  switch (clearAfter) {
+    case "30m":
+      return new Date(now.getTime() + 30 * 60 * 1000).toISOString()
+    case "1h":
+      return new Date(now.getTime() + 60 * 60 * 1000).toISOString()
+    case "4h":
+      return new Date(now.getTime() + 4 * 60 * 60 * 1000).toISOString()
+    case "today":
+      now.setHours(23, 59, 59, 999)
+      return now.toISOString()
+    default:
+      return null
+  }
+}
+
+/**
+ * SetStatusButton component shows the user's own presence and opens a dialog to change it
+ *
+ * Features:
+ * - Presence dot on the button (online, away, busy or offline)
+ * - Pick automatic, away or busy
+ * - Custom status text that clears itself after a chosen time
+ * - Notice when the Online Status setting hides the user's presence
+ *
+ * @param status - Status other users currently see
+ * @param mode - Status the user picked
+ * @param customStatus - Current custom status (null for none)
+ * @param hidden - Whether the user hides their presence
+ * @param onModeChange - Callback to pick a status
+ * @param onSetCustomStatus - Callback to set the custom status
+ * @param onClearCustomStatus - Callback to clear the custom status
+ */
+export function SetStatusButton({
+  status,
+  mode,
+  customStatus,
+  hidden = false,
+  onModeChange,
+  onSetCustomStatus,
+  onClearCustomStatus,
+}: SetStatusButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [draftMode, setDraftMode] = useState<OwnStatusMode>(mode)
+  const [draftText, setDraftText] = useState("")
+  // null keeps the current custom status's expiry
+  const [clearAfter, setClearAfter] = useState<ClearAfter | null>(null)
+
+  const handleOpen = () => {
+    setDraftMode(mode)
+    setDraftText(customStatus?.text ?? "")
+    setClearAfter(customStatus ? null : "never")
+    setOpen(true)
+  }
+
+  const handleSave = () => {
+    onModeChange(draftMode)
+
+    const text = draftText.trim()
+    if (!text) {
+      onClearCustomStatus()
+    } else if (text !== customStatus?.text || clearAfter !== null) {
+      onSetCustomStatus(text, clearAfter === null ? customStatus?.expires_at ?? null : getExpiresAt(clearAfter))
+    }
+
+    setOpen(false)
+  }
+
+  const handleClear = () => {
+    onClearCustomStatus()
+    setDraftText("")
+  }
+
+  const formatExpiry = (expiresAt: string) =>
+    new Date(expiresAt).toLocaleString("en-US", { weekday: "short", hour: "numeric", minute: "2-digit" })
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleOpen}
+        className="h-8 w-8 p-0 hover:bg-gray-100"
+        title={customStatus ? `Set status (${customStatus.text})` : "Set status"}
+      >
+        <span className="relative">
+          <Smile className="h-4 w-4 text-gray-600" />
+          <OnlineStatusBadge status={status} size="sm" className="h-2.5 w-2.5" showOffline />
+        </span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent onClose={() => setOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>Set Status</DialogTitle>
+            <DialogDescription>
+              Choose how you appear to others
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogBody>
+            <div className="space-y-4">
+              {hidden && (
+                <div className="flex items-start gap-2 text-sm text-gray-600 bg-gray-50 px-3 py-2 rounded-lg">
+                  <EyeOff className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <p>
+                    Your online status is hidden, so others see you as offline.{" "}
+                    <Link href="/chat/settings" className="underline hover:text-black">
+                      Change in settings
+                    </Link>
+                  </p>
+                </div>
+              )}
+
+              {/* Status */}
+              <div className="space-y-1">
+                {MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.mode}
+                    type="button"
+                    onClick={() => setDraftMode(option.mode)}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-3 py-2 rounded-lg border text-left transition-colors",
+                      draftMode === option.mode ? "border-black bg-gray-50" : "border-gray-200 hover:bg-gray-50"
+                    )}
+                  >
+                    <span className={cn("h-3 w-3 rounded-full flex-shrink-0", option.dot)} />
+                    <span>
+                      <span className="block text-sm font-medium text-black">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {/* Custom status */}
+              <div>
+                <label htmlFor="custom-status" className="block text-sm font-medium text-gray-700 mb-1">
+                  Custom status
+                </label>
+                <Input
+                  id="custom-status"
+                  type="text"
+                  value={draftText}
+                  onChange={(e) => setDraftText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      handleSave()
+                    }
+                  }}
+                  placeholder="What's your status?"
+                  className="w-full"
+                  maxLength={MAX_STATUS_TEXT_LENGTH}
+                />
+                {customStatus?.expires_at && clearAfter === null && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Clears {formatExpiry(customStatus.expires_at)}
+                  </p>
+                )}
+              </div>
+
+              {draftText.trim() && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Clear after</p>
+                  <div className="flex flex-wrap gap-2">
+                    {CLEAR_AFTER_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setClearAfter(option.value)}
+                        className={cn(
+                          "px-3 py-1 rounded-full border text-xs transition-colors",
+                          clearAfter === option.value
+                            ? "border-black bg-black text-white"
+                            : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </DialogBody>
+
+          <DialogFooter>
+            {customStatus && (
+              <Button variant="ghost" onClick={handleClear} className="mr-auto hover:bg-gray-100">
+                Clear status
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setOpen(false)} className="hover:bg-gray-100">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="bg-black text-white hover:bg-gray-800">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import type React from "react"
+import { useLayoutEffect, useRef } from "react"
+import { X, Loader2, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { MessageBubble } from "@/components/MessageBubble"
+import { PendingMessageBubble } from "@/components/PendingMessageBubble"
+import { MessageInput } from "@/components/MessageInput"
+import { useThread } from "@/hooks/useRoomMessages"
+import { isMessageOwner } from "@/lib/api/messages"
+import type { OutboxEntry } from "@/lib/outbox"
+import type { Attachment, Message } from "@/lib/types"
+
+interface ThreadPanelProps {
+  rootId: number
+  currentUserId: number
+  isDirect?: boolean
+  onClose: () => void
+  onSend: (content: string, parentId?: number, attachments?: Attachment[]) => Promise<void> | void
+  onEdit?: (messageId: number, newContent: string) => Promise<void>
+  onDelete?: (messageId: number) => Promise<void>
+  onReact?: (message: Message, emoji: string) => void
+  pendingMessages?: OutboxEntry[]
+  onRetryPending?: (clientId: string) => void
+  onDiscardPending?: (clientId: string) => void
+}
+
+/**
+ * ThreadPanel component displays a message and all replies to it, next to the chat
+ *
+ * Features:
+ * - Root message on top, replies below (oldest first)
+ * - Own message input that posts replies to the root message
+ * - Updates live as replies, edits and deletions arrive over WebSocket
+ * - Pending and failed replies from the outbox
+ *
+ * @param rootId - ID of the thread's root message
+ * @param currentUserId - Current user's ID to determine message ownership
+ * @param isDirect - Whether the thread is in a direct message (for @mention suggestions)
+ * @param onClose - Callback to close the panel
+ * @param onSend - Callback to send a reply (content, parentId, attachments)
+ * @param onEdit - Callback when a message is edited
+ * @param onDelete - Callback when a message is deleted
+ * @param onReact - Callback to toggle the current user's reaction to a message
+ * @param pendingMessages - Own replies to this thread still in the outbox
+ * @param onRetryPending - Callback to retry a failed reply
+ * @param onDiscardPending - Callback to discard a pending reply
+ */
+export function ThreadPanel({
+  rootId,
+  currentUserId,
+  isDirect = false,
+  onClose,
+  onSend,
+  onEdit,
+  onDelete,
+  onReact,
+  pendingMessages = [],
+  onRetryPending,
+  onDiscardPending,
+}: ThreadPanelProps) {
+  const { root, replies, loading, error } = useThread(rootId)
+  const viewportRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest reply in view
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current
+    if (viewport) {
+      viewport.scrollTop = viewport.scrollHeight
+    }
+  }, [replies.length, pendingMessages.length])
+
+  const replyCount = root?.reply_count ?? replies.length
+
+  return (
+    <div className="w-96 border-l border-gray-200 bg-white flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between flex-shrink-0 select-none">
+        <div>
+          <h2 className="font-semibold text-black">Thread</h2>
+          {root?.user && (
+            <p className="text-xs text-gray-500">Started by {root.user.username}</p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-8 w-8 p-0 hover:bg-gray-100"
+          title="Close thread"
+        >
+          <X className="h-4 w-4 text-gray-600" />
+        </Button>
+      </div>
+
+      {/* Root message and replies */}
+      <ScrollArea className="flex-1 bg-gray-50 h-0" viewportRef={viewportRef}>
+        <div className="p-4 space-y-2">
+          {error && !root ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <AlertCircle className="h-8 w-8 text-red-500 mb-2" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          ) : loading && !root ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : root ? (
+            <MessageBubble
+              message={root}
+              isOwn={isMessageOwner(root, currentUserId)}
+              currentUserId={currentUserId}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onReact={onReact}
+            />
+          ) : (
+            <p className="text-sm text-gray-400 italic text-center py-4 select-none">
+              Original message was deleted
+            </p>
+          )}
+
+          {/* Reply count separator */}
+          <div className="flex items-center gap-3 py-2 select-none">
+            <div className="flex-1 border-t border-gray-200" />
+            <p className="text-xs text-gray-500 font-medium">
+              {replyCount} {replyCount === 1 ? "reply" : "replies"}
+            </p>
+            <div className="flex-1 border-t border-gray-200" />
+          </div>
+
+          {/* Replies */}
+          {loading && replies.length === 0 && root && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          )}
+
+          {/* Quoting the root in every reply would be redundant here */}
+          {replies.map((reply) => (
+            <MessageBubble
+              key={reply.id}
+              message={{ ...reply, parent_message: undefined, parent_id: undefined }}
+              isOwn={isMessageOwner(reply, currentUserId)}
+              currentUserId={currentUserId}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onReact={onReact}
+            />
+          ))}
+
+          {/* Replies not yet acknowledged by the server */}
+          {pendingMessages.map((entry) => (
+            <PendingMessageBubble
+              key={entry.client_id}
+              entry={entry}
+              onRetry={onRetryPending}
+              onDiscard={onDiscardPending}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+
+      {/* Reply input */}
+      <div className="flex-shrink-0">
+        <MessageInput
+          onSend={onSend}
+          parentId={rootId}
+          roomId={root?.room_id ?? null}
+          isDirect={isDirect}
+          currentUserId={currentUserId}
+          placeholder="Reply in thread..."
+          disabled={!root && !loading}
+        />
+      </div>
+    </div>
+  )
+}
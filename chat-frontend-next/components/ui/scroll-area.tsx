@@ -8,8 +8,13 @@ import { cn } from "@/lib/utils"
 function ScrollArea({
     className,
     children,
+    viewportRef,
+    onViewportScroll,
     ...props
-}: React.ComponentProps<typeof ScrollAreaPrimitive.Root>) {
+}: React.ComponentProps<typeof ScrollAreaPrimitive.Root> & {
+    viewportRef?: React.Ref<HTMLDivElement>
+    onViewportScroll?: React.UIEventHandler<HTMLDivElement>
+}) {
     return (
         <ScrollAreaPrimitive.Root
             data-slot="scroll-area"
@@ -17,6 +22,8 @@ function ScrollArea({
             {...props}
         >
             <ScrollAreaPrimitive.Viewport
+                ref={viewportRef}
+                onScroll={onViewportScroll}
                 data-slot="scroll-area-viewport"
                 className="focus-visible:ring-ring/50 size-full rounded-[inherit] transition-[color,box-shadow] outline-none focus-visible:ring-[3px] focus-visible:outline-1"
             >
@@ -0,0 +1,190 @@
+/**
+ * React Hook for Attachment Uploads
+ *
+ * Files attached in the message input, uploaded as soon as they are added:
+ * - Validates each file before uploading it (size, type, per-message count)
+ * - Tracks upload progress, and lets failed uploads be retried
+ * - Cancels uploads that are removed before they finish (or on unmount)
+ * - Local previews of images while they upload
+ *
+ * @example
+ * ```tsx
+ * const { uploads, addFiles, remove, attachments, ready, clear } = useAttachmentUploads();
+ *
+ * const errors = addFiles(Array.from(event.dataTransfer.files));
+ *
+ * if (ready) {
+ *   onSend(content, undefined, attachments);
+ *   clear();
+ * }
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { uploadAttachment } from '../lib/api/attachments';
+import { validateAttachment, isPreviewableImage, MAX_ATTACHMENTS_PER_MESSAGE } from '../lib/attachments';
+import type { Attachment } from '../lib/types';
+
+export type AttachmentUploadStatus = 'uploading' | 'uploaded' | 'failed';
+
+/**
+ * A file attached in the message input
+ */
+export interface AttachmentUpload {
+  /** Local ID of the upload */
+  id: string;
+  file: File;
+  status: AttachmentUploadStatus;
+  /** Upload progress (0-100) */
+  progress: number;
+  /** Object URL of the file, for images */
+  previewUrl?: string;
+  /** Stored attachment (once uploaded) */
+  attachment?: Attachment;
+  /** Error message (when failed) */
+  error?: string;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseAttachmentUploadsReturn {
+  /** Attached files, in the order they were added */
+  uploads: AttachmentUpload[];
+
+  /** Validate and start uploading files; returns the reasons files were refused */
+  addFiles: (files: File[]) => string[];
+
+  /** Remove a file (cancels its upload) */
+  remove: (id: string) => void;
+
+  /** Upload a failed file again */
+  retry: (id: string) => void;
+
+  /** Remove every file (after sending) */
+  clear: () => void;
+
+  /** Uploaded attachments, to send with the message */
+  attachments: Attachment[];
+
+  /** Whether every file has been uploaded */
+  ready: boolean;
+}
+
+let nextUploadId = 0;
+
+/**
+ * React Hook for Attachment Uploads
+ *
+ * @returns Attached files and upload actions
+ */
+export function useAttachmentUploads(): UseAttachmentUploadsReturn {
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+
+  const patch = useCallback((id: string, changes: Partial<AttachmentUpload>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, []);
+
+  const start = useCallback(async (id: string, file: File) => {
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    patch(id, { status: 'uploading', progress: 0, error: undefined });
+
+    try {
+      const attachment = await uploadAttachment(file, {
+        signal: controller.signal,
+        onProgress: progress => patch(id, { progress }),
+      });
+      patch(id, { status: 'uploaded', progress: 100, attachment });
+    } catch (err: any) {
+      // Removed while uploading
+      if (controller.signal.aborted) return;
+
+      console.error('Failed to upload attachment:', err);
+      patch(id, {
+        status: 'failed',
+        error: err.response?.data?.error || err.message || 'Failed to upload file',
+      });
+    } finally {
+      controllersRef.current.delete(id);
+    }
+  }, [patch]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const errors: string[] = [];
+    const added: AttachmentUpload[] = [];
+    let room = MAX_ATTACHMENTS_PER_MESSAGE - uploadsRef.current.length;
+
+    for (const file of files) {
+      const error = validateAttachment(file);
+      if (error) {
+        errors.push(error);
+      } else if (room <= 0) {
+        errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to a message`);
+        break;
+      } else {
+        room--;
+        added.push({
+          id: `upload-${++nextUploadId}`,
+          file,
+          status: 'uploading',
+          progress: 0,
+          previewUrl: isPreviewableImage(file.type) ? URL.createObjectURL(file) : undefined,
+        });
+      }
+    }
+
+    if (added.length > 0) {
+      setUploads(prev => [...prev, ...added]);
+      added.forEach(upload => start(upload.id, upload.file));
+    }
+    return errors;
+  }, [start]);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+
+    const upload = uploadsRef.current.find(upload => upload.id === id);
+    if (upload?.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    const upload = uploadsRef.current.find(upload => upload.id === id);
+    if (upload?.status === 'failed') {
+      start(id, upload.file);
+    }
+  }, [start]);
+
+  const clear = useCallback(() => {
+    uploadsRef.current.forEach(upload => remove(upload.id));
+  }, [remove]);
+
+  /**
+   * Cancel unfinished uploads and release previews on unmount
+   */
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      uploadsRef.current.forEach(upload => {
+        if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      });
+    };
+  }, []);
+
+  const attachments = useMemo(
+    () => uploads.flatMap(upload => (upload.attachment ? [upload.attachment] : [])),
+    [uploads]
+  );
+
+  const ready = uploads.every(upload => upload.status === 'uploaded');
+
+  return { uploads, addFiles, remove, retry, clear, attachments, ready };
+}
@@ -0,0 +1,102 @@
+/**
+ * React Hooks for Saved Messages (Bookmarks)
+ *
+ * - useBookmarks: the current user's bookmarks from the shared store,
+ *   loaded once per user
+ * - useBookmarkSync: keeps saved messages in step with WebSocket edits and deletions
+ *
+ * @example
+ * ```tsx
+ * const { bookmarks, loading, error, reload } = useBookmarks(user.id);
+ * useBookmarkSync(client);
+ *
+ * <button onClick={() => bookmarkStore.add(message)}>Save</button>
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { bookmarkStore, getServerBookmarksState, BookmarkSource } from '../lib/bookmarks';
+import type { Bookmark } from '../lib/types';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+
+const EMPTY: Bookmark[] = [];
+
+/**
+ * Hook return type
+ */
+export interface UseBookmarksReturn {
+  /** Saved messages, most recently saved first */
+  bookmarks: Bookmark[];
+
+  /** Whether the bookmarks are being loaded for the first time */
+  loading: boolean;
+
+  /** Load error */
+  error: string | null;
+
+  /** Where bookmarks are kept (null until loaded) */
+  source: BookmarkSource | null;
+
+  /** Load the bookmarks again (e.g. after an error) */
+  reload: () => void;
+}
+
+/**
+ * Hook for the current user's saved messages
+ *
+ * @param userId - Current user's ID (null while signed out)
+ * @returns Bookmarks and loading state
+ */
+export function useBookmarks(userId: number | null): UseBookmarksReturn {
+  const state = useSyncExternalStore(bookmarkStore.subscribe, bookmarkStore.getState, getServerBookmarksState);
+
+  useEffect(() => {
+    if (userId !== null) {
+      bookmarkStore.load(userId);
+    }
+  }, [userId]);
+
+  const reload = useCallback(() => {
+    if (userId !== null) {
+      bookmarkStore.load(userId, true);
+    }
+  }, [userId]);
+
+  return {
+    bookmarks: state.bookmarks ?? EMPTY,
+    loading: userId !== null && !state.bookmarks && !state.error,
+    error: state.error,
+    source: state.source,
+    reload
+  };
+}
+
+/**
+ * Keep saved messages in sync with WebSocket events
+ * Call once, next to the component that owns the connection.
+ *
+ * @param client - Shared WebSocket client
+ */
+export function useBookmarkSync(client: WebSocketClient | null): void {
+  useEffect(() => {
+    if (!client) return;
+
+    const handleMessageUpdated = (msg: WSInboundFrameOf<'message_updated'>) => {
+      bookmarkStore.updateMessage(msg.content);
+    };
+
+    const handleMessageDeleted = (msg: WSInboundFrameOf<'message_deleted'>) => {
+      bookmarkStore.removeMessage(msg.content.id);
+    };
+
+    client.on('message_updated', handleMessageUpdated);
+    client.on('message_deleted', handleMessageDeleted);
+
+    return () => {
+      client.off('message_updated', handleMessageUpdated);
+      client.off('message_deleted', handleMessageDeleted);
+    };
+  }, [client]);
+}
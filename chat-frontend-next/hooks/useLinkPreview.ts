@@ -0,0 +1,42 @@
+/**
+ * React Hook for Link Previews
+ *
+ * Returns the cached preview of a URL, fetching it on first use
+ * (see lib/linkPreviews).
+ *
+ * @example
+ * ```tsx
+ * const state = useLinkPreview('https://example.com');
+ *
+ * if (state?.status === 'loaded') {
+ *   return <p>{state.preview.title}</p>;
+ * }
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { linkPreviewCache, LinkPreviewState } from '../lib/linkPreviews';
+
+/**
+ * React Hook for Link Previews
+ *
+ * @param url - Link href (null for none)
+ * @returns Preview state, or undefined before loading starts
+ */
+export function useLinkPreview(url: string | null): LinkPreviewState | undefined {
+  const state = useSyncExternalStore(
+    linkPreviewCache.subscribe,
+    () => (url === null ? undefined : linkPreviewCache.get(url)),
+    () => undefined
+  );
+
+  useEffect(() => {
+    if (url !== null) {
+      linkPreviewCache.load(url);
+    }
+  }, [url]);
+
+  return state;
+}
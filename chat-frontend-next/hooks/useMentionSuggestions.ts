@@ -0,0 +1,98 @@
+/**
+ * React Hook for @mention Autocomplete
+ *
+ * Suggests users to mention while typing `@query`:
+ * - Group rooms: the room's participants
+ * - Direct messages: all users (DM rooms have no participant list to offer)
+ * - Loads candidates lazily, the first time a mention is typed in a room
+ * - A failed load is retried the next time a mention is typed
+ * - Usernames starting with the query come first
+ *
+ * @example
+ * ```tsx
+ * const suggestions = useMentionSuggestions(roomId, isDirect, mentionQuery?.query ?? null);
+ *
+ * {suggestions.map(user => <li key={user.id}>@{user.username}</li>)}
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getRoomParticipants } from '../lib/api/rooms';
+import { getUsers } from '../lib/api/users';
+import type { MentionUser } from '../lib/mentions';
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * React Hook for @mention Autocomplete
+ *
+ * @param roomId - Room the message is typed in (null for none)
+ * @param isDirect - Whether the room is a direct message
+ * @param query - Partial username after `@`, or null when not typing a mention
+ * @returns Matching users (empty while loading or when not typing a mention)
+ */
+export function useMentionSuggestions(
+  roomId: number | null,
+  isDirect: boolean,
+  query: string | null
+): MentionUser[] {
+  const [candidates, setCandidates] = useState<{ roomId: number; users: MentionUser[] } | null>(null);
+  const active = query !== null;
+
+  // Candidates request of the room, reused while in flight; cleared when it fails
+  const requestRef = useRef<{ roomId: number; promise: Promise<MentionUser[]> } | null>(null);
+
+  // Load candidates for the room once a mention is being typed
+  useEffect(() => {
+    if (!active || roomId === null || candidates?.roomId === roomId) return;
+
+    let cancelled = false;
+    let request = requestRef.current;
+    if (!request || request.roomId !== roomId) {
+      const load = isDirect ? getUsers() : getRoomParticipants(roomId);
+      request = {
+        roomId,
+        promise: load.then(users => users.map(user => ({ id: user.id, username: user.username }))),
+      };
+      requestRef.current = request;
+    }
+    const current = request;
+
+    current.promise
+      .then(users => {
+        if (cancelled) return;
+        setCandidates({ roomId, users });
+      })
+      .catch(err => {
+        // Forget the failed request so the next mention tries again
+        if (requestRef.current !== current) return;
+        requestRef.current = null;
+        console.error('Failed to load mention suggestions:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active, roomId, isDirect, candidates]);
+
+  return useMemo(() => {
+    if (query === null || !candidates || candidates.roomId !== roomId) return [];
+
+    const needle = query.toLowerCase();
+    const prefix: MentionUser[] = [];
+    const contains: MentionUser[] = [];
+
+    for (const user of candidates.users) {
+      const name = user.username.toLowerCase();
+      if (name.startsWith(needle)) {
+        prefix.push(user);
+      } else if (name.includes(needle)) {
+        contains.push(user);
+      }
+    }
+
+    return [...prefix, ...contains].slice(0, MAX_SUGGESTIONS);
+  }, [query, candidates, roomId]);
+}
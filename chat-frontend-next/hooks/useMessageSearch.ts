@@ -0,0 +1,160 @@
+/**
+ * React Hook for Message Search
+ *
+ * Searches messages across the user's rooms as the query and filters change:
+ * - Waits for typing to pause before searching
+ * - Filters: room, author, date range, has:link, has:attachment
+ * - Page-based pagination (`loadMore` appends the next page)
+ * - Responses for an older query or filter set are ignored
+ *
+ * @example
+ * ```tsx
+ * const { results, loading, hasMore, loadMore } = useMessageSearch({
+ *   query,
+ *   roomId: 1,
+ *   hasLink: true
+ * });
+ *
+ * {results.map(message => <SearchResult key={message.id} message={message} />)}
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { searchMessages, Message } from '../lib/api/messages';
+
+const PAGE_SIZE = 20;
+
+// Wait this long after the last keystroke before searching (ms)
+const SEARCH_DELAY = 300;
+
+/**
+ * Search query and filters
+ */
+export interface MessageSearchFilters {
+  query: string;
+  roomId?: number | null;
+  userId?: number | null;
+  /** Oldest day to include (YYYY-MM-DD) */
+  from?: string;
+  /** Newest day to include (YYYY-MM-DD) */
+  to?: string;
+  hasLink?: boolean;
+  hasAttachment?: boolean;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseMessageSearchReturn {
+  /** Matching messages, newest first */
+  results: Message[];
+
+  /** Total number of matches */
+  total: number;
+
+  /** Whether a search is in flight */
+  loading: boolean;
+
+  /** Last search error */
+  error: string | null;
+
+  /** Whether more results can be loaded */
+  hasMore: boolean;
+
+  /** Whether there is anything to search for (query, author or has: filter) */
+  active: boolean;
+
+  /** Load the next page of results */
+  loadMore: () => void;
+}
+
+/**
+ * React Hook for Message Search
+ *
+ * @param filters - Query and filters
+ * @returns Results, loading state and pagination
+ */
+export function useMessageSearch(filters: MessageSearchFilters): UseMessageSearchReturn {
+  const { query, roomId, userId, from, to, hasLink, hasAttachment } = filters;
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  const [results, setResults] = useState<Message[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Incremented for every search, so stale responses can be told apart
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // A date range or room alone would list every message in it
+  const active = debouncedQuery !== '' || Boolean(userId) || Boolean(hasLink) || Boolean(hasAttachment);
+
+  const runSearch = useCallback(async (pageToLoad: number) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await searchMessages({
+        query: debouncedQuery,
+        room_id: roomId ?? undefined,
+        user_id: userId ?? undefined,
+        from: from || undefined,
+        to: to || undefined,
+        has_link: hasLink,
+        has_attachment: hasAttachment,
+        page: pageToLoad,
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      setResults(prev => (pageToLoad === 1 ? response.messages : [...prev, ...response.messages]));
+      setTotal(response.pagination.total);
+      setTotalPages(response.pagination.totalPages);
+      setPage(pageToLoad);
+    } catch (err: any) {
+      if (requestId !== requestIdRef.current) return;
+
+      console.error('Failed to search messages:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to search messages');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [debouncedQuery, roomId, userId, from, to, hasLink, hasAttachment]);
+
+  /**
+   * Start over from the first page whenever the query or filters change
+   */
+  useEffect(() => {
+    if (!active) {
+      requestIdRef.current++;
+      setResults([]);
+      setTotal(0);
+      setTotalPages(0);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    runSearch(1);
+  }, [active, runSearch]);
+
+  const hasMore = active && page < totalPages;
+
+  const loadMore = useCallback(() => {
+    if (loading || !hasMore) return;
+    runSearch(page + 1);
+  }, [loading, hasMore, page, runSearch]);
+
+  return { results, total, loading, error, hasMore, active, loadMore };
+}
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useMessageNotifications, UseMessageNotificationsOptions } from './useNotifications';
+import { DEFAULT_SETTINGS, settingsStore } from '../lib/settings';
+import type { Message } from '../lib/types';
+import type { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+
+const CURRENT_USER_ID = 1;
+const OPEN_ROOM_ID = 10;
+const OTHER_ROOM_ID = 20;
+
+type MessageHandler = (msg: WSInboundFrameOf<'message'>) => void;
+
+/**
+ * WebSocket client that only keeps its message handlers
+ */
+function createClient() {
+  const handlers = new Set<MessageHandler>();
+  const client = {
+    on: (_type: 'message', handler: MessageHandler) => handlers.add(handler),
+    off: (_type: 'message', handler: MessageHandler) => handlers.delete(handler),
+  };
+
+  const receive = (overrides: Partial<Message> = {}) => {
+    const message: Message = {
+      id: 100,
+      content: 'Hello there',
+      user_id: 2,
+      user: { id: 2, username: 'bob', email: 'bob@example.com', role: 'user', created_at: '', updated_at: '' },
+      room_id: OTHER_ROOM_ID,
+      created_at: '2024-01-15T12:00:00Z',
+      updated_at: '2024-01-15T12:00:00Z',
+      ...overrides,
+    };
+    handlers.forEach(handler =>
+      handler({ type: 'message', room_id: message.room_id, user_id: message.user_id, content: message })
+    );
+  };
+
+  return { client: client as unknown as WebSocketClient, receive };
+}
+
+class MockNotification {
+  static permission: NotificationPermission = 'granted';
+  static requestPermission = vi.fn();
+  static instances: MockNotification[] = [];
+
+  onclick: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  close = vi.fn();
+
+  constructor(public title: string, public options: NotificationOptions) {
+    MockNotification.instances.push(this);
+  }
+}
+
+const oscillatorStart = vi.fn();
+
+class MockAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  resume = vi.fn();
+
+  createOscillator() {
+    return { frequency: { value: 0 }, connect: (node: unknown) => node, start: oscillatorStart, stop: vi.fn() };
+  }
+
+  createGain() {
+    return {
+      gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+      connect: (node: unknown) => node,
+    };
+  }
+}
+
+function setFocused(focused: boolean) {
+  vi.spyOn(document, 'hasFocus').mockReturnValue(focused);
+  vi.spyOn(document, 'visibilityState', 'get').mockReturnValue(focused ? 'visible' : 'hidden');
+}
+
+function render(options: Partial<UseMessageNotificationsOptions> = {}) {
+  const { client, receive } = createClient();
+  const onOpenRoom = vi.fn();
+
+  renderHook(() =>
+    useMessageNotifications(client, {
+      currentUserId: CURRENT_USER_ID,
+      selectedRoomId: OPEN_ROOM_ID,
+      getRoom: roomId => ({ name: `room-${roomId}`, isDirect: false }),
+      onOpenRoom,
+      ...options,
+    })
+  );
+
+  return { receive, onOpenRoom };
+}
+
+// Chimes played so far (each one starts two tones)
+const chimes = () => oscillatorStart.mock.calls.length / 2;
+
+beforeEach(() => {
+  MockNotification.permission = 'granted';
+  MockNotification.instances = [];
+  oscillatorStart.mockClear();
+  vi.stubGlobal('Notification', MockNotification);
+  vi.stubGlobal('AudioContext', MockAudioContext);
+  settingsStore.update(DEFAULT_SETTINGS);
+  setFocused(true);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('useMessageNotifications', () => {
+  it('notifies and chimes for messages in other rooms', () => {
+    const { receive } = render();
+
+    receive({ content: 'Lunch?' });
+
+    expect(MockNotification.instances).toHaveLength(1);
+    expect(MockNotification.instances[0].title).toBe('bob in room-20');
+    expect(MockNotification.instances[0].options).toEqual({ body: 'Lunch?', tag: 'room-20' });
+    expect(chimes()).toBe(1);
+  });
+
+  it('skips the open room while the window has focus', () => {
+    const { receive } = render();
+
+    receive({ room_id: OPEN_ROOM_ID });
+
+    expect(MockNotification.instances).toHaveLength(0);
+    expect(chimes()).toBe(0);
+  });
+
+  it('alerts for the open room while the window is in the background', () => {
+    setFocused(false);
+    const { receive } = render();
+
+    receive({ room_id: OPEN_ROOM_ID });
+
+    expect(MockNotification.instances).toHaveLength(1);
+  });
+
+  it('skips the user\'s own messages', () => {
+    const { receive } = render();
+
+    receive({ user_id: CURRENT_USER_ID });
+
+    expect(MockNotification.instances).toHaveLength(0);
+    expect(chimes()).toBe(0);
+  });
+
+  it('only chimes when notification permission is denied', () => {
+    MockNotification.permission = 'denied';
+    const { receive } = render();
+
+    receive();
+
+    expect(MockNotification.instances).toHaveLength(0);
+    expect(MockNotification.requestPermission).not.toHaveBeenCalled();
+    expect(chimes()).toBe(1);
+  });
+
+  it('follows the Notifications and Sound settings', () => {
+    settingsStore.update({ notifications: false, soundEnabled: false });
+    const { receive } = render();
+
+    receive();
+
+    expect(MockNotification.instances).toHaveLength(0);
+    expect(chimes()).toBe(0);
+  });
+
+  it('skips muted rooms unless a keyword matches', () => {
+    settingsStore.update({ mutedRooms: [OTHER_ROOM_ID], notificationKeywords: ['deploy'] });
+    const { receive } = render();
+
+    receive({ content: 'Just chatting' });
+    expect(MockNotification.instances).toHaveLength(0);
+
+    receive({ content: 'Deploy is done' });
+    expect(MockNotification.instances).toHaveLength(1);
+    expect(chimes()).toBe(1);
+  });
+
+  it('stays silent during quiet hours that wrap past midnight', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    settingsStore.update({ quietHours: { enabled: true, start: '22:00', end: '08:00' } });
+    const { receive } = render();
+
+    vi.setSystemTime(new Date(2024, 0, 15, 23, 30));
+    receive();
+    vi.setSystemTime(new Date(2024, 0, 16, 7, 59));
+    receive();
+    expect(MockNotification.instances).toHaveLength(0);
+    expect(chimes()).toBe(0);
+
+    vi.setSystemTime(new Date(2024, 0, 16, 8, 0));
+    receive();
+    expect(MockNotification.instances).toHaveLength(1);
+  });
+
+  it('opens the room when a notification is clicked', () => {
+    const focus = vi.spyOn(window, 'focus').mockImplementation(() => {});
+    const { receive, onOpenRoom } = render();
+
+    receive();
+    const [notification] = MockNotification.instances;
+    notification.onclick?.();
+
+    expect(focus).toHaveBeenCalled();
+    expect(onOpenRoom).toHaveBeenCalledWith(OTHER_ROOM_ID);
+    expect(notification.close).toHaveBeenCalled();
+  });
+});
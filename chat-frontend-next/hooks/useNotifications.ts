@@ -0,0 +1,169 @@
+/**
+ * React Hooks for Desktop Notifications
+ *
+ * - useMessageNotifications: alerts for new WebSocket messages outside the
+ *   room on screen, following the notification settings; clicking a
+ *   notification opens its room
+ * - useNotificationPermission: the browser's notification permission, and
+ *   a way to ask for it
+ *
+ * @example
+ * ```tsx
+ * const { client } = useWebSocket(roomId);
+ * useMessageNotifications(client, {
+ *   currentUserId: user.id,
+ *   selectedRoomId: roomId,
+ *   getRoom: (id) => ({ name: 'general', isDirect: false }),
+ *   onOpenRoom: setSelectedRoomId,
+ * });
+ *
+ * const { permission, requestPermission } = useNotificationPermission();
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  shouldAlert,
+  buildNotificationContent,
+  getNotificationPermission,
+  requestNotificationPermission,
+  playNotificationSound,
+  NotificationPermissionState,
+  NotificationRoom,
+} from '../lib/notifications';
+import { settingsStore } from '../lib/settings';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+
+/**
+ * Message notification options
+ */
+export interface UseMessageNotificationsOptions {
+  /** Current user's ID (null while loading; nothing alerts until known) */
+  currentUserId: number | null;
+
+  /** Room on screen (its messages only alert while the window is in the background) */
+  selectedRoomId: number | null;
+
+  /** Name and kind of a room, for the notification title (null if unknown) */
+  getRoom: (roomId: number) => NotificationRoom | null;
+
+  /** Called when a notification is clicked */
+  onOpenRoom: (roomId: number) => void;
+}
+
+/**
+ * Alert the user about new messages with desktop notifications and sound
+ *
+ * Settings are read when each message arrives, so changes apply at once.
+ * Notifications of a room are closed when it is opened.
+ *
+ * @param client - Shared WebSocket client
+ * @param options - Current user, room on screen and callbacks
+ */
+export function useMessageNotifications(
+  client: WebSocketClient | null,
+  options: UseMessageNotificationsOptions
+): void {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Latest notification of each room
+  const openRef = useRef<Map<number, Notification>>(new Map());
+
+  useEffect(() => {
+    if (!client) return;
+
+    const handleMessage = (msg: WSInboundFrameOf<'message'>) => {
+      const { currentUserId, selectedRoomId, getRoom } = optionsRef.current;
+      if (currentUserId === null) return;
+
+      const message = msg.content;
+      const settings = settingsStore.getSettings();
+      const focused = document.visibilityState === 'visible' && document.hasFocus();
+
+      if (!shouldAlert(message, { settings, currentUserId, focusedRoomId: focused ? selectedRoomId : null })) {
+        return;
+      }
+
+      if (settings.soundEnabled) {
+        playNotificationSound();
+      }
+
+      if (!settings.notifications || getNotificationPermission() !== 'granted') return;
+
+      const { title, body } = buildNotificationContent(message, getRoom(message.room_id), settings);
+      try {
+        // One notification per room: a newer message replaces the previous one
+        const notification = new Notification(title, { body, tag: `room-${message.room_id}` });
+        const roomId = message.room_id;
+
+        notification.onclick = () => {
+          window.focus();
+          optionsRef.current.onOpenRoom(roomId);
+          notification.close();
+        };
+        notification.onclose = () => {
+          if (openRef.current.get(roomId) === notification) openRef.current.delete(roomId);
+        };
+
+        openRef.current.set(roomId, notification);
+      } catch (err) {
+        // Some browsers (e.g. Chrome on Android) only allow notifications from a service worker
+        console.error('Failed to show notification:', err);
+      }
+    };
+
+    client.on('message', handleMessage);
+
+    return () => {
+      client.off('message', handleMessage);
+    };
+  }, [client]);
+
+  const { selectedRoomId } = options;
+
+  /**
+   * Close the notifications of the room the user opens
+   */
+  useEffect(() => {
+    if (selectedRoomId === null) return;
+
+    openRef.current.get(selectedRoomId)?.close();
+    openRef.current.delete(selectedRoomId);
+  }, [selectedRoomId]);
+}
+
+/**
+ * Hook return type
+ */
+export interface UseNotificationPermissionReturn {
+  /** Current permission ('unsupported' without the Notification API) */
+  permission: NotificationPermissionState;
+
+  /** Ask the browser for permission (only prompts while it is 'default') */
+  requestPermission: () => Promise<NotificationPermissionState>;
+}
+
+/**
+ * Hook for the browser's notification permission
+ *
+ * @returns Permission and a function to ask for it
+ */
+export function useNotificationPermission(): UseNotificationPermissionReturn {
+  // Unknown during prerender; read once mounted
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+
+  useEffect(() => {
+    setPermission(getNotificationPermission());
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  return { permission, requestPermission };
+}
@@ -0,0 +1,160 @@
+/**
+ * React Hook for the Outbound Message Queue
+ *
+ * Connects the shared outbox to a component:
+ * - Switches the outbox to the signed-in user's queue
+ * - Pending/failed messages for the current room
+ * - Queues new messages instead of sending them directly
+ * - Reconciles pending messages with the server copy (HTTP response or WebSocket broadcast)
+ * - Retries failed messages when the WebSocket (re)connects or the browser comes back online
+ *
+ * @example
+ * ```tsx
+ * const { client } = useWebSocket(roomId);
+ * const { pending, send, retry, discard } = useOutbox(roomId, client, {
+ *   userId: user.id,
+ *   onDelivered: (message) => messageStore.addMessages([message])
+ * });
+ *
+ * <MessageList pendingMessages={pending} onRetryPending={retry} onDiscardPending={discard} />
+ * <MessageInput onSend={send} />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { outbox, getServerOutboxEntries, OutboxEntry } from '../lib/outbox';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+import { Message } from '../lib/api/messages';
+import type { Attachment } from '../lib/types';
+
+/**
+ * Outbox hook options
+ */
+export interface UseOutboxOptions {
+  /** Current user's ID (null while loading; nothing is queued or retried until known) */
+  userId: number | null;
+
+  /**
+   * Called with the server copy of each queued message once it is delivered
+   * (whichever of the HTTP response or WebSocket broadcast comes first)
+   */
+  onDelivered?: (message: Message) => void;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseOutboxReturn {
+  /** Pending and failed messages for the room, oldest first */
+  pending: OutboxEntry[];
+
+  /** Queue a message (with already uploaded attachments) for the room */
+  send: (content: string, parentId?: number, attachments?: Attachment[]) => void;
+
+  /** Retry a failed message now */
+  retry: (clientId: string) => void;
+
+  /** Drop a pending or failed message */
+  discard: (clientId: string) => void;
+}
+
+/**
+ * React Hook for the Outbound Message Queue
+ *
+ * @param roomId - Room whose pending messages to return (null for none)
+ * @param client - Shared WebSocket client, used to retry on reconnect
+ * @param options - Outbox hook options
+ * @returns Pending messages and queue actions
+ */
+export function useOutbox(
+  roomId: number | null,
+  client: WebSocketClient | null,
+  options: UseOutboxOptions
+): UseOutboxReturn {
+  const { userId } = options;
+
+  /**
+   * Use the current user's queue (before anything below retries it)
+   */
+  useEffect(() => {
+    outbox.setUser(userId);
+  }, [userId]);
+
+  const entries = useSyncExternalStore(
+    outbox.subscribe,
+    outbox.getEntries,
+    getServerOutboxEntries
+  );
+
+  const pending = useMemo(
+    () => entries.filter(entry => entry.room_id === roomId),
+    [entries, roomId]
+  );
+
+  const onDeliveredRef = useRef(options.onDelivered);
+  onDeliveredRef.current = options.onDelivered;
+
+  /**
+   * Forward delivered messages to the caller
+   */
+  useEffect(() => {
+    return outbox.onDelivered(message => onDeliveredRef.current?.(message));
+  }, []);
+
+  /**
+   * Acknowledge pending messages from the WebSocket broadcast
+   * (it may arrive before the HTTP response)
+   */
+  useEffect(() => {
+    if (!client) return;
+
+    const handleMessage = (msg: WSInboundFrameOf<'message'>) => {
+      outbox.acknowledge(msg.content);
+    };
+
+    client.on('message', handleMessage);
+
+    return () => {
+      client.off('message', handleMessage);
+    };
+  }, [client]);
+
+  /**
+   * Retry failed messages whenever the connection comes back
+   */
+  useEffect(() => {
+    if (userId === null) return;
+
+    const handleOnline = () => outbox.retryAll();
+
+    window.addEventListener('online', handleOnline);
+    client?.onConnect(handleOnline);
+
+    // Messages left over from a previous session
+    if (client?.isConnected()) {
+      outbox.retryAll();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      client?.offConnect(handleOnline);
+    };
+  }, [client, userId]);
+
+  const send = useCallback((content: string, parentId?: number, attachments?: Attachment[]) => {
+    if (roomId === null || userId === null) return;
+    outbox.enqueue({ room_id: roomId, content, parent_id: parentId, attachments });
+  }, [roomId, userId]);
+
+  const retry = useCallback((clientId: string) => {
+    outbox.retry(clientId);
+  }, []);
+
+  const discard = useCallback((clientId: string) => {
+    outbox.discard(clientId);
+  }, []);
+
+  return { pending, send, retry, discard };
+}
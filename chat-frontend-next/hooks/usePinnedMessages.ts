@@ -0,0 +1,128 @@
+/**
+ * React Hooks for Pinned Messages
+ *
+ * - usePinnedMessages: a room's pins from the shared pin store, loaded
+ *   when the room is opened
+ * - usePinSync: writes WebSocket pin events (and edits/deletions of pinned
+ *   messages) into the store
+ *
+ * @example
+ * ```tsx
+ * const { client } = useWebSocket(roomId);
+ * usePinSync(client);
+ *
+ * const { pins, loading } = usePinnedMessages(roomId);
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { pinStore } from '../lib/pins';
+import { getPinnedMessages } from '../lib/api/messages';
+import type { PinnedMessage } from '../lib/types';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+
+const EMPTY: PinnedMessage[] = [];
+
+/**
+ * Hook return type
+ */
+export interface UsePinnedMessagesReturn {
+  /** Pins of the room, most recently pinned first */
+  pins: PinnedMessage[];
+
+  /** Whether the pins are being loaded for the first time */
+  loading: boolean;
+
+  /** Load error */
+  error: string | null;
+}
+
+/**
+ * Hook for a room's pinned messages
+ *
+ * @param roomId - Room ID (null for none, e.g. direct messages)
+ * @returns Pins and loading state
+ */
+export function usePinnedMessages(roomId: number | null): UsePinnedMessagesReturn {
+  const pins = useSyncExternalStore(
+    pinStore.subscribe,
+    () => (roomId === null ? undefined : pinStore.getPins(roomId)),
+    () => undefined
+  );
+
+  const [errorState, setErrorState] = useState<{ roomId: number; message: string } | null>(null);
+
+  /**
+   * Load (or refresh) the pins when the room changes
+   */
+  useEffect(() => {
+    if (roomId === null) return;
+
+    let cancelled = false;
+    setErrorState(null);
+
+    getPinnedMessages(roomId)
+      .then(data => pinStore.setPins(roomId, data))
+      .catch(err => {
+        console.error('Failed to load pinned messages:', err);
+        if (!cancelled) {
+          setErrorState({ roomId, message: err.response?.data?.error || 'Failed to load pinned messages' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  const error = errorState?.roomId === roomId ? errorState.message : null;
+
+  return {
+    pins: pins ?? EMPTY,
+    loading: roomId !== null && !pins && !error,
+    error
+  };
+}
+
+/**
+ * Keep the pin store in sync with WebSocket events
+ * Call once, next to the component that owns the connection.
+ *
+ * @param client - Shared WebSocket client
+ */
+export function usePinSync(client: WebSocketClient | null): void {
+  useEffect(() => {
+    if (!client) return;
+
+    const handlePinned = (msg: WSInboundFrameOf<'message_pinned'>) => {
+      pinStore.addPin(msg.content);
+    };
+
+    const handleUnpinned = (msg: WSInboundFrameOf<'message_unpinned'>) => {
+      pinStore.removePin(msg.content.room_id, msg.content.message_id);
+    };
+
+    const handleMessageUpdated = (msg: WSInboundFrameOf<'message_updated'>) => {
+      pinStore.updateMessage(msg.content);
+    };
+
+    // Deleting a message removes its pin as well
+    const handleMessageDeleted = (msg: WSInboundFrameOf<'message_deleted'>) => {
+      pinStore.removePin(msg.content.room_id, msg.content.id);
+    };
+
+    client.on('message_pinned', handlePinned);
+    client.on('message_unpinned', handleUnpinned);
+    client.on('message_updated', handleMessageUpdated);
+    client.on('message_deleted', handleMessageDeleted);
+
+    return () => {
+      client.off('message_pinned', handlePinned);
+      client.off('message_unpinned', handleUnpinned);
+      client.off('message_updated', handleMessageUpdated);
+      client.off('message_deleted', handleMessageDeleted);
+    };
+  }, [client]);
+}
@@ -0,0 +1,284 @@
+/**
+ * React Hooks for Presence
+ *
+ * - usePresence: a user's presence, with an "Active now" / "Last seen 5m ago"
+ *   label that stays current
+ * - usePresenceSync: writes WebSocket `presence` events into the shared store
+ * - useOwnPresence: broadcasts the current user's presence (away after being
+ *   idle or with the tab hidden, offline while the Online Status setting is
+ *   off) and lets them pick a status and custom status
+ *
+ * @example
+ * ```tsx
+ * const { client } = useWebSocket(roomId);
+ * usePresenceSync(client);
+ * const { status, setMode } = useOwnPresence(client);
+ *
+ * const { status: theirStatus, label } = usePresence(dm.other_user);
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  presenceStore,
+  getServerOwnStatus,
+  presenceFromUser,
+  getActiveCustomStatus,
+  describePresence,
+  resolveOwnStatus,
+  IDLE_TIMEOUT,
+  CustomStatus,
+  OwnStatusMode,
+  PresenceSource,
+} from '../lib/presence';
+import { WebSocketClient, WSInboundFrameOf, PresenceStatus } from '../lib/websocket';
+import { useSettings } from './useSettings';
+
+// How often "Last seen" labels and custom status expiry are re-checked
+const CLOCK_INTERVAL = 30 * 1000;
+
+// Activity events closer together than this only count once
+const ACTIVITY_THROTTLE = 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Longest delay setTimeout supports
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * One shared clock for every presence label, ticking while any is mounted
+ */
+let clockNow = Date.now();
+let clockTimer: ReturnType<typeof setInterval> | null = null;
+const clockListeners: Set<() => void> = new Set();
+
+function subscribeClock(listener: () => void): () => void {
+  clockListeners.add(listener);
+  if (!clockTimer) {
+    clockNow = Date.now();
+    clockTimer = setInterval(() => {
+      clockNow = Date.now();
+      clockListeners.forEach(notify => notify());
+    }, CLOCK_INTERVAL);
+  }
+
+  return () => {
+    clockListeners.delete(listener);
+    if (clockListeners.size === 0 && clockTimer) {
+      clearInterval(clockTimer);
+      clockTimer = null;
+    }
+  };
+}
+
+function useClock(): number {
+  return useSyncExternalStore(subscribeClock, () => clockNow, () => clockNow);
+}
+
+/**
+ * Hook return type
+ */
+export interface UsePresenceReturn {
+  /** Current status */
+  status: PresenceStatus;
+
+  /** "Active now", "Away", "Busy", "Last seen 5m ago" or "Offline" */
+  label: string;
+
+  /** Custom status, unless it has expired (null for none) */
+  customStatus: CustomStatus | null;
+}
+
+/**
+ * Hook for a user's presence
+ * Live once a `presence` event has arrived for them (see usePresenceSync);
+ * until then it comes from the user data.
+ *
+ * @param user - User data from the REST API (null while loading, shown as offline)
+ * @returns Status, label and custom status
+ */
+export function usePresence(user: PresenceSource | null): UsePresenceReturn {
+  const now = useClock();
+  const userId = user?.id ?? null;
+  const live = useSyncExternalStore(
+    presenceStore.subscribe,
+    () => (userId === null ? undefined : presenceStore.getPresence(userId)),
+    () => undefined
+  );
+
+  const presence = live ?? presenceFromUser(user ?? { id: 0 });
+  return {
+    status: presence.status,
+    label: describePresence(presence, now),
+    customStatus: getActiveCustomStatus(presence.custom_status, now),
+  };
+}
+
+/**
+ * Keep the presence store in sync with WebSocket events
+ * Call once, next to the component that owns the connection.
+ *
+ * @param client - Shared WebSocket client
+ */
+export function usePresenceSync(client: WebSocketClient | null): void {
+  useEffect(() => {
+    if (!client) return;
+
+    const handlePresence = (msg: WSInboundFrameOf<'presence'>) => {
+      presenceStore.apply(msg.user_id, msg.content);
+    };
+
+    client.on('presence', handlePresence);
+
+    return () => {
+      client.off('presence', handlePresence);
+      // Without the connection, live presence goes stale; fall back to user data
+      presenceStore.clear();
+    };
+  }, [client]);
+}
+
+/**
+ * Hook return type
+ */
+export interface UseOwnPresenceReturn {
+  /** Status other users see */
+  status: PresenceStatus;
+
+  /** Status the user picked */
+  mode: OwnStatusMode;
+
+  /** Custom status, unless it has expired (null for none) */
+  customStatus: CustomStatus | null;
+
+  /** Whether the user hides their presence (Online Status setting off) */
+  hidden: boolean;
+
+  /** Pick a status */
+  setMode: (mode: OwnStatusMode) => void;
+
+  /** Set the custom status (null expiry to keep it until cleared) */
+  setCustomStatus: (text: string, expiresAt: string | null) => void;
+
+  /** Clear the custom status */
+  clearCustomStatus: () => void;
+}
+
+/**
+ * Hook for the current user's presence
+ * Broadcasts it whenever it changes, and again after a reconnect.
+ *
+ * @param client - Shared WebSocket client
+ * @returns The user's presence and functions to change it
+ */
+export function useOwnPresence(client: WebSocketClient | null): UseOwnPresenceReturn {
+  const { settings } = useSettings();
+  const visible = settings.onlineStatus;
+  const own = useSyncExternalStore(presenceStore.subscribe, presenceStore.getOwnStatus, getServerOwnStatus);
+
+  const [idle, setIdle] = useState(false);
+  const [tabHidden, setTabHidden] = useState(false);
+
+  /**
+   * Track activity: idle after IDLE_TIMEOUT without input, and whether the tab is hidden
+   */
+  useEffect(() => {
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastActivity = 0;
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity < ACTIVITY_THROTTLE) return;
+      lastActivity = now;
+
+      setIdle(false);
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => setIdle(true), IDLE_TIMEOUT);
+    };
+
+    const handleVisibilityChange = () => {
+      const hidden = document.visibilityState === 'hidden';
+      setTabHidden(hidden);
+      if (!hidden) handleActivity();
+    };
+
+    handleVisibilityChange();
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const now = useClock();
+  const customStatus = getActiveCustomStatus(own.custom_status, now);
+  const expiresAt = own.custom_status?.expires_at ?? null;
+
+  /**
+   * Clear the custom status when it expires
+   */
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const remaining = new Date(expiresAt).getTime() - Date.now();
+    if (remaining <= 0) {
+      presenceStore.setOwnStatus({ custom_status: null });
+      return;
+    }
+    if (remaining > MAX_TIMEOUT) return;
+
+    const timer = setTimeout(() => presenceStore.setOwnStatus({ custom_status: null }), remaining);
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
+
+  const status = resolveOwnStatus(own.mode, idle || tabHidden, visible);
+
+  // A hidden user shares no custom status either
+  const statusText = visible ? customStatus?.text ?? null : null;
+  const statusExpiresAt = visible ? customStatus?.expires_at ?? null : null;
+
+  // Last presence the server has received from this hook
+  const sentRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!client) return;
+
+    const presence = { status, status_text: statusText, status_expires_at: statusExpiresAt };
+    const key = JSON.stringify(presence);
+
+    const send = () => {
+      if (sentRef.current === key || !client.isConnected()) return;
+
+      client.sendPresence(presence);
+      sentRef.current = key;
+    };
+
+    // Presence is dropped while disconnected, so send again once back
+    const handleConnect = () => {
+      sentRef.current = null;
+      send();
+    };
+
+    send();
+    client.onConnect(handleConnect);
+
+    return () => {
+      client.offConnect(handleConnect);
+    };
+  }, [client, status, statusText, statusExpiresAt]);
+
+  return {
+    status,
+    mode: own.mode,
+    customStatus,
+    hidden: !visible,
+    setMode: (mode) => presenceStore.setOwnStatus({ mode }),
+    setCustomStatus: (text, expiresAt) => presenceStore.setOwnStatus({ custom_status: { text, expires_at: expiresAt } }),
+    clearCustomStatus: () => presenceStore.setOwnStatus({ custom_status: null }),
+  };
+}
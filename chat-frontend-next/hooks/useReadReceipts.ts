@@ -0,0 +1,133 @@
+/**
+ * React Hooks for Read Receipts
+ *
+ * - useReadReceipts: how far each member of a room has read, loaded when
+ *   the room is opened
+ * - useReadReceiptSync: writes WebSocket `read` events into the shared store
+ * - useOwnReadReceipt: tells the room how far the current user has read,
+ *   unless they turned read receipts off in the settings
+ *
+ * @example
+ * ```tsx
+ * const { client } = useWebSocket(roomId);
+ * useReadReceiptSync(client);
+ * useOwnReadReceipt(client, roomId, lastMessage?.id ?? null);
+ *
+ * const receipts = useReadReceipts(roomId);
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { readReceiptStore } from '../lib/readReceipts';
+import { getReadReceipts } from '../lib/api/rooms';
+import type { ReadReceipt } from '../lib/types';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+import { useSettings } from './useSettings';
+
+const EMPTY: ReadReceipt[] = [];
+
+/**
+ * Hook for the read receipts of a room
+ * Receipts are optional, so a failed load only logs and shows none.
+ *
+ * @param roomId - Room ID (null for none)
+ * @returns One receipt per member who has read something
+ */
+export function useReadReceipts(roomId: number | null): ReadReceipt[] {
+  const receipts = useSyncExternalStore(
+    readReceiptStore.subscribe,
+    () => (roomId === null ? undefined : readReceiptStore.getReceipts(roomId)),
+    () => undefined
+  );
+
+  /**
+   * Load (or refresh) the receipts when the room changes
+   */
+  useEffect(() => {
+    if (roomId === null) return;
+
+    getReadReceipts(roomId)
+      .then(data => readReceiptStore.setReceipts(roomId, data))
+      .catch(err => {
+        console.error('Failed to load read receipts:', err);
+      });
+  }, [roomId]);
+
+  return receipts ?? EMPTY;
+}
+
+/**
+ * Keep the read receipt store in sync with WebSocket events
+ * Call once, next to the component that owns the connection.
+ *
+ * @param client - Shared WebSocket client
+ */
+export function useReadReceiptSync(client: WebSocketClient | null): void {
+  useEffect(() => {
+    if (!client) return;
+
+    const handleRead = (msg: WSInboundFrameOf<'read'>) => {
+      const { message_id, read_at, username } = msg.content;
+      readReceiptStore.applyRead(
+        msg.room_id,
+        { id: msg.user_id, username: username ?? '' },
+        message_id,
+        read_at ?? msg.timestamp ?? new Date().toISOString()
+      );
+    };
+
+    client.on('read', handleRead);
+
+    return () => {
+      client.off('read', handleRead);
+    };
+  }, [client]);
+}
+
+/**
+ * Send the current user's read receipt for a room whenever they have seen
+ * a newer message. Nothing is sent while the Read Receipts setting is off.
+ *
+ * @param client - Shared WebSocket client
+ * @param roomId - Room the user is reading (null for none)
+ * @param messageId - ID of the latest message they have seen (null for none)
+ */
+export function useOwnReadReceipt(
+  client: WebSocketClient | null,
+  roomId: number | null,
+  messageId: number | null
+): void {
+  const { settings } = useSettings();
+  const enabled = settings.readReceipts;
+
+  // Last receipt the server has received from this hook
+  const sentRef = useRef<{ roomId: number; messageId: number } | null>(null);
+
+  useEffect(() => {
+    if (!client || !enabled || roomId === null || messageId === null) return;
+
+    const send = () => {
+      const sent = sentRef.current;
+      if (sent?.roomId === roomId && sent.messageId >= messageId) return;
+      if (!client.isConnected()) return;
+
+      client.sendRead(roomId, messageId);
+      sentRef.current = { roomId, messageId };
+    };
+
+    // Receipts are dropped while disconnected, so send again once back
+    const handleConnect = () => {
+      sentRef.current = null;
+      send();
+    };
+
+    send();
+    client.onConnect(handleConnect);
+
+    return () => {
+      client.offConnect(handleConnect);
+    };
+  }, [client, enabled, roomId, messageId]);
+}
@@ -0,0 +1,397 @@
+/**
+ * React Hooks for the Message Store
+ *
+ * - useRoomMessages: a room's messages from the shared store, with
+ *   stale-while-revalidate loading, cursor pagination and loading the
+ *   history around a given message (jumping to search results and links)
+ * - useThread: a message and its replies, kept live by the same store
+ * - useMessageStoreSync: writes WebSocket message events into the store
+ *
+ * @example
+ * ```tsx
+ * function ChatRoom({ roomId }: { roomId: number }) {
+ *   const { client } = useWebSocket(roomId);
+ *   useMessageStoreSync(client);
+ *
+ *   const { messages, loading, hasMore, loadMore } = useRoomMessages(roomId);
+ *
+ *   return <MessageList messages={messages} loading={loading} hasMore={hasMore} onLoadMore={loadMore} />;
+ * }
+ * ```
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import axios from 'axios';
+import { messageStore, RoomMessagesState } from '../lib/messageStore';
+import { getMessages, getThread, hasOlderMessages, hasNewerMessages, Message, MessageCursor } from '../lib/api/messages';
+import { WebSocketClient, WSInboundFrameOf } from '../lib/websocket';
+
+const PAGE_SIZE = 50;
+
+// Older pages loaded at most when jumping to a message the server did not
+// load the history around (e.g. a backend without `around` support)
+const MAX_JUMP_PAGES = 20;
+const EMPTY: Message[] = [];
+
+/**
+ * Outcome of loading the history around a message
+ * - found: the message is in the room's list
+ * - missing: the room does not have it (deleted)
+ * - too-old: the server did not load the history around it, and it is
+ *   further back than MAX_JUMP_PAGES pages
+ * - failed: a request failed
+ */
+export type LoadAroundResult = 'found' | 'missing' | 'too-old' | 'failed';
+
+/**
+ * Hook return type
+ */
+export interface UseRoomMessagesReturn {
+  /** Messages of the room, oldest first */
+  messages: Message[];
+
+  /** Whether a request for this room is in flight */
+  loading: boolean;
+
+  /** Whether the newest page has been fetched (or failed) since the room was opened */
+  revalidated: boolean;
+
+  /** Whether older messages can be loaded */
+  hasMore: boolean;
+
+  /** Whether newer messages can be loaded (a window of older history is shown) */
+  hasNewer: boolean;
+
+  /** Last load error for this room */
+  error: string | null;
+
+  /** Load the next page of older messages */
+  loadMore: () => void;
+
+  /** Load the next page of newer messages */
+  loadNewer: () => void;
+
+  /** Load the newest page again (leaving a window of older history) */
+  loadLatest: () => void;
+
+  /** Load the history around a message */
+  loadAround: (messageId: number) => Promise<LoadAroundResult>;
+}
+
+/**
+ * Fetch a page of a room's history into the store
+ * Without a cursor this is the newest page (`replace` drops a window of
+ * older history for it); otherwise the page before or after a message, or
+ * the window around it.
+ */
+async function fetchRoomPage(roomId: number, cursor?: MessageCursor, replace: boolean = false): Promise<void> {
+  const response = await getMessages(roomId, 1, PAGE_SIZE, cursor);
+
+  // Backend returns messages in DESC order (newest first), reverse for display
+  const messages = [...response.messages].reverse();
+
+  if (!cursor) {
+    messageStore.setLatestMessages(roomId, messages, hasOlderMessages(response), { replace });
+  } else if ('before' in cursor) {
+    messageStore.addOlderMessages(roomId, messages, hasOlderMessages(response));
+  } else if ('after' in cursor) {
+    messageStore.addNewerMessages(roomId, messages, hasNewerMessages(response));
+  } else {
+    messageStore.setMessagesAround(roomId, messages, hasOlderMessages(response), hasNewerMessages(response));
+  }
+}
+
+/**
+ * Hook for a room's messages
+ *
+ * Rooms already in the store render immediately and the newest page is
+ * refetched in the background; rooms seen for the first time show a
+ * loading state until the first page arrives.
+ *
+ * @param roomId - Room ID (null for none)
+ * @returns Messages, loading state and pagination
+ */
+export function useRoomMessages(roomId: number | null): UseRoomMessagesReturn {
+  const messages = useSyncExternalStore(
+    messageStore.subscribe,
+    () => (roomId === null ? EMPTY : messageStore.getRoomMessages(roomId)),
+    () => EMPTY
+  );
+
+  const roomState: RoomMessagesState | undefined = useSyncExternalStore(
+    messageStore.subscribe,
+    () => (roomId === null ? undefined : messageStore.getRoomState(roomId)),
+    () => undefined
+  );
+
+  // Requests and errors are tracked per room so a slow response for a room
+  // we already left does not show up in the current one
+  const [request, setRequest] = useState<{ roomId: number; kind: 'latest' | 'older' | 'newer' } | null>(null);
+  const [errorState, setErrorState] = useState<{ roomId: number; message: string } | null>(null);
+  const [revalidatedRoomId, setRevalidatedRoomId] = useState<number | null>(null);
+
+  const finishRequest = useCallback((forRoomId: number) => {
+    setRequest(current => (current?.roomId === forRoomId ? null : current));
+  }, []);
+
+  /**
+   * Load (or revalidate) the newest page when the room changes
+   */
+  useEffect(() => {
+    if (roomId === null) return;
+
+    let cancelled = false;
+    setRequest({ roomId, kind: 'latest' });
+    setErrorState(null);
+
+    fetchRoomPage(roomId)
+      .catch(err => {
+        console.error('Failed to load messages:', err);
+        setErrorState({ roomId, message: 'Failed to load messages' });
+      })
+      .finally(() => {
+        finishRequest(roomId);
+        if (!cancelled) setRevalidatedRoomId(roomId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, finishRequest]);
+
+  const inFlight = roomId !== null && request?.roomId === roomId ? request.kind : null;
+
+  /**
+   * Load messages older than the oldest cached one
+   */
+  const loadMore = useCallback(() => {
+    if (roomId === null || inFlight || !roomState?.hasMore) return;
+
+    const oldestId = roomState.ids[0];
+    if (oldestId === undefined) return;
+
+    setRequest({ roomId, kind: 'older' });
+    fetchRoomPage(roomId, { before: oldestId })
+      .catch(err => {
+        console.error('Failed to load messages:', err);
+        setErrorState({ roomId, message: 'Failed to load messages' });
+      })
+      .finally(() => finishRequest(roomId));
+  }, [roomId, inFlight, roomState, finishRequest]);
+
+  /**
+   * Load messages newer than the newest cached one (paging forward from a
+   * window of older history)
+   */
+  const loadNewer = useCallback(() => {
+    if (roomId === null || inFlight || !roomState?.hasNewer) return;
+
+    const newestId = roomState.ids[roomState.ids.length - 1];
+    if (newestId === undefined) return;
+
+    setRequest({ roomId, kind: 'newer' });
+    fetchRoomPage(roomId, { after: newestId })
+      .catch(err => {
+        console.error('Failed to load messages:', err);
+        setErrorState({ roomId, message: 'Failed to load messages' });
+      })
+      .finally(() => finishRequest(roomId));
+  }, [roomId, inFlight, roomState, finishRequest]);
+
+  /**
+   * Load the newest page again, replacing a window of older history
+   */
+  const loadLatest = useCallback(() => {
+    if (roomId === null || inFlight === 'latest') return;
+
+    setRequest({ roomId, kind: 'latest' });
+    fetchRoomPage(roomId, undefined, true)
+      .catch(err => {
+        console.error('Failed to load messages:', err);
+        setErrorState({ roomId, message: 'Failed to load messages' });
+      })
+      .finally(() => finishRequest(roomId));
+  }, [roomId, inFlight, finishRequest]);
+
+  /**
+   * Load the history around `messageId` into the store (the list can then
+   * scroll to it), and page outward from there if the window missed it
+   */
+  const loadAround = useCallback(async (messageId: number): Promise<LoadAroundResult> => {
+    if (roomId === null) return 'missing';
+
+    const isLoaded = () => messageStore.getRoomState(roomId)?.ids.includes(messageId) ?? false;
+    if (isLoaded()) return 'found';
+
+    setRequest({ roomId, kind: 'older' });
+    try {
+      try {
+        await fetchRoomPage(roomId, { around: messageId });
+      } catch (err) {
+        // Not in the room (deleted, or never existed)
+        if (axios.isAxiosError(err) && err.response?.status === 404) return 'missing';
+        throw err;
+      }
+
+      // A backend without `around` support answers with the newest page instead
+      for (let page = 0; page < MAX_JUMP_PAGES && !isLoaded(); page++) {
+        const state = messageStore.getRoomState(roomId);
+        const oldestId = state?.ids[0];
+        if (!state?.hasMore || oldestId === undefined || oldestId < messageId) break;
+
+        await fetchRoomPage(roomId, { before: oldestId });
+      }
+      if (isLoaded()) return 'found';
+
+      // Gave up with history between the loaded messages and the target left unloaded
+      const state = messageStore.getRoomState(roomId);
+      const oldestId = state?.ids[0];
+      return state?.hasMore && oldestId !== undefined && oldestId > messageId ? 'too-old' : 'missing';
+    } catch (err) {
+      console.error('Failed to load messages:', err);
+      setErrorState({ roomId, message: 'Failed to load messages' });
+      return 'failed';
+    } finally {
+      finishRequest(roomId);
+    }
+  }, [roomId, finishRequest]);
+
+  return {
+    messages,
+    // Cached rooms revalidate silently; only first loads and older pages show as loading
+    loading: inFlight === 'older' || (inFlight === 'latest' && !roomState),
+    revalidated: roomId !== null && revalidatedRoomId === roomId,
+    hasMore: roomState?.hasMore ?? false,
+    hasNewer: roomState?.hasNewer ?? false,
+    error: errorState?.roomId === roomId ? errorState.message : null,
+    loadMore,
+    loadNewer,
+    loadLatest,
+    loadAround
+  };
+}
+
+/**
+ * Thread hook return type
+ */
+export interface UseThreadReturn {
+  /** Root message (undefined while loading, or once deleted) */
+  root: Message | undefined;
+
+  /** Replies, oldest first */
+  replies: Message[];
+
+  /** Whether the thread is being loaded for the first time */
+  loading: boolean;
+
+  /** Load error */
+  error: string | null;
+}
+
+/**
+ * Hook for a thread: a message and its direct replies
+ *
+ * Loads the thread once, then follows the store, so replies, edits and
+ * deletions from WebSocket (see useMessageStoreSync) show up live.
+ *
+ * @param rootId - ID of the root message (null for none)
+ * @returns Root message, replies and loading state
+ */
+export function useThread(rootId: number | null): UseThreadReturn {
+  const root = useSyncExternalStore(
+    messageStore.subscribe,
+    () => (rootId === null ? undefined : messageStore.getMessage(rootId)),
+    () => undefined
+  );
+
+  const replies = useSyncExternalStore(
+    messageStore.subscribe,
+    () => (rootId === null ? EMPTY : messageStore.getThreadReplies(rootId)),
+    () => EMPTY
+  );
+
+  const loaded = useSyncExternalStore(
+    messageStore.subscribe,
+    () => rootId !== null && messageStore.isThreadLoaded(rootId),
+    () => false
+  );
+
+  const [errorState, setErrorState] = useState<{ rootId: number; message: string } | null>(null);
+
+  /**
+   * Load (or refresh) the thread when it is opened
+   */
+  useEffect(() => {
+    if (rootId === null) return;
+
+    let cancelled = false;
+    setErrorState(null);
+
+    getThread(rootId)
+      .then(({ root, replies }) => messageStore.setThread(root, replies))
+      .catch(err => {
+        console.error('Failed to load thread:', err);
+        if (!cancelled) {
+          setErrorState({ rootId, message: err.response?.data?.error || 'Failed to load thread' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootId]);
+
+  const error = errorState?.rootId === rootId ? errorState.message : null;
+
+  return {
+    root,
+    replies,
+    loading: rootId !== null && !loaded && !error,
+    error
+  };
+}
+
+/**
+ * Keep the message store in sync with WebSocket events
+ * Call once, next to the component that owns the connection.
+ *
+ * @param client - Shared WebSocket client
+ */
+export function useMessageStoreSync(client: WebSocketClient | null): void {
+  useEffect(() => {
+    if (!client) return;
+
+    const handleMessage = (msg: WSInboundFrameOf<'message'>) => {
+      messageStore.addMessages([msg.content]);
+    };
+
+    const handleMessageUpdated = (msg: WSInboundFrameOf<'message_updated'>) => {
+      messageStore.updateMessage(msg.content);
+    };
+
+    const handleMessageDeleted = (msg: WSInboundFrameOf<'message_deleted'>) => {
+      messageStore.removeMessage(msg.content.id);
+    };
+
+    const handleReaction = (msg: WSInboundFrameOf<'reaction_added' | 'reaction_removed'>) => {
+      const { message_id, emoji, user_id, username } = msg.content;
+      messageStore.applyReaction(message_id, emoji, { id: user_id, username }, msg.type === 'reaction_added');
+    };
+
+    client.on('message', handleMessage);
+    client.on('message_updated', handleMessageUpdated);
+    client.on('message_deleted', handleMessageDeleted);
+    client.on('reaction_added', handleReaction);
+    client.on('reaction_removed', handleReaction);
+
+    return () => {
+      client.off('message', handleMessage);
+      client.off('message_updated', handleMessageUpdated);
+      client.off('message_deleted', handleMessageDeleted);
+      client.off('reaction_added', handleReaction);
+      client.off('reaction_removed', handleReaction);
+    };
+  }, [client]);
+}
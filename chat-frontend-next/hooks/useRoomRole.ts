@@ -0,0 +1,50 @@
+/**
+ * React Hook for the Current User's Room Role
+ *
+ * Loads the room's participants (as in RoomMembersManager) and returns the
+ * current user's role in it, e.g. to show admin-only message actions.
+ *
+ * @example
+ * ```tsx
+ * const role = useRoomRole(roomId, user.id);
+ * const canPin = role === 'admin' || role === 'owner';
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getRoomParticipants } from '../lib/api/rooms';
+
+/**
+ * React Hook for the Current User's Room Role
+ *
+ * @param roomId - Room ID (null for none)
+ * @param userId - Current user's ID
+ * @returns Lowercase role ('owner', 'admin', 'member'), or null while loading
+ */
+export function useRoomRole(roomId: number | null, userId: number | null): string | null {
+  const [roleState, setRoleState] = useState<{ roomId: number; role: string | null } | null>(null);
+
+  useEffect(() => {
+    if (roomId === null || userId === null) return;
+
+    let cancelled = false;
+
+    getRoomParticipants(roomId)
+      .then(participants => {
+        if (cancelled) return;
+        const role = participants.find(p => p.id === userId)?.role.toLowerCase() ?? null;
+        setRoleState({ roomId, role });
+      })
+      .catch(err => {
+        console.error('Failed to load room role:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, userId]);
+
+  return roleState?.roomId === roomId ? roleState.role : null;
+}
@@ -0,0 +1,50 @@
+/**
+ * React Hook for Chat Settings
+ *
+ * Reads the shared settings store and re-renders when a setting changes.
+ *
+ * @example
+ * ```tsx
+ * const { settings, updateSetting } = useSettings();
+ *
+ * <Switch
+ *   checked={settings.autoDownload}
+ *   onCheckedChange={(checked) => updateSetting('autoDownload', checked)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { settingsStore, getServerSettings, ChatSettings } from '../lib/settings';
+
+/**
+ * Hook return type
+ */
+export interface UseSettingsReturn {
+  /** Current settings */
+  settings: ChatSettings;
+
+  /** Change a single setting */
+  updateSetting: <K extends keyof ChatSettings>(key: K, value: ChatSettings[K]) => void;
+}
+
+/**
+ * React Hook for Chat Settings
+ *
+ * @returns Current settings and a setter
+ */
+export function useSettings(): UseSettingsReturn {
+  const settings = useSyncExternalStore(
+    settingsStore.subscribe,
+    settingsStore.getSettings,
+    getServerSettings
+  );
+
+  const updateSetting = useCallback(<K extends keyof ChatSettings>(key: K, value: ChatSettings[K]) => {
+    settingsStore.update({ [key]: value } as Partial<ChatSettings>);
+  }, []);
+
+  return { settings, updateSetting };
+}
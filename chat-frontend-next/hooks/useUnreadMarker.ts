@@ -0,0 +1,106 @@
+/**
+ * React Hook for the Unread Marker
+ *
+ * Where the user stopped reading a room, for the "New messages" divider:
+ * - The room's read state is captured when the room is opened, before it
+ *   is marked read, so the divider stays put while the user catches up
+ * - Resolved to a message once the newest page has been fetched
+ * - Uses the room's last-read message when the backend provides it,
+ *   otherwise counts back `unread_count` messages from the newest one
+ * - The user's own messages never count as unread
+ *
+ * @example
+ * ```tsx
+ * const { messages, revalidated } = useRoomMessages(roomId);
+ * const { firstUnreadId, resolved } = useUnreadMarker(roomId, readState, messages, revalidated, user.id);
+ *
+ * <MessageList unreadMessageId={firstUnreadId} onReachBottom={resolved ? markRead : undefined} />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Message } from '../lib/types';
+
+/**
+ * A room's read state, as listed in the sidebar
+ */
+export interface RoomReadState {
+  /** Unread messages */
+  unreadCount: number;
+
+  /** Latest message the user has read (if the backend provides it) */
+  lastReadMessageId?: number | null;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseUnreadMarkerReturn {
+  /** First message the user had not read when the room was opened (null for none) */
+  firstUnreadId: number | null;
+
+  /** Whether the marker is known yet (mark the room read only after this) */
+  resolved: boolean;
+}
+
+/**
+ * First unread message of a room, from its read state
+ */
+function findFirstUnread(messages: Message[], readState: RoomReadState, currentUserId: number): number | null {
+  const others = messages.filter(message => message.user_id !== currentUserId);
+
+  if (readState.lastReadMessageId !== undefined && readState.lastReadMessageId !== null) {
+    const lastReadId = readState.lastReadMessageId;
+    return others.find(message => message.id > lastReadId)?.id ?? null;
+  }
+
+  if (readState.unreadCount <= 0 || others.length === 0) return null;
+  return others[Math.max(0, others.length - readState.unreadCount)].id;
+}
+
+/**
+ * Hook for the first unread message of a room
+ *
+ * @param roomId - Room ID (null for none)
+ * @param readState - The room's current read state (null while the room list is loading)
+ * @param messages - Messages of the room, oldest first
+ * @param revalidated - Whether the newest page has been fetched since the room was opened
+ * @param currentUserId - Current user's ID
+ * @returns First unread message, and whether it is known yet
+ */
+export function useUnreadMarker(
+  roomId: number | null,
+  readState: RoomReadState | null,
+  messages: Message[],
+  revalidated: boolean,
+  currentUserId: number
+): UseUnreadMarkerReturn {
+  // Read state as it was when the room was opened (later updates come from
+  // the user reading the room)
+  const capturedRef = useRef<{ roomId: number; readState: RoomReadState } | null>(null);
+  if (roomId !== null && readState && capturedRef.current?.roomId !== roomId) {
+    capturedRef.current = { roomId, readState };
+  }
+  const capturedRoomId = capturedRef.current?.roomId ?? null;
+
+  const [marker, setMarker] = useState<{ roomId: number; messageId: number | null } | null>(null);
+  const resolvedRoomId = marker?.roomId ?? null;
+
+  /**
+   * Resolve the marker once per opened room
+   */
+  useEffect(() => {
+    const captured = capturedRef.current;
+    if (roomId === null || !revalidated || captured?.roomId !== roomId || resolvedRoomId === roomId) return;
+
+    setMarker({ roomId, messageId: findFirstUnread(messages, captured.readState, currentUserId) });
+  }, [roomId, capturedRoomId, revalidated, messages, resolvedRoomId, currentUserId]);
+
+  const resolved = roomId !== null && resolvedRoomId === roomId;
+  return {
+    firstUnreadId: resolved && marker ? marker.messageId : null,
+    resolved
+  };
+}
@@ -0,0 +1,524 @@
+/**
+ * React Hook for Windowed (Virtualized) Lists
+ *
+ * Renders only the rows near the visible part of a scroll container:
+ * - Variable row heights: rows start at an estimate and are measured once rendered
+ * - Heights are kept per row key, so prepending rows does not invalidate them
+ * - Scroll anchoring: the row at the top of the view stays in place when rows
+ *   are inserted or resize above it (prepended pages, first measurements)
+ * - A list scrolled to the bottom stays at the bottom while rows are measured
+ *   (unless turned off, e.g. while rows below are still being loaded)
+ * - Scrolling to a row by key, even one that is not rendered yet
+ * - Tracks whether the list is scrolled to the bottom
+ * - Re-renders on scroll only when the rows in view change; row offsets are
+ *   cached until a row is measured at a new height or the rows change
+ *
+ * The rendered rows sit between two spacers that stand in for the rows that
+ * are not rendered, so the rows themselves stay in normal document flow.
+ *
+ * @example
+ * ```tsx
+ * const viewportRef = useRef<HTMLDivElement>(null);
+ * const { virtualRows, paddingTop, paddingBottom, measureRow } = useVirtualList({
+ *   count: rows.length,
+ *   getKey: (index) => rows[index].key,
+ *   estimateSize: () => 64,
+ *   viewportRef
+ * });
+ *
+ * <div ref={viewportRef} className="overflow-auto">
+ *   <div style={{ height: paddingTop }} />
+ *   {virtualRows.map(({ index, key }) => (
+ *     <div key={key} data-key={key} ref={measureRow}>{render(rows[index])}</div>
+ *   ))}
+ *   <div style={{ height: paddingBottom }} />
+ * </div>
+ * ```
+ */
+
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, RefObject } from 'react';
+
+// Distance from the bottom (px) under which the list counts as scrolled to the bottom
+const AT_BOTTOM_THRESHOLD = 4;
+
+// Frames spent correcting the position of a row scrolled to by key
+const SCROLL_TO_KEY_ATTEMPTS = 5;
+
+// Space left above a row scrolled to the top of the view (px)
+const SCROLL_TO_START_MARGIN = 48;
+
+/**
+ * Virtual list options
+ */
+export interface UseVirtualListOptions {
+  /** Number of rows */
+  count: number;
+
+  /** Stable key of a row (used to remember its measured height); a new function means new rows */
+  getKey: (index: number) => string;
+
+  /** Height estimate for a row that has not been measured yet (px); keep it stable like getKey */
+  estimateSize: (index: number) => number;
+
+  /** Scroll container */
+  viewportRef: RefObject<HTMLDivElement | null>;
+
+  /** Extra height rendered above and below the visible area (px, default: 600) */
+  overscan?: number;
+
+  /** Keep a list scrolled to the bottom at the bottom as rows are added or measured (default: true) */
+  followBottom?: boolean;
+}
+
+/**
+ * A row to render
+ */
+export interface VirtualRow {
+  index: number;
+  key: string;
+  /** Offset of the row from the top of the list (px) */
+  start: number;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseVirtualListReturn {
+  /** Rows to render, in order */
+  virtualRows: VirtualRow[];
+
+  /** Height of the spacer above the rendered rows (px) */
+  paddingTop: number;
+
+  /** Height of the spacer below the rendered rows (px) */
+  paddingBottom: number;
+
+  /** Total height of all rows (px) */
+  totalSize: number;
+
+  /** Index of the row at the top of the view */
+  firstVisibleIndex: number;
+
+  /** Index of the row at the bottom of the view (-1 without rows) */
+  lastVisibleIndex: number;
+
+  /** Ref callback for rendered rows (they need a `data-key` attribute) */
+  measureRow: (element: HTMLElement | null) => void;
+
+  /** Index of the row at a scroll offset */
+  getIndexAtOffset: (offset: number) => number;
+
+  /** Scroll the container, re-rendering the matching rows before the next paint */
+  scrollToOffset: (top: number, behavior?: ScrollBehavior) => void;
+
+  /** Scroll a row to the middle (or near the top) of the view; returns false for an unknown key */
+  scrollToKey: (key: string, align?: 'center' | 'start') => boolean;
+
+  /** Whether the container is scrolled to the bottom (as of the last render) */
+  atBottom: boolean;
+
+  /** Whether the container is scrolled to the bottom right now */
+  isAtBottom: () => boolean;
+}
+
+/**
+ * Row at the top of the view, and its offset when it was recorded
+ */
+interface ScrollAnchor {
+  key: string;
+  start: number;
+}
+
+/**
+ * Row offsets for one set of rows and measured heights
+ */
+interface RowLayout {
+  count: number;
+  getKey: (index: number) => string;
+  estimateSize: (index: number) => number;
+  sizesVersion: number;
+  /** Offset of each row (offsets[count] is the total height) */
+  offsets: number[];
+  indexByKey: Map<string, number>;
+}
+
+/**
+ * Rendered rows (with overscan) and rows in view
+ */
+interface RowRange {
+  first: number;
+  last: number;
+  firstVisible: number;
+  lastVisible: number;
+}
+
+function sameRange(a: RowRange | null, b: RowRange): boolean {
+  return !!a &&
+    a.first === b.first &&
+    a.last === b.last &&
+    a.firstVisible === b.firstVisible &&
+    a.lastVisible === b.lastVisible;
+}
+
+/**
+ * Find the last index whose offset is at most `value`
+ */
+function findIndex(offsets: number[], value: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= value) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * React Hook for Windowed (Virtualized) Lists
+ *
+ * @param options - Virtual list options
+ * @returns Rows to render, spacer sizes and scroll helpers
+ */
+export function useVirtualList({
+  count,
+  getKey,
+  estimateSize,
+  viewportRef,
+  overscan = 600,
+  followBottom = true,
+}: UseVirtualListOptions): UseVirtualListReturn {
+  const [atBottom, setAtBottom] = useState(true);
+  // Measured heights live in a ref; this re-renders when they change
+  const [, setMeasureVersion] = useState(0);
+  // The scroll position lives in refs; this re-renders when the rows in view change
+  const [, setRangeVersion] = useState(0);
+
+  const scrollTopRef = useRef(0);
+  const viewportHeightRef = useRef(0);
+  const renderedRangeRef = useRef<RowRange | null>(null);
+  const sizesRef = useRef<Map<string, number>>(new Map());
+  // Bumped whenever a measured height changes, invalidating the cached layout
+  const sizesVersionRef = useRef(0);
+  const layoutRef = useRef<RowLayout | null>(null);
+  const rowsRef = useRef<Map<string, HTMLElement>>(new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const atBottomRef = useRef(true);
+
+  // Latest row accessors for the measurement callbacks
+  const rowAccessRef = useRef({ count, getKey, estimateSize });
+  rowAccessRef.current = { count, getKey, estimateSize };
+  const followBottomRef = useRef(followBottom);
+  followBottomRef.current = followBottom;
+
+  /**
+   * Row offsets with every height known so far
+   * Recalculated only when the rows change or a row is measured at a new height.
+   */
+  const getLayout = useCallback((): RowLayout => {
+    const { count, getKey, estimateSize } = rowAccessRef.current;
+    const cached = layoutRef.current;
+    if (
+      cached &&
+      cached.count === count &&
+      cached.getKey === getKey &&
+      cached.estimateSize === estimateSize &&
+      cached.sizesVersion === sizesVersionRef.current
+    ) {
+      return cached;
+    }
+
+    const offsets = new Array<number>(count + 1);
+    const indexByKey = new Map<string, number>();
+    offsets[0] = 0;
+    for (let i = 0; i < count; i++) {
+      const key = getKey(i);
+      indexByKey.set(key, i);
+      offsets[i + 1] = offsets[i] + (sizesRef.current.get(key) ?? estimateSize(i));
+    }
+
+    const layout = { count, getKey, estimateSize, sizesVersion: sizesVersionRef.current, offsets, indexByKey };
+    layoutRef.current = layout;
+    return layout;
+  }, []);
+
+  /**
+   * Rows to render and rows in view at the current scroll position
+   */
+  const getRange = useCallback((): RowRange => {
+    const { count, offsets } = getLayout();
+    if (count === 0) return { first: 0, last: -1, firstVisible: 0, lastVisible: -1 };
+
+    const indexAt = (offset: number) => Math.min(findIndex(offsets, offset), count - 1);
+    const top = scrollTopRef.current;
+    const bottom = top + viewportHeightRef.current;
+
+    return {
+      first: indexAt(Math.max(0, top - overscan)),
+      last: indexAt(bottom + overscan),
+      firstVisible: indexAt(top),
+      lastVisible: indexAt(bottom),
+    };
+  }, [getLayout, overscan]);
+
+  const { offsets } = getLayout();
+  const totalSize = offsets[count];
+  const range = getRange();
+  renderedRangeRef.current = range;
+
+  const getIndexAtOffset = (offset: number) =>
+    count === 0 ? 0 : Math.min(findIndex(offsets, offset), count - 1);
+
+  const virtualRows: VirtualRow[] = [];
+  for (let i = range.first; i <= range.last; i++) {
+    virtualRows.push({ index: i, key: getKey(i), start: offsets[i] });
+  }
+
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0
+    ? totalSize - offsets[virtualRows[virtualRows.length - 1].index + 1]
+    : 0;
+
+  /**
+   * Current offset of a row, with every height known so far
+   */
+  const getRowStart = useCallback((rowKey: string): number | null => {
+    const { offsets, indexByKey } = getLayout();
+    const index = indexByKey.get(rowKey);
+    return index === undefined ? null : offsets[index];
+  }, [getLayout]);
+
+  /**
+   * Remember which rendered row is at the top of the view
+   */
+  const recordAnchor = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const viewportTop = viewport.getBoundingClientRect().top;
+    let anchorKey: string | null = null;
+    let anchorTop = Infinity;
+
+    rowsRef.current.forEach((element, key) => {
+      if (!element.isConnected) return;
+
+      const rect = element.getBoundingClientRect();
+      if (rect.bottom > viewportTop && rect.top < anchorTop) {
+        anchorKey = key;
+        anchorTop = rect.top;
+      }
+    });
+
+    const start = anchorKey === null ? null : getRowStart(anchorKey);
+    anchorRef.current = anchorKey === null || start === null ? null : { key: anchorKey, start };
+  }, [viewportRef, getRowStart]);
+
+  const isAtBottom = useCallback((): boolean => {
+    const viewport = viewportRef.current;
+    return !viewport || viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <= AT_BOTTOM_THRESHOLD;
+  }, [viewportRef]);
+
+  const syncScroll = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    atBottomRef.current = isAtBottom();
+    setAtBottom(atBottomRef.current);
+    recordAnchor();
+    scrollTopRef.current = viewport.scrollTop;
+    viewportHeightRef.current = viewport.clientHeight;
+
+    if (!sameRange(renderedRangeRef.current, getRange())) {
+      setRangeVersion(version => version + 1);
+    }
+  }, [viewportRef, isAtBottom, recordAnchor, getRange]);
+
+  /**
+   * Record the heights of rendered rows and keep the view steady:
+   * a list at the bottom stays at the bottom, otherwise the anchor row
+   * stays where it was (rows were inserted or resized above it)
+   */
+  const measureRows = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    let changed = false;
+    rowsRef.current.forEach((element, key) => {
+      // Unmounted rows keep their last height
+      if (!element.isConnected) {
+        observerRef.current?.unobserve(element);
+        rowsRef.current.delete(key);
+        return;
+      }
+
+      const height = element.getBoundingClientRect().height;
+      if (sizesRef.current.get(key) !== height) {
+        sizesRef.current.set(key, height);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      sizesVersionRef.current++;
+    }
+
+    const anchor = anchorRef.current;
+    let shift = 0;
+
+    if (atBottomRef.current && followBottomRef.current) {
+      if (changed) {
+        shift = viewport.scrollHeight - viewport.clientHeight - viewport.scrollTop;
+      }
+    } else if (anchor) {
+      // Relative, so it never undoes scrolling the user did since the anchor was recorded
+      const start = getRowStart(anchor.key);
+      shift = start === null ? 0 : start - anchor.start;
+    }
+
+    if (Math.abs(shift) > 0.5) {
+      viewport.scrollTop += shift;
+    }
+
+    if (changed) {
+      setMeasureVersion(version => version + 1);
+    }
+    if (changed || shift !== 0) {
+      syncScroll();
+    }
+  }, [viewportRef, getRowStart, syncScroll]);
+
+  /**
+   * Ref callback for rows: tracks and observes the element
+   */
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    const key = element.dataset.key;
+    if (!key) return;
+
+    const existing = rowsRef.current.get(key);
+    if (existing === element) return;
+    if (existing) observerRef.current?.unobserve(existing);
+
+    rowsRef.current.set(key, element);
+    observerRef.current?.observe(element);
+  }, []);
+
+  const scrollToOffset = useCallback((top: number, behavior: ScrollBehavior = 'auto') => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    if (behavior === 'smooth') {
+      // Rows follow via scroll events while the animation runs
+      viewport.scrollTo({ top, behavior });
+      return;
+    }
+
+    viewport.scrollTop = top;
+    syncScroll();
+  }, [viewportRef, syncScroll]);
+
+  /**
+   * Scroll to the row's offset (estimated if it was never rendered), then
+   * correct by its measured position once it is rendered there
+   */
+  const scrollToKey = useCallback((key: string, align: 'center' | 'start' = 'center'): boolean => {
+    const viewport = viewportRef.current;
+    const start = getRowStart(key);
+    if (!viewport || start === null) return false;
+
+    const targetOffset = (rowTop: number, rowHeight: number) =>
+      Math.min(
+        Math.max(
+          0,
+          align === 'start'
+            ? rowTop - SCROLL_TO_START_MARGIN
+            : rowTop - (viewport.clientHeight - rowHeight) / 2
+        ),
+        viewport.scrollHeight - viewport.clientHeight
+      );
+
+    viewport.scrollTop = targetOffset(start, sizesRef.current.get(key) ?? 0);
+    syncScroll();
+
+    // Estimates above the row can be off, so correct until it sits in place
+    let attempts = 0;
+    const correct = () => {
+      const element = rowsRef.current.get(key);
+      if (element?.isConnected) {
+        const viewportRect = viewport.getBoundingClientRect();
+        const rect = element.getBoundingClientRect();
+        const target = targetOffset(viewport.scrollTop + rect.top - viewportRect.top, rect.height);
+
+        if (Math.abs(target - viewport.scrollTop) <= 1) return;
+        viewport.scrollTop = target;
+        syncScroll();
+      }
+      if (++attempts < SCROLL_TO_KEY_ATTEMPTS) requestAnimationFrame(correct);
+    };
+    requestAnimationFrame(correct);
+    return true;
+  }, [viewportRef, getRowStart, syncScroll]);
+
+  /**
+   * Watch rows for size changes (images loading, edits, window resizes)
+   */
+  useEffect(() => {
+    const observer = new ResizeObserver(() => measureRows());
+    observerRef.current = observer;
+    rowsRef.current.forEach(element => observer.observe(element));
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [measureRows]);
+
+  /**
+   * Follow the scroll position and viewport size
+   */
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    syncScroll();
+    viewport.addEventListener('scroll', syncScroll, { passive: true });
+
+    const observer = new ResizeObserver(() => syncScroll());
+    observer.observe(viewport);
+
+    return () => {
+      viewport.removeEventListener('scroll', syncScroll);
+      observer.disconnect();
+    };
+  }, [viewportRef, syncScroll]);
+
+  /**
+   * Measure newly rendered rows before paint
+   */
+  useLayoutEffect(() => {
+    measureRows();
+  });
+
+  return {
+    virtualRows,
+    paddingTop,
+    paddingBottom,
+    totalSize,
+    firstVisibleIndex: range.firstVisible,
+    lastVisibleIndex: range.lastVisible,
+    measureRow,
+    getIndexAtOffset,
+    scrollToOffset,
+    scrollToKey,
+    atBottom,
+    isAtBottom,
+  };
+}
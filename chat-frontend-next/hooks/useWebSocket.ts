@@ -2,18 +2,24 @@
  * React Hook for WebSocket Integration
  *
  * This hook provides easy WebSocket integration in React components with:
+ * - One shared connection for every hook (ref-counted, see acquireWebSocketClient)
  * - Automatic connection/disconnection on mount/unmount
  * - Room management
- * - Message subscriptions
+ * - Edit and deletion callbacks
  * - Typing indicators
  * - Connection status
  *
+ * Messages themselves live in the message store (see useRoomMessages and
+ * useMessageStoreSync).
+ *
  * @example
  * ```tsx
  * import { useWebSocket } from '@/hooks/useWebSocket';
  *
  * function ChatRoom({ roomId }: { roomId: number }) {
- *   const { messages, sendTyping, isConnected } = useWebSocket(roomId);
+ *   const { client, isConnected } = useWebSocket(roomId);
+ *   useMessageStoreSync(client);
+ *   const { messages } = useRoomMessages(roomId);
  *
  *   return (
  *     <div>
@@ -27,10 +33,17 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { WebSocketClient, WSMessage } from '../lib/websocket';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import {
+  WebSocketClient,
+  WSInboundFrameOf,
+  MessageDeletedPayload,
+  acquireWebSocketClient,
+  releaseWebSocketClient
+} from '../lib/websocket';
 import { Message } from '../lib/api/messages';
 import { WS_BASE_URL } from '../lib/api';
+import { presenceStore, getServerOnlineUserIds } from '../lib/presence';
 
 /**
  * WebSocket hook options
@@ -62,15 +75,28 @@ export interface UseWebSocketOptions {
    * Callback for errors
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Callback when the connection is re-established after a drop
+   * Receives the rooms that were rejoined; messages sent in between were missed.
+   */
+  onReconnect?: (rooms: number[]) => void;
+
+  /**
+   * Callback when a message is edited by anyone (`message_updated` event)
+   */
+  onMessageUpdated?: (message: Message) => void;
+
+  /**
+   * Callback when a message is deleted by anyone (`message_deleted` event)
+   */
+  onMessageDeleted?: (deleted: MessageDeletedPayload) => void;
 }
 
 /**
  * Hook return type
  */
 export interface UseWebSocketReturn {
-  /** Array of messages received via WebSocket */
-  messages: Message[];
-
   /** Whether WebSocket is currently connected */
   isConnected: boolean;
 
@@ -83,17 +109,66 @@ export interface UseWebSocketReturn {
   /** Manually trigger reconnection */
   reconnect: () => void;
 
-  /** Clear all received messages */
-  clearMessages: () => void;
-
   /** WebSocket client instance (advanced usage) */
   client: WebSocketClient | null;
 }
 
+/**
+ * Subscribe to the shared WebSocket client for the stored token
+ *
+ * Acquires the client on mount and releases it on unmount, so the
+ * connection stays open while at least one component uses it.
+ *
+ * @param baseURL - Base URL of the backend server
+ * @returns The shared client, or null before mount / without a token
+ */
+function useSharedClient(baseURL: string = WS_BASE_URL): WebSocketClient | null {
+  const [client, setClient] = useState<WebSocketClient | null>(null);
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!token) {
+      console.warn('No token found, WebSocket not initialized');
+      return;
+    }
+
+    const shared = acquireWebSocketClient(baseURL, token);
+    setClient(shared);
+
+    return () => {
+      setClient(null);
+      releaseWebSocketClient(shared);
+    };
+  }, [baseURL]);
+
+  return client;
+}
+
+/**
+ * Join a room on the shared client for as long as the caller is mounted
+ *
+ * Joins are ref-counted by the client, so several hooks can join the
+ * same room without sending duplicate join/leave frames.
+ *
+ * @param client - Shared client
+ * @param roomId - Room to join, or null for none
+ */
+function useRoomSubscription(client: WebSocketClient | null, roomId: number | null): void {
+  useEffect(() => {
+    if (!client || roomId === null) return;
+
+    client.joinRoom(roomId);
+
+    return () => {
+      client.leaveRoom(roomId);
+    };
+  }, [client, roomId]);
+}
+
 /**
  * React Hook for WebSocket Integration
  *
- * Manages WebSocket connection, room subscriptions, and message handling
+ * Manages WebSocket connection, room subscriptions and connection state
  *
  * @param roomId - Room ID to join (optional, can be null if not in a room)
  * @param options - WebSocket options
@@ -102,7 +177,8 @@ export interface UseWebSocketReturn {
  * @example
  * ```tsx
  * function ChatRoom({ roomId }: { roomId: number }) {
- *   const { messages, sendTyping, isConnected } = useWebSocket(roomId);
+ *   const { client, sendTyping, isConnected } = useWebSocket(roomId);
+ *   const { messages } = useRoomMessages(roomId);
  *
  *   const handleTyping = () => {
  *     sendTyping(true);
@@ -127,144 +203,103 @@ export function useWebSocket(
 ): UseWebSocketReturn {
   const {
     baseURL = WS_BASE_URL,
-    autoReconnect = true,
     onConnect,
     onDisconnect,
-    onError
+    onError,
+    onReconnect,
+    onMessageUpdated,
+    onMessageDeleted
   } = options;
 
-  const [messages, setMessages] = useState<Message[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
-  const clientRef = useRef<WebSocketClient | null>(null);
-  const previousRoomRef = useRef<number | null>(null);
+  const client = useSharedClient(baseURL);
+
+  useRoomSubscription(client, roomId);
 
   /**
-   * Initialize WebSocket client
+   * Subscribe to connection events, edits and deletions
    */
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      console.warn('No token found, WebSocket not initialized');
-      return;
-    }
+    if (!client) return;
 
-    // Create WebSocket client
-    const client = new WebSocketClient(baseURL, token);
-    clientRef.current = client;
+    // The shared client may already be connected by another subscriber
+    setIsConnected(client.isConnected());
 
-    // Setup event handlers
-    client.onConnect(() => {
+    const handleConnect = () => {
       setIsConnected(true);
       setIsReconnecting(false);
       onConnect?.();
-    });
+    };
 
-    client.onDisconnect(() => {
+    const handleDisconnect = () => {
       setIsConnected(false);
       onDisconnect?.();
-    });
+    };
 
-    client.onError((error) => {
+    const handleError = (error: Error) => {
       console.error('WebSocket error:', error);
       onError?.(error);
-    });
-
-    // Handle incoming messages
-    client.on('message', (msg: WSMessage) => {
-      if (msg.content && typeof msg.content === 'object') {
-        const message = msg.content as Message;
-        setMessages(prev => [...prev, message]);
-      }
-    });
-
-    // Connect to WebSocket
-    client.connect().catch(error => {
-      console.error('Failed to connect to WebSocket:', error);
-    });
+    };
 
-    // Cleanup on unmount
-    return () => {
-      if (previousRoomRef.current !== null) {
-        client.leaveRoom(previousRoomRef.current);
-      }
-      client.disconnect();
+    const handleReconnect = (rooms: number[]) => {
+      onReconnect?.(rooms);
     };
-  }, [baseURL, onConnect, onDisconnect, onError]);
 
-  /**
-   * Join/leave rooms when roomId changes
-   */
-  useEffect(() => {
-    if (!clientRef.current) return;
+    // Messages edited/deleted elsewhere (payload is validated by the client)
+    const handleMessageUpdated = (msg: WSInboundFrameOf<'message_updated'>) => {
+      onMessageUpdated?.(msg.content);
+    };
 
-    // Leave previous room if any
-    if (previousRoomRef.current !== null) {
-      clientRef.current.leaveRoom(previousRoomRef.current);
-    }
+    const handleMessageDeleted = (msg: WSInboundFrameOf<'message_deleted'>) => {
+      onMessageDeleted?.(msg.content);
+    };
 
-    // Join new room if specified
-    if (roomId !== null) {
-      clientRef.current.joinRoom(roomId);
-      previousRoomRef.current = roomId;
-    }
+    client.onConnect(handleConnect);
+    client.onDisconnect(handleDisconnect);
+    client.onError(handleError);
+    client.onReconnect(handleReconnect);
+    client.on('message_updated', handleMessageUpdated);
+    client.on('message_deleted', handleMessageDeleted);
 
     return () => {
-      if (roomId !== null && clientRef.current) {
-        clientRef.current.leaveRoom(roomId);
-      }
+      client.offConnect(handleConnect);
+      client.offDisconnect(handleDisconnect);
+      client.offError(handleError);
+      client.offReconnect(handleReconnect);
+      client.off('message_updated', handleMessageUpdated);
+      client.off('message_deleted', handleMessageDeleted);
     };
-  }, [roomId]);
+  }, [client, onConnect, onDisconnect, onError, onReconnect, onMessageUpdated, onMessageDeleted]);
 
   /**
    * Send typing indicator
    */
   const sendTyping = useCallback((isTyping: boolean) => {
-    if (clientRef.current && roomId !== null) {
-      clientRef.current.sendTyping(roomId, isTyping);
+    if (client && roomId !== null) {
+      client.sendTyping(roomId, isTyping);
     }
-  }, [roomId]);
+  }, [client, roomId]);
 
   /**
    * Manually reconnect
    */
   const reconnect = useCallback(() => {
-    if (clientRef.current) {
-      setIsReconnecting(true);
-      clientRef.current.disconnect();
+    if (!client) return;
 
-      const token = localStorage.getItem('token');
-      if (token) {
-        const client = new WebSocketClient(baseURL, token);
-        clientRef.current = client;
-
-        client.connect().then(() => {
-          setIsConnected(true);
-          setIsReconnecting(false);
-
-          if (roomId !== null) {
-            client.joinRoom(roomId);
-          }
-        });
-      }
-    }
-  }, [baseURL, roomId]);
-
-  /**
-   * Clear all messages
-   */
-  const clearMessages = useCallback(() => {
-    setMessages([]);
-  }, []);
+    setIsReconnecting(true);
+    client.reconnect().catch(error => {
+      console.error('Reconnection failed:', error);
+      setIsReconnecting(false);
+    });
+  }, [client]);
 
   return {
-    messages,
     isConnected,
     isReconnecting,
     sendTyping,
     reconnect,
-    clearMessages,
-    client: clientRef.current
+    client
   };
 }
 
@@ -288,18 +323,20 @@ export function useWebSocket(
 export function useTypingIndicator(roomId: number | null): number[] {
   const [typingUsers, setTypingUsers] = useState<number[]>([]);
   const timeoutsRef = useRef<Map<number, NodeJS.Timeout>>(new Map());
+  const client = useSharedClient();
+
+  useRoomSubscription(client, roomId);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token || roomId === null) return;
+    if (!client || roomId === null) return;
 
-    const client = new WebSocketClient(WS_BASE_URL, token);
+    const timeouts = timeoutsRef.current;
 
-    client.on('typing', (msg: WSMessage) => {
+    const handleTyping = (msg: WSInboundFrameOf<'typing'>) => {
       if (msg.room_id !== roomId) return;
 
       const userId = msg.user_id;
-      const isTyping = msg.content?.typing === true;
+      const isTyping = msg.content.typing;
 
       if (isTyping) {
         // Add user to typing list
@@ -311,7 +348,7 @@ export function useTypingIndicator(roomId: number | null): number[] {
         });
 
         // Clear existing timeout
-        const existingTimeout = timeoutsRef.current.get(userId);
+        const existingTimeout = timeouts.get(userId);
         if (existingTimeout) {
           clearTimeout(existingTimeout);
         }
@@ -319,41 +356,41 @@ export function useTypingIndicator(roomId: number | null): number[] {
         // Set timeout to remove user after 3 seconds of no activity
         const timeout = setTimeout(() => {
           setTypingUsers(prev => prev.filter(id => id !== userId));
-          timeoutsRef.current.delete(userId);
+          timeouts.delete(userId);
         }, 3000);
 
-        timeoutsRef.current.set(userId, timeout);
+        timeouts.set(userId, timeout);
       } else {
         // User stopped typing
         setTypingUsers(prev => prev.filter(id => id !== userId));
 
-        const timeout = timeoutsRef.current.get(userId);
+        const timeout = timeouts.get(userId);
         if (timeout) {
           clearTimeout(timeout);
-          timeoutsRef.current.delete(userId);
+          timeouts.delete(userId);
         }
       }
-    });
+    };
 
-    client.connect().then(() => {
-      client.joinRoom(roomId);
-    });
+    client.on('typing', handleTyping);
 
     return () => {
-      // Clear all timeouts
-      timeoutsRef.current.forEach(timeout => clearTimeout(timeout));
-      timeoutsRef.current.clear();
+      client.off('typing', handleTyping);
 
-      client.leaveRoom(roomId);
-      client.disconnect();
+      // Clear all timeouts
+      timeouts.forEach(timeout => clearTimeout(timeout));
+      timeouts.clear();
+      setTypingUsers([]);
     };
-  }, [roomId]);
+  }, [client, roomId]);
 
   return typingUsers;
 }
 
 /**
  * Hook for monitoring online users
+ * Reads the presence store, which usePresenceSync keeps up to date from
+ * `presence` events; users who are away or busy are online too.
  *
  * @returns Array of online user IDs
  *
@@ -371,35 +408,5 @@ export function useTypingIndicator(roomId: number | null): number[] {
  * ```
  */
 export function useOnlineUsers(): number[] {
-  const [onlineUsers, setOnlineUsers] = useState<number[]>([]);
-
-  useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) return;
-
-    const client = new WebSocketClient(WS_BASE_URL, token);
-
-    client.on('join', (msg: WSMessage) => {
-      const userId = msg.user_id;
-      setOnlineUsers(prev => {
-        if (!prev.includes(userId)) {
-          return [...prev, userId];
-        }
-        return prev;
-      });
-    });
-
-    client.on('leave', (msg: WSMessage) => {
-      const userId = msg.user_id;
-      setOnlineUsers(prev => prev.filter(id => id !== userId));
-    });
-
-    client.connect();
-
-    return () => {
-      client.disconnect();
-    };
-  }, []);
-
-  return onlineUsers;
+  return useSyncExternalStore(presenceStore.subscribe, presenceStore.getOnlineUserIds, getServerOnlineUserIds);
 }
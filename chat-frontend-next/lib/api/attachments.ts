@@ -0,0 +1,59 @@
+/**
+ * Attachment API Service
+ *
+ * Uploads files to attach to messages. A file is uploaded first, then sent
+ * with a message by ID (`attachment_ids` on SendMessageRequest).
+ *
+ * Available endpoints:
+ * - POST /api/v1/attachments - Upload a file (multipart/form-data)
+ */
+
+import api from '../api';
+import { Attachment } from '../types';
+
+export type { Attachment } from '../types';
+
+/**
+ * Upload options
+ */
+export interface UploadAttachmentOptions {
+  /** Called with the upload progress (0-100) */
+  onProgress?: (percent: number) => void;
+  /** Cancels the upload when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Upload a file to attach to a message
+ * Validate it first (see validateAttachment in lib/attachments).
+ *
+ * @param file - File to upload
+ * @param options - Progress callback and abort signal
+ * @returns Promise with the stored attachment
+ *
+ * @example
+ * ```ts
+ * const attachment = await uploadAttachment(file, {
+ *   onProgress: (percent) => console.log(`${percent}%`)
+ * });
+ *
+ * await sendMessage({ room_id: 1, content: '', attachment_ids: [attachment.id] });
+ * ```
+ */
+export async function uploadAttachment(
+  file: File,
+  options: UploadAttachmentOptions = {}
+): Promise<Attachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post<{ message: string; data: Attachment }>('/v1/attachments', formData, {
+    signal: options.signal,
+    onUploadProgress: (event) => {
+      if (options.onProgress && event.total) {
+        options.onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    },
+  });
+  return response.data.data;
+}
@@ -0,0 +1,89 @@
+/**
+ * Bookmark API Service
+ *
+ * Saved messages: personal bookmarks of messages across all rooms, with an
+ * optional note. A user has at most one bookmark per message, so bookmarks
+ * are addressed by message ID.
+ *
+ * Available endpoints:
+ * - GET /api/v1/bookmarks - Get the user's bookmarks
+ * - POST /api/v1/bookmarks - Bookmark a message
+ * - PUT /api/v1/bookmarks/:messageId - Update a bookmark's note
+ * - DELETE /api/v1/bookmarks/:messageId - Remove a bookmark
+ *
+ * Until the backend provides these, lib/bookmarks keeps bookmarks in
+ * IndexedDB instead.
+ */
+
+import api from '../api';
+import { Bookmark } from '../types';
+
+export type { Bookmark } from '../types';
+
+/**
+ * Get the current user's bookmarks
+ *
+ * @returns Promise with the bookmarks, most recently saved first
+ *
+ * @example
+ * ```ts
+ * const bookmarks = await getBookmarks();
+ * console.log(`${bookmarks.length} saved messages`);
+ * ```
+ */
+export async function getBookmarks(): Promise<Bookmark[]> {
+  const response = await api.get<{ bookmarks: Bookmark[] }>('/v1/bookmarks');
+  return response.data.bookmarks;
+}
+
+/**
+ * Bookmark a message
+ * Bookmarking an already saved message updates its note.
+ *
+ * @param messageId - Message ID
+ * @param note - Optional personal note
+ * @returns Promise with the bookmark
+ *
+ * @example
+ * ```ts
+ * const bookmark = await addBookmark(123, 'Read before the release');
+ * ```
+ */
+export async function addBookmark(messageId: number, note?: string): Promise<Bookmark> {
+  const response = await api.post<{ message: string; data: Bookmark }>('/v1/bookmarks', {
+    message_id: messageId,
+    note,
+  });
+  return response.data.data;
+}
+
+/**
+ * Update the note of a bookmark
+ *
+ * @param messageId - ID of the bookmarked message
+ * @param note - New note (empty to remove it)
+ * @returns Promise with the updated bookmark
+ *
+ * @example
+ * ```ts
+ * await updateBookmarkNote(123, 'Done');
+ * ```
+ */
+export async function updateBookmarkNote(messageId: number, note: string): Promise<Bookmark> {
+  const response = await api.put<{ message: string; data: Bookmark }>(`/v1/bookmarks/${messageId}`, { note });
+  return response.data.data;
+}
+
+/**
+ * Remove a bookmark
+ *
+ * @param messageId - ID of the bookmarked message
+ *
+ * @example
+ * ```ts
+ * await removeBookmark(123);
+ * ```
+ */
+export async function removeBookmark(messageId: number): Promise<void> {
+  await api.delete(`/v1/bookmarks/${messageId}`);
+}
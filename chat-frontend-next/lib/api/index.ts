@@ -24,11 +24,17 @@ import * as auth from './auth';
 import * as rooms from './rooms';
 import * as messages from './messages';
 import * as users from './users';
+import * as attachments from './attachments';
+import * as links from './links';
+import * as bookmarks from './bookmarks';
 
-export { auth, rooms, messages, users };
+export { auth, rooms, messages, users, attachments, links, bookmarks };
 
 // Re-export for convenience
 export * from './auth';
 export * from './rooms';
 export * from './messages';
 export * from './users';
+export * from './attachments';
+export * from './links';
+export * from './bookmarks';
@@ -0,0 +1,43 @@
+/**
+ * Link Preview API Service
+ *
+ * Fetches link preview metadata (title, description, image URL) for URLs in
+ * messages. The backend fetches the page, so the browser never requests it;
+ * preview images are still served by the linked site (see LinkPreviewCard).
+ *
+ * Available endpoints:
+ * - GET /api/v1/unfurl?url=... - Get the preview of a URL
+ *
+ * Set NEXT_PUBLIC_UNFURL_URL to use another unfurl service (e.g. a local stub
+ * server) that answers `GET <url>?url=...` with the same response shape.
+ * An absolute URL is requested without the user's token.
+ */
+
+import axios from 'axios';
+import api from '../api';
+import { LinkPreview } from '../types';
+
+export type { LinkPreview } from '../types';
+
+const UNFURL_URL = process.env.NEXT_PUBLIC_UNFURL_URL || '/v1/unfurl';
+
+// Another service must not receive the session token
+const IS_EXTERNAL = /^[a-z][a-z\d+.-]*:|^\/\//i.test(UNFURL_URL);
+
+/**
+ * Get the link preview of a URL
+ *
+ * @param url - Absolute http(s) URL
+ * @returns Promise with the preview (fields the page doesn't provide are omitted)
+ *
+ * @example
+ * ```ts
+ * const preview = await unfurlLink('https://example.com/post');
+ * console.log(preview.title, preview.description);
+ * ```
+ */
+export async function unfurlLink(url: string): Promise<LinkPreview> {
+  const client = IS_EXTERNAL ? axios : api;
+  const response = await client.get<{ data: LinkPreview }>(UNFURL_URL, { params: { url } });
+  return response.data.data;
+}
@@ -5,14 +5,23 @@
  * All endpoints are prefixed with /api/v1
  *
  * Available endpoints:
- * - GET /api/v1/rooms/:roomId/messages - Get messages for a room (with pagination)
+ * - GET /api/v1/rooms/:roomId/messages - Get messages for a room (page, or `before`, `after` or `around` cursor)
+ * - GET /api/v1/messages/:id/thread - Get a message and its replies
+ * - GET /api/v1/messages/search - Full-text search across the user's rooms
  * - POST /api/v1/messages - Send new message
  * - PUT /api/v1/messages/:id - Update/edit message
  * - DELETE /api/v1/messages/:id - Delete message
+ * - POST /api/v1/messages/:id/reactions - Add a reaction
+ * - DELETE /api/v1/messages/:id/reactions/:emoji - Remove own reaction
+ * - GET /api/v1/rooms/:roomId/pins - Get a room's pinned messages
+ * - POST /api/v1/messages/:id/pin - Pin a message (room admins and owners)
+ * - DELETE /api/v1/messages/:id/pin - Unpin a message (room admins and owners)
  */
 
 import api from '../api';
-import { User } from '../types';
+import { User, ReactionSummary, ReactionUser, Attachment, PinnedMessage } from '../types';
+
+export type { ReactionSummary, ReactionUser, Attachment, PinnedMessage } from '../types';
 
 /**
  * Message Types
@@ -25,6 +34,11 @@ export interface Message {
   room_id: number;
   parent_id?: number;
   parent_message?: Message;
+  parent_deleted?: boolean;  // Client-side: the parent was deleted while this reply was cached
+  reply_count?: number;  // Number of direct replies (parent_id = this message)
+  reactions?: ReactionSummary[];  // One entry per emoji, in the order first used
+  attachments?: Attachment[];  // Files uploaded with the message (see uploadAttachment)
+  nonce?: string;  // Client nonce echoed back by the server (see SendMessageRequest)
   created_at: string;
   updated_at: string;
 }
@@ -34,17 +48,49 @@ export interface PaginationInfo {
   limit: number;
   total: number;
   totalPages: number;
+  has_more?: boolean;  // Set on cursor requests: whether older messages exist
+  has_newer?: boolean;  // Set on `after` and `around` requests: whether newer messages exist
 }
 
+/**
+ * Cursor for getMessages: the messages older or newer than a message, or a
+ * window of history centred on it (including it)
+ */
+export type MessageCursor = { before: number } | { after: number } | { around: number };
+
 export interface MessagesResponse {
   messages: Message[];
   pagination: PaginationInfo;
 }
 
+export interface MessagesSinceResult {
+  messages: Message[];  // Oldest first
+  truncated: boolean;  // Stopped at maxPages before reaching the given message
+}
+
+export interface ThreadResponse {
+  root: Message;
+  replies: Message[];  // Oldest first
+}
+
 export interface SendMessageRequest {
   room_id: number;
   content: string;
   parent_id?: number;
+  attachment_ids?: number[];  // Uploaded attachments to send with the message
+  nonce?: string;  // Client-generated ID, echoed back on the created message
+}
+
+export interface SearchMessagesParams {
+  query: string;
+  room_id?: number;
+  user_id?: number;  // Author
+  from?: string;  // Oldest day to include (YYYY-MM-DD)
+  to?: string;  // Newest day to include (YYYY-MM-DD)
+  has_link?: boolean;
+  has_attachment?: boolean;
+  page?: number;
+  limit?: number;
 }
 
 export interface UpdateMessageRequest {
@@ -54,26 +100,118 @@ export interface UpdateMessageRequest {
 /**
  * Get messages for a specific room with pagination
  *
+ * Pass a `before` message ID to page back through history with a cursor
+ * instead of an offset: offsets drift when new messages arrive while paging,
+ * cursors do not. With a cursor, `page` is ignored.
+ *
+ * `{ around: id }` loads the history around a message (e.g. an old search
+ * result) in one request; from there, `before` and `after` page outward.
+ *
  * @param roomId - Room ID
  * @param page - Page number (default: 1)
  * @param limit - Messages per page (default: 50, max: 100)
- * @returns Promise with messages and pagination info
+ * @param cursor - Message ID to load older messages than, or a MessageCursor
+ * @returns Promise with messages (newest first) and pagination info
  *
  * @example
  * ```ts
  * const { messages, pagination } = await getMessages(1, 1, 50);
  * console.log(`Page ${pagination.page} of ${pagination.totalPages}`);
  * messages.forEach(msg => console.log(`${msg.user.username}: ${msg.content}`));
+ *
+ * // Older history, before the oldest message loaded so far
+ * const older = await getMessages(1, 1, 50, messages[messages.length - 1].id);
+ *
+ * // The messages around an old message
+ * const around = await getMessages(1, 1, 50, { around: 3456 });
  * ```
  */
 export async function getMessages(
   roomId: number,
   page: number = 1,
-  limit: number = 50
+  limit: number = 50,
+  cursor?: number | MessageCursor
 ): Promise<MessagesResponse> {
-  const response = await api.get<MessagesResponse>(
-    `/v1/rooms/${roomId}/messages?page=${page}&limit=${limit}`
-  );
+  const position = typeof cursor === 'number' ? { before: cursor } : cursor;
+  let query = `page=${page}&limit=${limit}`;
+  if (position && 'before' in position) {
+    query = `before=${position.before}&limit=${limit}`;
+  } else if (position && 'after' in position) {
+    query = `after=${position.after}&limit=${limit}`;
+  } else if (position) {
+    query = `around=${position.around}&limit=${limit}`;
+  }
+
+  const response = await api.get<MessagesResponse>(`/v1/rooms/${roomId}/messages?${query}`);
+  return response.data;
+}
+
+/**
+ * Whether older messages exist after a page of messages
+ * Cursor responses carry `has_more`; offset responses are compared by page.
+ *
+ * @param response - Response from getMessages
+ * @returns True if older messages can be loaded
+ */
+export function hasOlderMessages(response: MessagesResponse): boolean {
+  const { pagination } = response;
+  return pagination.has_more ?? pagination.page < pagination.totalPages;
+}
+
+/**
+ * Whether newer messages exist after a page loaded with an `after` or `around` cursor
+ *
+ * @param response - Response from getMessages
+ * @returns True if newer messages can be loaded
+ */
+export function hasNewerMessages(response: MessagesResponse): boolean {
+  return response.pagination.has_newer ?? false;
+}
+
+/**
+ * Get a thread: a message and all direct replies to it
+ *
+ * @param messageId - ID of the thread's root message
+ * @returns Promise with the root message and its replies (oldest first)
+ *
+ * @example
+ * ```ts
+ * const { root, replies } = await getThread(123);
+ * console.log(`${root.user.username}: ${root.content} (${replies.length} replies)`);
+ * ```
+ */
+export async function getThread(messageId: number): Promise<ThreadResponse> {
+  const response = await api.get<ThreadResponse>(`/v1/messages/${messageId}/thread`);
+  return response.data;
+}
+
+/**
+ * Search messages in every room the user is a member of
+ *
+ * Matches all words of the query (case-insensitive) in the message content;
+ * the filters narrow the results down further. Results are newest first.
+ *
+ * @param params - Query, filters and pagination (default: page 1, 20 per page)
+ * @returns Promise with matching messages and pagination info
+ *
+ * @example
+ * ```ts
+ * const { messages, pagination } = await searchMessages({
+ *   query: 'release notes',
+ *   room_id: 1,
+ *   has_link: true,
+ *   from: '2024-01-01'
+ * });
+ * console.log(`${pagination.total} results`);
+ * ```
+ */
+export async function searchMessages(params: SearchMessagesParams): Promise<MessagesResponse> {
+  const { query, has_link, has_attachment, page = 1, limit = 20, ...filters } = params;
+  const has = [has_link && 'link', has_attachment && 'attachment'].filter(Boolean).join(',');
+
+  const response = await api.get<MessagesResponse>('/v1/messages/search', {
+    params: { q: query, ...filters, has: has || undefined, page, limit },
+  });
   return response.data;
 }
 
@@ -81,7 +219,11 @@ export async function getMessages(
  * Send a new message to a room
  * Supports threaded replies via parent_id
  *
- * @param data - Message data (room_id, content, optional parent_id)
+ * Pass a `nonce` to match the created message (HTTP response and WebSocket
+ * broadcast) with the optimistic copy shown while sending. The backend also
+ * uses it to ignore duplicate sends from retries.
+ *
+ * @param data - Message data (room_id, content, optional parent_id, attachment_ids and nonce)
  * @returns Promise with created message
  *
  * @example
@@ -98,6 +240,13 @@ export async function getMessages(
  *   content: 'This is a reply',
  *   parent_id: 123
  * });
+ *
+ * // Send with a client nonce
+ * const sent = await sendMessage({
+ *   room_id: 1,
+ *   content: 'Hello again',
+ *   nonce: crypto.randomUUID()
+ * });
  * ```
  */
 export async function sendMessage(data: SendMessageRequest): Promise<Message> {
@@ -144,6 +293,153 @@ export async function deleteMessage(messageId: number): Promise<void> {
   await api.delete(`/v1/messages/${messageId}`);
 }
 
+/**
+ * React to a message
+ * Adding a reaction the user already has is a no-op on the server.
+ *
+ * @param messageId - Message ID to react to
+ * @param emoji - Emoji to react with
+ * @returns Promise with the message's updated reactions
+ *
+ * @example
+ * ```ts
+ * const reactions = await addReaction(123, '👍');
+ * console.log(reactions.map(r => `${r.emoji} ${r.count}`).join(' '));
+ * ```
+ */
+export async function addReaction(messageId: number, emoji: string): Promise<ReactionSummary[]> {
+  const response = await api.post<{ message: string; data: ReactionSummary[] }>(
+    `/v1/messages/${messageId}/reactions`,
+    { emoji }
+  );
+  return response.data.data;
+}
+
+/**
+ * Remove the current user's reaction from a message
+ *
+ * @param messageId - Message ID
+ * @param emoji - Emoji of the reaction to remove
+ * @returns Promise with the message's updated reactions
+ *
+ * @example
+ * ```ts
+ * const reactions = await removeReaction(123, '👍');
+ * ```
+ */
+export async function removeReaction(messageId: number, emoji: string): Promise<ReactionSummary[]> {
+  const response = await api.delete<{ message: string; data: ReactionSummary[] }>(
+    `/v1/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Get the pinned messages of a room
+ *
+ * @param roomId - Room ID
+ * @returns Promise with the pins, most recently pinned first
+ *
+ * @example
+ * ```ts
+ * const pins = await getPinnedMessages(1);
+ * pins.forEach(pin => console.log(`${pin.pinned_by.username} pinned: ${pin.message.content}`));
+ * ```
+ */
+export async function getPinnedMessages(roomId: number): Promise<PinnedMessage[]> {
+  const response = await api.get<{ pins: PinnedMessage[] }>(`/v1/rooms/${roomId}/pins`);
+  return response.data.pins;
+}
+
+/**
+ * Pin a message to its room
+ * Requires the admin or owner role in the room
+ *
+ * @param messageId - Message ID
+ * @returns Promise with the new pin
+ *
+ * @example
+ * ```ts
+ * const pin = await pinMessage(123);
+ * ```
+ */
+export async function pinMessage(messageId: number): Promise<PinnedMessage> {
+  const response = await api.post<{ message: string; data: PinnedMessage }>(`/v1/messages/${messageId}/pin`);
+  return response.data.data;
+}
+
+/**
+ * Unpin a message
+ * Requires the admin or owner role in the room
+ *
+ * @param messageId - Message ID
+ *
+ * @example
+ * ```ts
+ * await unpinMessage(123);
+ * ```
+ */
+export async function unpinMessage(messageId: number): Promise<void> {
+  await api.delete(`/v1/messages/${messageId}/pin`);
+}
+
+/**
+ * Get all messages in a room newer than a given message
+ * Walks back from the newest message with a `before` cursor until it reaches the
+ * given message. Useful to catch up after a WebSocket reconnect.
+ *
+ * When more than `maxPages` pages were missed, only the newest ones are
+ * returned and `truncated` is set: the result no longer connects to the
+ * messages already seen, so it should replace them rather than be merged.
+ *
+ * @param roomId - Room ID
+ * @param sinceMessageId - ID of the newest message already seen
+ * @param limit - Messages per page (default: 50)
+ * @param maxPages - Stop after this many pages (default: 10)
+ * @returns Promise with the missed messages (oldest first) and whether it stopped early
+ *
+ * @example
+ * ```ts
+ * const lastSeen = messages[messages.length - 1];
+ * const { messages: missed, truncated } = await getMessagesSince(roomId, lastSeen.id);
+ * if (truncated) {
+ *   messageStore.setLatestMessages(roomId, missed, true, { replace: true });
+ * } else {
+ *   messageStore.addMessages(missed);
+ * }
+ * ```
+ */
+export async function getMessagesSince(
+  roomId: number,
+  sinceMessageId: number,
+  limit: number = 50,
+  maxPages: number = 10
+): Promise<MessagesSinceResult> {
+  const missed: Message[] = [];
+  let before: number | undefined;
+  let truncated = false;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await getMessages(roomId, 1, limit, before);
+    const { messages } = response;
+    const newer = messages.filter(msg => msg.id > sinceMessageId);
+    missed.push(...newer);
+
+    // Reached the last seen message, or ran out of history
+    if (newer.length < messages.length || messages.length === 0 || !hasOlderMessages(response)) {
+      break;
+    }
+    if (page === maxPages) {
+      truncated = true;
+      break;
+    }
+    before = messages[messages.length - 1].id;
+  }
+
+  // Backend returns newest first
+  return { messages: missed.reverse(), truncated };
+}
+
 /**
  * Helper function to load more messages (pagination)
  * Useful for implementing infinite scroll
@@ -173,6 +469,96 @@ export async function loadMoreMessages(
   return getMessages(roomId, currentPage, limit);
 }
 
+/**
+ * Helper function to load the messages before the oldest one loaded (cursor pagination)
+ * Unlike page numbers, the cursor doesn't shift when new messages arrive.
+ *
+ * @param roomId - Room ID
+ * @param oldestMessageId - ID of the oldest message loaded so far
+ * @param limit - Messages per page
+ * @returns Promise with the older messages (newest first) and pagination info
+ *
+ * @example
+ * ```ts
+ * const [messages, setMessages] = useState<Message[]>([]); // oldest first
+ *
+ * const loadOlder = async () => {
+ *   const response = await loadOlderMessages(roomId, messages[0].id);
+ *   setMessages([...response.messages.reverse(), ...messages]);
+ *   setHasMore(hasOlderMessages(response));
+ * };
+ * ```
+ */
+export async function loadOlderMessages(
+  roomId: number,
+  oldestMessageId: number,
+  limit: number = 50
+): Promise<MessagesResponse> {
+  return getMessages(roomId, 1, limit, { before: oldestMessageId });
+}
+
+/**
+ * Helper function to apply one user's reaction change to a message's reactions
+ * Idempotent, so the optimistic change and the WebSocket echo of it can both be applied.
+ *
+ * @param reactions - Current reactions (undefined if none)
+ * @param emoji - Emoji that was added or removed
+ * @param user - User who reacted
+ * @param added - True if the reaction was added, false if removed
+ * @returns New reactions array (emoji without reactions are dropped)
+ *
+ * @example
+ * ```ts
+ * ws.on('reaction_added', (msg) => {
+ *   const { message_id, emoji, user_id, username } = msg.content;
+ *   const reactions = applyReaction(message.reactions, emoji, { id: user_id, username }, true);
+ * });
+ * ```
+ */
+export function applyReaction(
+  reactions: ReactionSummary[] | undefined,
+  emoji: string,
+  user: ReactionUser,
+  added: boolean
+): ReactionSummary[] {
+  const current = reactions ?? [];
+  const existing = current.find(reaction => reaction.emoji === emoji);
+  const hasUser = !!existing?.users.some(reactionUser => reactionUser.id === user.id);
+
+  if (added === hasUser) return current;
+
+  if (!existing) {
+    return [...current, { emoji, count: 1, users: [user] }];
+  }
+
+  return current
+    .map(reaction => {
+      if (reaction.emoji !== emoji) return reaction;
+      return added
+        ? { ...reaction, count: reaction.count + 1, users: [...reaction.users, user] }
+        : {
+            ...reaction,
+            count: reaction.count - 1,
+            users: reaction.users.filter(reactionUser => reactionUser.id !== user.id),
+          };
+    })
+    .filter(reaction => reaction.count > 0);
+}
+
+/**
+ * Helper function to check whether a user has reacted to a message with an emoji
+ *
+ * @param message - Message to check
+ * @param emoji - Emoji of the reaction
+ * @param userId - User to look for
+ * @returns True if the user has that reaction
+ */
+export function hasReacted(message: Message, emoji: string, userId: number): boolean {
+  return !!message.reactions?.some(
+    reaction => reaction.emoji === emoji && reaction.users.some(user => user.id === userId)
+  );
+}
+
 /**
  * Helper function to check if message belongs to current user
  * Useful for determining if edit/delete actions should be shown
@@ -16,10 +16,13 @@
  * - POST /api/v1/rooms/:id/members - Invite user to room
  * - DELETE /api/v1/rooms/:id/members/:userId - Remove user from room
  * - POST /api/v1/rooms/:id/read - Mark room as read
+ * - GET /api/v1/rooms/:id/reads - Get members' read receipts
  */
 
 import api from '../api';
-import { Message, User } from '../types';
+import { Message, ReadReceipt, User } from '../types';
+
+export type { ReadReceipt } from '../types';
 
 /**
  * Room Types
@@ -32,6 +35,8 @@ export interface Room {
   messages?: Message[];
   members?: User[];
   unread_count?: number;  // Added to match backend response
+  mention_count?: number; // Unread messages that mention the current user
+  last_read_message_id?: number | null; // Latest message the current user has read
   created_at: string;
   updated_at: string;
 }
@@ -44,6 +49,8 @@ export interface DirectRoomResponse {
   other_user: OtherUserInfo;
   last_message?: LastMessageInfo;
   unread_count: number;
+  mention_count?: number; // Unread messages that mention the current user
+  last_read_message_id?: number | null; // Latest message the current user has read
   created_at: string;
 }
 
@@ -52,6 +59,9 @@ export interface OtherUserInfo {
   username: string;
   is_online: boolean;
   last_active_at?: string;
+  status?: string; // Presence: online, away, busy or offline
+  status_text?: string | null; // Custom status
+  status_expires_at?: string | null;
 }
 
 export interface LastMessageInfo {
@@ -64,6 +74,8 @@ export interface ParticipantResponse {
   username: string;
   role: string;
   is_online: boolean;
+  last_active_at?: string | null;
+  status?: string; // Presence: online, away, busy or offline
   joined_at: string;
 }
 
@@ -336,16 +348,37 @@ export async function transferRoomOwnership(
  * Updates the last_read timestamp to mark all messages as read
  *
  * @param roomId - Room ID to mark as read
+ * @param messageId - Latest message the user has seen (stored as `last_read_message_id`)
  * @returns Promise with success message
  *
  * @example
  * ```ts
- * await markRoomAsRead(1);
+ * await markRoomAsRead(1, 123);
  * console.log('Room marked as read');
  * ```
  */
-export async function markRoomAsRead(roomId: number): Promise<void> {
-  await api.post(`/v1/rooms/${roomId}/read`);
+export async function markRoomAsRead(roomId: number, messageId?: number): Promise<void> {
+  await api.post(`/v1/rooms/${roomId}/read`, messageId === undefined ? undefined : { message_id: messageId });
+}
+
+/**
+ * Get how far each member of a room has read
+ * Members who have not read anything (or turned read receipts off) are left out.
+ *
+ * @param roomId - Room ID
+ * @returns Promise with one receipt per member
+ *
+ * @example
+ * ```ts
+ * const receipts = await getReadReceipts(1);
+ * receipts.forEach(r => {
+ *   console.log(`${r.user.username} read up to message ${r.last_read_message_id}`);
+ * });
+ * ```
+ */
+export async function getReadReceipts(roomId: number): Promise<ReadReceipt[]> {
+  const response = await api.get<{ reads: ReadReceipt[] }>(`/v1/rooms/${roomId}/reads`);
+  return response.data.reads;
 }
 
 /**
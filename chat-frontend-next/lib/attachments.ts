@@ -0,0 +1,132 @@
+/**
+ * Attachment Helpers
+ *
+ * Client-side rules for message attachments:
+ * - Size, count and type validation before anything is uploaded
+ *   (the backend enforces the same limits)
+ * - Which attachments can be previewed inline as images
+ * - Human-readable file sizes
+ *
+ * @example
+ * ```ts
+ * import { validateAttachment, formatFileSize } from '@/lib/attachments';
+ *
+ * const error = validateAttachment(file);
+ * if (error) alert(error);
+ * formatFileSize(1536); // '1.5 KB'
+ * ```
+ */
+
+import { WS_BASE_URL } from './api';
+import type { Attachment } from './types';
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25 MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Types shown inline as images; anything else (including SVG) is a download card
+const PREVIEWABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Accepted MIME types: exact types, or `type/` prefixes
+const ALLOWED_TYPES = [
+  'image/',
+  'video/',
+  'audio/',
+  'text/',
+  'application/pdf',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/gzip',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.oasis.opendocument.',
+];
+
+// Executables and scripts are refused whatever type the browser reports
+const BLOCKED_EXTENSIONS = ['exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'ps1', 'vbs', 'jar', 'apk', 'dmg', 'sh'];
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Check a file before uploading it
+ * Files whose type the browser can't tell are accepted unless their extension is blocked.
+ *
+ * @param file - File picked, dropped or pasted by the user
+ * @returns Error message, or null if the file can be uploaded
+ */
+export function validateAttachment(file: File): string | null {
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  if (BLOCKED_EXTENSIONS.includes(extensionOf(file.name))) {
+    return `${file.name} can't be uploaded (executable files are not allowed)`;
+  }
+  const allowed = ALLOWED_TYPES.some(type =>
+    /[/.]$/.test(type) ? file.type.startsWith(type) : file.type === type
+  );
+  if (file.type && !allowed) {
+    return `${file.name} can't be uploaded (unsupported file type)`;
+  }
+  return null;
+}
+
+/**
+ * Whether an attachment (or file type) is shown inline as an image
+ *
+ * @param contentType - MIME type of the attachment
+ * @returns True for common raster image formats
+ */
+export function isPreviewableImage(contentType: string): boolean {
+  return PREVIEWABLE_IMAGE_TYPES.includes(contentType.toLowerCase());
+}
+
+/**
+ * Absolute URL of an attachment
+ * The backend may return paths relative to its own origin.
+ *
+ * @param url - `url` or `thumbnail_url` of an attachment
+ * @returns URL the browser can load
+ */
+export function resolveAttachmentUrl(url: string): string {
+  return url.startsWith('/') && !url.startsWith('//') ? `${WS_BASE_URL}${url}` : url;
+}
+
+/**
+ * Split attachments into inline images and other files (order kept)
+ *
+ * @param attachments - Attachments of a message
+ * @returns Images and files
+ */
+export function groupAttachments(attachments: Attachment[]): { images: Attachment[]; files: Attachment[] } {
+  return {
+    images: attachments.filter(attachment => isPreviewableImage(attachment.content_type)),
+    files: attachments.filter(attachment => !isPreviewableImage(attachment.content_type)),
+  };
+}
+
+/**
+ * Format a size in bytes for display
+ *
+ * @param bytes - Size in bytes
+ * @returns e.g. '512 B', '1.5 KB', '25 MB'
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size >= 10 || Number.isInteger(size) ? Math.round(size) : size.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,377 @@
+/**
+ * Saved Messages (Bookmarks) Store
+ *
+ * The current user's bookmarks across all rooms, shared by the message
+ * actions and the Saved panel:
+ * - Synced through the bookmark API (lib/api/bookmarks)
+ * - While the backend has no bookmark endpoints, bookmarks are kept in this
+ *   browser (IndexedDB) instead; once the endpoints exist, those local
+ *   bookmarks are uploaded on the next load
+ * - Bookmarks follow edits of the saved message, and disappear when it is deleted
+ * - Most recently saved first
+ *
+ * @example
+ * ```ts
+ * import { bookmarkStore } from '@/lib/bookmarks';
+ *
+ * await bookmarkStore.load(user.id);
+ * await bookmarkStore.add(message, 'Read before the release');
+ * bookmarkStore.getState().bookmarks; // [{ message, note, created_at, updated_at }]
+ * ```
+ */
+
+import axios from 'axios';
+import {
+  getBookmarks,
+  addBookmark,
+  updateBookmarkNote,
+  removeBookmark,
+} from './api/bookmarks';
+import type { Bookmark, Message } from './types';
+
+/**
+ * Where bookmarks are kept
+ * - remote: the bookmark API
+ * - local: IndexedDB in this browser (the backend has no bookmark endpoints)
+ */
+export type BookmarkSource = 'remote' | 'local';
+
+export interface BookmarksState {
+  /** Bookmarks, most recently saved first (null until loaded) */
+  bookmarks: Bookmark[] | null;
+  source: BookmarkSource | null;
+  /** Load error */
+  error: string | null;
+}
+
+export type BookmarkStoreListener = () => void;
+
+export const MAX_NOTE_LENGTH = 500;
+
+const DB_NAME = 'chat-bookmarks';
+const DB_VERSION = 1;
+const STORE_NAME = 'bookmarks';
+
+const INITIAL_STATE: BookmarksState = { bookmarks: null, source: null, error: null };
+
+/**
+ * Bookmark as stored in IndexedDB (keyed by user and message)
+ */
+interface StoredBookmark {
+  user_id: number;
+  message_id: number;
+  bookmark: Bookmark;
+}
+
+/**
+ * Whether an error means the backend has no bookmark endpoints (yet)
+ */
+function isEndpointMissing(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  const status = error.response?.status;
+  return status === 404 || status === 405 || status === 501;
+}
+
+function byCreatedAtDesc(a: Bookmark, b: Bookmark): number {
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
+
+/**
+ * Local Bookmark Storage (IndexedDB)
+ */
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['user_id', 'message_id'] });
+      store.createIndex('user_id', 'user_id');
+    };
+
+    databasePromise = requestToPromise(request).catch(error => {
+      databasePromise = null; // Allow another attempt later
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function runLocal<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+async function getLocalBookmarks(userId: number): Promise<Bookmark[]> {
+  const stored = await runLocal<StoredBookmark[]>('readonly', store => store.index('user_id').getAll(userId));
+  return stored.map(entry => entry.bookmark);
+}
+
+async function putLocalBookmark(userId: number, bookmark: Bookmark): Promise<void> {
+  const entry: StoredBookmark = { user_id: userId, message_id: bookmark.message.id, bookmark };
+  await runLocal('readwrite', store => store.put(entry));
+}
+
+async function deleteLocalBookmark(userId: number, messageId: number): Promise<void> {
+  await runLocal('readwrite', store => store.delete([userId, messageId]));
+}
+
+/**
+ * Bookmark Store Class
+ *
+ * Use the shared `bookmarkStore` instance rather than creating new ones.
+ * `getState` returns the same object until something changes, so it can
+ * be used as a `useSyncExternalStore` snapshot.
+ */
+export class BookmarkStore {
+  private state: BookmarksState = INITIAL_STATE;
+  private userId: number | null = null;
+  private loading: Promise<void> | null = null;
+  private listeners: Set<BookmarkStoreListener> = new Set();
+
+  /**
+   * Subscribe to bookmark changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: BookmarkStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the current bookmarks, source and load error
+   */
+  public getState = (): BookmarksState => {
+    return this.state;
+  };
+
+  /**
+   * Whether a message is saved
+   *
+   * @param messageId - Message ID
+   * @returns True if bookmarked (false while not loaded)
+   */
+  public isBookmarked(messageId: number): boolean {
+    return this.state.bookmarks?.some(bookmark => bookmark.message.id === messageId) ?? false;
+  }
+
+  /**
+   * Load a user's bookmarks (once per user; pass `force` to refresh)
+   * Falls back to local bookmarks if the backend has no bookmark endpoints.
+   *
+   * @param userId - Current user's ID
+   * @param force - Reload even if already loaded
+   */
+  public load(userId: number, force: boolean = false): Promise<void> {
+    if (this.userId !== userId) {
+      this.userId = userId;
+      this.loading = null;
+      this.setState(INITIAL_STATE);
+    }
+
+    if (!this.loading || force) {
+      this.loading = this.fetch(userId);
+    }
+    return this.loading;
+  }
+
+  /**
+   * Save a message
+   *
+   * @param message - Message to bookmark
+   * @param note - Optional personal note
+   * @throws If the bookmark could not be saved
+   */
+  public async add(message: Message, note?: string): Promise<void> {
+    const userId = this.requireUser();
+
+    if (this.state.source === 'remote') {
+      this.upsert(await addBookmark(message.id, note));
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const bookmark: Bookmark = { message, note: note || undefined, created_at: now, updated_at: now };
+    await putLocalBookmark(userId, bookmark);
+    this.upsert(bookmark);
+  }
+
+  /**
+   * Change the note of a saved message
+   *
+   * @param messageId - ID of the saved message
+   * @param note - New note (empty to remove it)
+   * @throws If the note could not be saved
+   */
+  public async setNote(messageId: number, note: string): Promise<void> {
+    const userId = this.requireUser();
+    const current = this.find(messageId);
+    if (!current) return;
+
+    const trimmed = note.trim().slice(0, MAX_NOTE_LENGTH);
+
+    if (this.state.source === 'remote') {
+      this.upsert(await updateBookmarkNote(messageId, trimmed));
+      return;
+    }
+
+    const bookmark: Bookmark = { ...current, note: trimmed || undefined, updated_at: new Date().toISOString() };
+    await putLocalBookmark(userId, bookmark);
+    this.upsert(bookmark);
+  }
+
+  /**
+   * Remove a saved message
+   *
+   * @param messageId - ID of the saved message
+   * @throws If the bookmark could not be removed
+   */
+  public async remove(messageId: number): Promise<void> {
+    const userId = this.requireUser();
+
+    if (this.state.source === 'remote') {
+      await removeBookmark(messageId);
+    } else {
+      await deleteLocalBookmark(userId, messageId);
+    }
+    this.drop(messageId);
+  }
+
+  /**
+   * Show the latest version of an edited message in its bookmark
+   *
+   * @param message - Updated message
+   */
+  public updateMessage(message: Message): void {
+    const current = this.find(message.id);
+    if (!current) return;
+
+    const bookmark = { ...current, message };
+    this.upsert(bookmark);
+    if (this.state.source === 'local' && this.userId !== null) {
+      putLocalBookmark(this.userId, bookmark).catch(error => {
+        console.error('Failed to update saved message:', error);
+      });
+    }
+  }
+
+  /**
+   * Drop the bookmark of a deleted message
+   *
+   * @param messageId - ID of the deleted message
+   */
+  public removeMessage(messageId: number): void {
+    if (!this.find(messageId)) return;
+
+    this.drop(messageId);
+    if (this.state.source === 'local' && this.userId !== null) {
+      deleteLocalBookmark(this.userId, messageId).catch(error => {
+        console.error('Failed to remove saved message:', error);
+      });
+    }
+  }
+
+  private async fetch(userId: number): Promise<void> {
+    try {
+      const bookmarks = await getBookmarks();
+      if (this.userId !== userId) return;
+
+      this.setState({ bookmarks: [...bookmarks].sort(byCreatedAtDesc), source: 'remote', error: null });
+      await this.uploadLocalBookmarks(userId);
+    } catch (error) {
+      if (this.userId !== userId) return;
+
+      if (!isEndpointMissing(error)) {
+        console.error('Failed to load saved messages:', error);
+        const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+        this.setState({ ...this.state, error: message || 'Failed to load saved messages' });
+        return;
+      }
+
+      try {
+        const bookmarks = await getLocalBookmarks(userId);
+        if (this.userId !== userId) return;
+        this.setState({ bookmarks: bookmarks.sort(byCreatedAtDesc), source: 'local', error: null });
+      } catch (localError) {
+        console.error('Failed to load local saved messages:', localError);
+        this.setState({ ...this.state, error: 'Saved messages are not available in this browser' });
+      }
+    }
+  }
+
+  /**
+   * Move bookmarks saved while the backend had no bookmark endpoints to the API
+   */
+  private async uploadLocalBookmarks(userId: number): Promise<void> {
+    let local: Bookmark[];
+    try {
+      local = await getLocalBookmarks(userId);
+    } catch {
+      return; // No local storage, so nothing to upload
+    }
+
+    for (const { message, note } of local) {
+      try {
+        const bookmark = await addBookmark(message.id, note);
+        await deleteLocalBookmark(userId, message.id);
+        if (this.userId === userId) this.upsert(bookmark);
+      } catch (error) {
+        console.error('Failed to upload saved message:', error);
+      }
+    }
+  }
+
+  private requireUser(): number {
+    if (this.userId === null || !this.state.source) {
+      throw new Error('Saved messages are not loaded yet');
+    }
+    return this.userId;
+  }
+
+  private find(messageId: number): Bookmark | undefined {
+    return this.state.bookmarks?.find(bookmark => bookmark.message.id === messageId);
+  }
+
+  private upsert(bookmark: Bookmark): void {
+    const others = (this.state.bookmarks ?? []).filter(b => b.message.id !== bookmark.message.id);
+    this.setState({ ...this.state, bookmarks: [bookmark, ...others].sort(byCreatedAtDesc) });
+  }
+
+  private drop(messageId: number): void {
+    const bookmarks = this.state.bookmarks?.filter(bookmark => bookmark.message.id !== messageId) ?? null;
+    this.setState({ ...this.state, bookmarks });
+  }
+
+  private setState(state: BookmarksState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared bookmark store
+ */
+export const bookmarkStore = new BookmarkStore();
+
+/**
+ * Server snapshot for `useSyncExternalStore` (nothing is loaded during prerender)
+ */
+export function getServerBookmarksState(): BookmarksState {
+  return INITIAL_STATE;
+}
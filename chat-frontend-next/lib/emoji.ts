@@ -0,0 +1,228 @@
+/**
+ * Emoji Helpers
+ *
+ * Search, shortcodes and preferences on top of the bundled dataset
+ * (lib/emojiData), so everything works offline:
+ * - Search by shortcode and keyword
+ * - `:shortcode:` lookup, autocomplete and conversion to Unicode
+ * - Skin-tone modifiers
+ * - Recently used emoji and preferred skin tone, stored per user
+ *
+ * @example
+ * ```ts
+ * import { replaceShortcodes, searchEmoji } from '@/lib/emoji';
+ *
+ * replaceShortcodes('ship it :rocket:'); // 'ship it 🚀'
+ * searchEmoji('thumb').map(e => e.char); // ['👍', '👎']
+ * ```
+ */
+
+import { EMOJI, type Emoji } from './emojiData';
+
+export { EMOJI, EMOJI_CATEGORIES } from './emojiData';
+export type { Emoji, EmojiCategory, EmojiCategoryId } from './emojiData';
+
+/**
+ * Skin tone: 0 is the default (yellow), 1-5 are Fitzpatrick types 1-2 to 6
+ */
+export type SkinTone = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const SKIN_TONE_MODIFIERS = ['', '\u{1F3FB}', '\u{1F3FC}', '\u{1F3FD}', '\u{1F3FE}', '\u{1F3FF}'];
+
+/**
+ * Per-user emoji preferences
+ */
+export interface EmojiPreferences {
+  /** Recently used emoji (default tone), most recent first */
+  recent: string[];
+  skinTone: SkinTone;
+}
+
+/**
+ * `:query` being typed, from `start` (the colon) to the caret
+ */
+export interface ShortcodeQuery {
+  start: number;
+  query: string;
+}
+
+const STORAGE_KEY_PREFIX = 'emoji';
+const MAX_RECENT = 24;
+
+// `:` at the start of a word followed by at least two shortcode characters
+const SHORTCODE_QUERY_PATTERN = /(?:^|\s):([\w+-]{2,32})$/;
+const SHORTCODE_PATTERN = /:([\w+-]{1,32}):/g;
+
+// Code spans and blocks keep their text as typed
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+const BY_SHORTCODE = new Map<string, Emoji>();
+const BY_CHAR = new Map<string, Emoji>();
+for (const emoji of EMOJI) {
+  emoji.shortcodes.forEach(code => BY_SHORTCODE.set(code, emoji));
+  BY_CHAR.set(emoji.char, emoji);
+}
+
+/**
+ * Look up an emoji by shortcode
+ *
+ * @param shortcode - Shortcode without colons
+ * @returns The emoji, or undefined if unknown
+ */
+export function findEmojiByShortcode(shortcode: string): Emoji | undefined {
+  return BY_SHORTCODE.get(shortcode.toLowerCase());
+}
+
+/**
+ * Look up an emoji by its (default tone) character
+ *
+ * @param char - Emoji character(s)
+ * @returns The emoji, or undefined if not in the dataset
+ */
+export function findEmojiByChar(char: string): Emoji | undefined {
+  return BY_CHAR.get(char);
+}
+
+/**
+ * Emoji character with a skin tone applied (if the emoji supports one)
+ *
+ * @param emoji - Emoji from the dataset
+ * @param tone - Skin tone
+ * @returns Character(s) to insert
+ */
+export function applySkinTone(emoji: Emoji, tone: SkinTone): string {
+  if (!emoji.skinTones || tone === 0) return emoji.char;
+
+  // The modifier follows the base character and replaces the emoji presentation selector
+  const [base, ...rest] = Array.from(emoji.char.replace(/\uFE0F/g, ''));
+  return base + SKIN_TONE_MODIFIERS[tone] + rest.join('');
+}
+
+/**
+ * Search emoji by shortcode and keyword
+ *
+ * @param query - Search text (colons are ignored)
+ * @param limit - Maximum number of results
+ * @returns Shortcode prefix matches first, then other matches
+ */
+export function searchEmoji(query: string, limit: number = Infinity): Emoji[] {
+  const needle = query.toLowerCase().replace(/:/g, '').trim();
+  if (!needle) return [];
+
+  const prefix: Emoji[] = [];
+  const other: Emoji[] = [];
+
+  for (const emoji of EMOJI) {
+    if (emoji.shortcodes.some(code => code.startsWith(needle))) {
+      prefix.push(emoji);
+    } else if (
+      emoji.shortcodes.some(code => code.includes(needle)) ||
+      emoji.keywords.some(keyword => keyword.startsWith(needle))
+    ) {
+      other.push(emoji);
+    }
+  }
+
+  return [...prefix, ...other].slice(0, limit);
+}
+
+/**
+ * Find the shortcode being typed at the caret
+ *
+ * @param text - Input text
+ * @param caret - Caret position
+ * @returns The `:query` before the caret, or null if not typing a shortcode
+ */
+export function findShortcodeQuery(text: string, caret: number): ShortcodeQuery | null {
+  const match = SHORTCODE_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+/**
+ * Convert known `:shortcode:` to Unicode (outside code spans and blocks)
+ *
+ * @param text - Message text
+ * @param tone - Skin tone for emoji that support one
+ * @returns Text with shortcodes replaced; unknown shortcodes are kept
+ */
+export function replaceShortcodes(text: string, tone: SkinTone = 0): string {
+  return text
+    .split(CODE_PATTERN)
+    .map((part, index) => {
+      // Odd parts are the code captured by the split
+      if (index % 2 === 1) return part;
+
+      return part.replace(SHORTCODE_PATTERN, (match, code: string) => {
+        const emoji = findEmojiByShortcode(code);
+        return emoji ? applySkinTone(emoji, tone) : match;
+      });
+    })
+    .join('');
+}
+
+function storageKey(userId: number | null): string {
+  return `${STORAGE_KEY_PREFIX}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Load a user's emoji preferences
+ *
+ * @param userId - Current user's ID (null when unknown)
+ * @returns Stored preferences, or defaults
+ */
+export function loadEmojiPreferences(userId: number | null): EmojiPreferences {
+  const defaults: EmojiPreferences = { recent: [], skinTone: 0 };
+  if (typeof window === 'undefined') return defaults;
+
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return defaults;
+
+    const parsed = JSON.parse(stored) as Partial<EmojiPreferences>;
+    return {
+      recent: Array.isArray(parsed.recent) ? parsed.recent.filter(char => BY_CHAR.has(char)) : [],
+      skinTone: typeof parsed.skinTone === 'number' && parsed.skinTone >= 0 && parsed.skinTone <= 5
+        ? parsed.skinTone as SkinTone
+        : 0,
+    };
+  } catch (error) {
+    console.error('Failed to load emoji preferences:', error);
+    return defaults;
+  }
+}
+
+/**
+ * Save a user's emoji preferences
+ *
+ * @param userId - Current user's ID (null when unknown)
+ * @param preferences - Preferences to store
+ */
+export function saveEmojiPreferences(userId: number | null, preferences: EmojiPreferences): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save emoji preferences:', error);
+  }
+}
+
+/**
+ * Move an emoji to the front of a user's recently used list
+ *
+ * @param userId - Current user's ID (null when unknown)
+ * @param emoji - Emoji that was used
+ * @returns Updated preferences
+ */
+export function recordRecentEmoji(userId: number | null, emoji: Emoji): EmojiPreferences {
+  const preferences = loadEmojiPreferences(userId);
+  const updated: EmojiPreferences = {
+    ...preferences,
+    recent: [emoji.char, ...preferences.recent.filter(char => char !== emoji.char)].slice(0, MAX_RECENT),
+  };
+
+  saveEmojiPreferences(userId, updated);
+  return updated;
+}
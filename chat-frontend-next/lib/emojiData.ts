@@ -0,0 +1,770 @@
+/**
+ * Bundled Emoji Dataset
+ *
+ * The emoji offered by the picker and `:shortcode:` autocomplete, grouped by
+ * category. Shipped with the app so both work offline.
+ *
+ * Each row is `[emoji, shortcodes, keywords, skinTones]`:
+ * - shortcodes: space-separated, the first one is the emoji's name
+ * - keywords: space-separated extra search terms
+ * - skinTones: whether the emoji accepts a skin-tone modifier
+ *
+ * Use the helpers in lib/emoji rather than reading this module directly.
+ */
+
+export type EmojiCategoryId =
+  | 'people'
+  | 'nature'
+  | 'food'
+  | 'activity'
+  | 'travel'
+  | 'objects'
+  | 'symbols'
+  | 'flags';
+
+export interface EmojiCategory {
+  id: EmojiCategoryId;
+  label: string;
+  icon: string;
+}
+
+export interface Emoji {
+  /** Emoji character(s) in the default (yellow) tone */
+  char: string;
+  /** Shortcodes without colons, the first one is the name */
+  shortcodes: string[];
+  keywords: string[];
+  category: EmojiCategoryId;
+  skinTones: boolean;
+}
+
+type EmojiRow = [char: string, shortcodes: string, keywords?: string, skinTones?: boolean];
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  { id: 'people', label: 'Smileys & People', icon: '😀' },
+  { id: 'nature', label: 'Animals & Nature', icon: '🐶' },
+  { id: 'food', label: 'Food & Drink', icon: '🍔' },
+  { id: 'activity', label: 'Activities', icon: '⚽' },
+  { id: 'travel', label: 'Travel & Places', icon: '✈️' },
+  { id: 'objects', label: 'Objects', icon: '💡' },
+  { id: 'symbols', label: 'Symbols', icon: '❤️' },
+  { id: 'flags', label: 'Flags', icon: '🏁' },
+];
+
+const ROWS: Record<EmojiCategoryId, EmojiRow[]> = {
+  people: [
+    ['😀', 'grinning', 'smile happy'],
+    ['😃', 'smiley', 'happy joy'],
+    ['😄', 'smile', 'happy joy laugh'],
+    ['😁', 'grin', 'happy teeth'],
+    ['😆', 'laughing satisfied', 'happy haha'],
+    ['😅', 'sweat_smile', 'relief nervous'],
+    ['🤣', 'rofl', 'lol laughing floor'],
+    ['😂', 'joy', 'tears laugh lol'],
+    ['🙂', 'slightly_smiling_face', 'smile'],
+    ['🙃', 'upside_down_face', 'silly sarcasm'],
+    ['😉', 'wink', 'flirt'],
+    ['😊', 'blush', 'happy proud'],
+    ['😇', 'innocent', 'angel halo'],
+    ['🥰', 'smiling_face_with_three_hearts', 'love crush'],
+    ['😍', 'heart_eyes', 'love crush'],
+    ['🤩', 'star_struck', 'wow amazing'],
+    ['😘', 'kissing_heart', 'kiss love'],
+    ['😋', 'yum', 'tasty delicious'],
+    ['😛', 'stuck_out_tongue', 'silly'],
+    ['😜', 'stuck_out_tongue_winking_eye', 'silly joke'],
+    ['🤪', 'zany_face', 'crazy goofy'],
+    ['😝', 'stuck_out_tongue_closed_eyes', 'silly'],
+    ['🤑', 'money_mouth_face', 'rich'],
+    ['🤗', 'hugs', 'hug'],
+    ['🤭', 'hand_over_mouth', 'oops giggle'],
+    ['🤫', 'shushing_face', 'quiet secret'],
+    ['🤔', 'thinking', 'hmm wonder'],
+    ['🤐', 'zipper_mouth_face', 'secret silent'],
+    ['🤨', 'raised_eyebrow', 'suspicious skeptical'],
+    ['😐', 'neutral_face', 'meh'],
+    ['😑', 'expressionless', 'blank'],
+    ['😶', 'no_mouth', 'silent'],
+    ['😏', 'smirk', 'smug'],
+    ['😒', 'unamused', 'meh annoyed'],
+    ['🙄', 'roll_eyes', 'eyeroll whatever'],
+    ['😬', 'grimacing', 'awkward oops'],
+    ['😌', 'relieved', 'calm'],
+    ['😔', 'pensive', 'sad'],
+    ['😪', 'sleepy', 'tired'],
+    ['🤤', 'drooling_face', 'hungry'],
+    ['😴', 'sleeping', 'zzz tired'],
+    ['😷', 'mask', 'sick ill'],
+    ['🤒', 'face_with_thermometer', 'sick fever'],
+    ['🤕', 'face_with_head_bandage', 'hurt injured'],
+    ['🤢', 'nauseated_face', 'sick gross'],
+    ['🤮', 'vomiting_face', 'sick puke'],
+    ['🤧', 'sneezing_face', 'sick cold'],
+    ['🥵', 'hot_face', 'heat sweating'],
+    ['🥶', 'cold_face', 'freezing'],
+    ['🥴', 'woozy_face', 'dizzy drunk'],
+    ['😵', 'dizzy_face', 'dizzy'],
+    ['🤯', 'exploding_head', 'mind blown shocked'],
+    ['🤠', 'cowboy_hat_face', 'cowboy'],
+    ['🥳', 'partying_face', 'party celebrate birthday'],
+    ['😎', 'sunglasses', 'cool'],
+    ['🤓', 'nerd_face', 'geek'],
+    ['🧐', 'monocle_face', 'inspect curious'],
+    ['😕', 'confused', 'puzzled'],
+    ['😟', 'worried', 'nervous'],
+    ['🙁', 'slightly_frowning_face', 'sad'],
+    ['😮', 'open_mouth', 'surprise wow'],
+    ['😯', 'hushed', 'surprise'],
+    ['😲', 'astonished', 'shocked amazed'],
+    ['😳', 'flushed', 'embarrassed'],
+    ['🥺', 'pleading_face', 'puppy eyes please'],
+    ['😦', 'frowning', 'sad'],
+    ['😧', 'anguished', 'stunned'],
+    ['😨', 'fearful', 'scared'],
+    ['😰', 'cold_sweat', 'nervous anxious'],
+    ['😥', 'disappointed_relieved', 'phew'],
+    ['😢', 'cry', 'sad tear'],
+    ['😭', 'sob', 'sad cry bawling'],
+    ['😱', 'scream', 'horror shocked'],
+    ['😖', 'confounded', 'frustrated'],
+    ['😣', 'persevere', 'struggle'],
+    ['😞', 'disappointed', 'sad'],
+    ['😓', 'sweat', 'hot'],
+    ['😩', 'weary', 'tired'],
+    ['😫', 'tired_face', 'exhausted'],
+    ['🥱', 'yawning_face', 'bored tired'],
+    ['😤', 'triumph', 'huff proud'],
+    ['😡', 'rage', 'angry mad'],
+    ['😠', 'angry', 'mad annoyed'],
+    ['🤬', 'cursing_face', 'swearing angry'],
+    ['😈', 'smiling_imp', 'devil evil'],
+    ['💀', 'skull', 'dead dying lol'],
+    ['💩', 'poop', 'hankey shit'],
+    ['🤡', 'clown_face', 'clown'],
+    ['👻', 'ghost', 'halloween boo'],
+    ['👽', 'alien', 'ufo'],
+    ['🤖', 'robot', 'bot machine'],
+    ['😺', 'smiley_cat', 'cat happy'],
+    ['🙈', 'see_no_evil', 'monkey oops'],
+    ['🙉', 'hear_no_evil', 'monkey'],
+    ['🙊', 'speak_no_evil', 'monkey oops'],
+    ['👋', 'wave', 'hello hi bye', true],
+    ['🤚', 'raised_back_of_hand', 'hand', true],
+    ['🖐️', 'raised_hand_with_fingers_splayed', 'hand five', true],
+    ['✋', 'hand raised_hand', 'stop high five', true],
+    ['🖖', 'vulcan_salute', 'spock', true],
+    ['👌', 'ok_hand', 'ok perfect', true],
+    ['🤌', 'pinched_fingers', 'italian', true],
+    ['🤏', 'pinching_hand', 'small tiny', true],
+    ['✌️', 'v', 'peace victory', true],
+    ['🤞', 'crossed_fingers', 'luck hope', true],
+    ['🤟', 'love_you_gesture', 'love', true],
+    ['🤘', 'metal', 'rock horns', true],
+    ['🤙', 'call_me_hand', 'call shaka', true],
+    ['👈', 'point_left', 'left', true],
+    ['👉', 'point_right', 'right', true],
+    ['👆', 'point_up_2', 'up', true],
+    ['👇', 'point_down', 'down', true],
+    ['☝️', 'point_up', 'up one', true],
+    ['👍', '+1 thumbsup', 'yes like agree approve', true],
+    ['👎', '-1 thumbsdown', 'no dislike disagree', true],
+    ['✊', 'fist_raised fist', 'power', true],
+    ['👊', 'fist_oncoming punch', 'bump', true],
+    ['🤛', 'fist_left', 'bump', true],
+    ['🤜', 'fist_right', 'bump', true],
+    ['👏', 'clap', 'applause bravo', true],
+    ['🙌', 'raised_hands', 'hooray celebrate', true],
+    ['👐', 'open_hands', 'hug', true],
+    ['🤲', 'palms_up_together', 'please', true],
+    ['🤝', 'handshake', 'deal agreement'],
+    ['🙏', 'pray', 'please thanks hope', true],
+    ['✍️', 'writing_hand', 'write', true],
+    ['💅', 'nail_care', 'manicure', true],
+    ['💪', 'muscle', 'strong flex', true],
+    ['🧠', 'brain', 'smart'],
+    ['👀', 'eyes', 'look see watching'],
+    ['👁️', 'eye', 'look'],
+    ['👂', 'ear', 'hear listen', true],
+    ['👃', 'nose', 'smell', true],
+    ['👄', 'lips', 'mouth'],
+    ['👶', 'baby', 'child', true],
+    ['🧒', 'child', 'kid', true],
+    ['👦', 'boy', 'kid', true],
+    ['👧', 'girl', 'kid', true],
+    ['🧑', 'adult', 'person', true],
+    ['👨', 'man', 'person', true],
+    ['👩', 'woman', 'person', true],
+    ['🧓', 'older_adult', 'old', true],
+    ['👴', 'older_man', 'old grandpa', true],
+    ['👵', 'older_woman', 'old grandma', true],
+    ['🙋', 'raising_hand', 'question me', true],
+    ['🤷', 'shrug', 'dunno whatever', true],
+    ['🤦', 'facepalm', 'ugh disbelief', true],
+    ['🙇', 'bow', 'sorry respect', true],
+    ['🏃', 'runner running', 'run fast', true],
+    ['🚶', 'walking', 'walk', true],
+    ['💃', 'dancer', 'dance party', true],
+    ['🕺', 'man_dancing', 'dance party', true],
+    ['👯', 'dancers', 'party'],
+    ['🧑‍💻', 'technologist', 'developer coder programmer laptop'],
+    ['🕵️', 'detective', 'spy investigate'],
+    ['👑', 'crown', 'king queen royal'],
+    ['🎩', 'tophat', 'hat classy'],
+    ['👓', 'eyeglasses', 'glasses'],
+  ],
+  nature: [
+    ['🐶', 'dog', 'puppy pet'],
+    ['🐱', 'cat', 'kitten pet'],
+    ['🐭', 'mouse', 'rodent'],
+    ['🐹', 'hamster', 'pet'],
+    ['🐰', 'rabbit', 'bunny'],
+    ['🦊', 'fox_face', 'fox'],
+    ['🐻', 'bear', 'animal'],
+    ['🐼', 'panda_face', 'panda'],
+    ['🐨', 'koala', 'animal'],
+    ['🐯', 'tiger', 'cat'],
+    ['🦁', 'lion', 'cat king'],
+    ['🐮', 'cow', 'moo'],
+    ['🐷', 'pig', 'oink'],
+    ['🐸', 'frog', 'toad'],
+    ['🐵', 'monkey_face', 'monkey'],
+    ['🐔', 'chicken', 'bird'],
+    ['🐧', 'penguin', 'bird linux'],
+    ['🐦', 'bird', 'tweet'],
+    ['🐤', 'baby_chick', 'bird'],
+    ['🦆', 'duck', 'bird rubber'],
+    ['🦅', 'eagle', 'bird'],
+    ['🦉', 'owl', 'bird night'],
+    ['🦇', 'bat', 'night'],
+    ['🐺', 'wolf', 'animal'],
+    ['🐗', 'boar', 'pig'],
+    ['🐴', 'horse', 'pony'],
+    ['🦄', 'unicorn', 'magic'],
+    ['🐝', 'bee honeybee', 'insect buzz'],
+    ['🐛', 'bug', 'insect caterpillar'],
+    ['🦋', 'butterfly', 'insect'],
+    ['🐌', 'snail', 'slow'],
+    ['🐞', 'lady_beetle', 'ladybug insect'],
+    ['🐜', 'ant', 'insect'],
+    ['🕷️', 'spider', 'insect'],
+    ['🐢', 'turtle', 'slow'],
+    ['🐍', 'snake', 'python'],
+    ['🦎', 'lizard', 'reptile'],
+    ['🦖', 't-rex', 'dinosaur'],
+    ['🐙', 'octopus', 'sea'],
+    ['🦑', 'squid', 'sea'],
+    ['🦀', 'crab', 'rust ferris'],
+    ['🐠', 'tropical_fish', 'fish'],
+    ['🐟', 'fish', 'sea'],
+    ['🐬', 'dolphin', 'sea'],
+    ['🐳', 'whale', 'sea docker'],
+    ['🦈', 'shark', 'sea'],
+    ['🐊', 'crocodile', 'reptile'],
+    ['🐘', 'elephant', 'animal'],
+    ['🦒', 'giraffe', 'animal'],
+    ['🐪', 'dromedary_camel', 'camel desert'],
+    ['🐐', 'goat', 'animal'],
+    ['🐑', 'sheep', 'lamb'],
+    ['🐈', 'cat2', 'cat pet'],
+    ['🐕', 'dog2', 'dog pet'],
+    ['🐿️', 'chipmunk', 'squirrel'],
+    ['🦔', 'hedgehog', 'animal'],
+    ['🐾', 'feet paw_prints', 'paws'],
+    ['🌵', 'cactus', 'plant desert'],
+    ['🎄', 'christmas_tree', 'holiday'],
+    ['🌲', 'evergreen_tree', 'tree'],
+    ['🌳', 'deciduous_tree', 'tree'],
+    ['🌴', 'palm_tree', 'tropical'],
+    ['🌱', 'seedling', 'plant sprout'],
+    ['🌿', 'herb', 'plant'],
+    ['☘️', 'shamrock', 'luck irish'],
+    ['🍀', 'four_leaf_clover', 'luck'],
+    ['🍁', 'maple_leaf', 'autumn canada'],
+    ['🍂', 'fallen_leaf', 'autumn'],
+    ['🍄', 'mushroom', 'fungus'],
+    ['💐', 'bouquet', 'flowers'],
+    ['🌷', 'tulip', 'flower'],
+    ['🌹', 'rose', 'flower love'],
+    ['🌺', 'hibiscus', 'flower'],
+    ['🌸', 'cherry_blossom', 'flower spring'],
+    ['🌼', 'blossom', 'flower'],
+    ['🌻', 'sunflower', 'flower'],
+    ['🌞', 'sun_with_face', 'sunny'],
+    ['🌝', 'full_moon_with_face', 'moon'],
+    ['🌙', 'crescent_moon', 'night moon'],
+    ['🌎', 'earth_americas', 'world globe'],
+    ['🌍', 'earth_africa', 'world globe'],
+    ['🌏', 'earth_asia', 'world globe'],
+    ['⭐', 'star', 'favorite'],
+    ['🌟', 'star2', 'glowing star'],
+    ['✨', 'sparkles', 'shiny new magic'],
+    ['⚡', 'zap', 'lightning fast electric'],
+    ['🔥', 'fire', 'hot lit flame'],
+    ['💥', 'boom collision', 'explosion'],
+    ['☀️', 'sunny', 'sun weather'],
+    ['⛅', 'partly_sunny', 'weather cloud'],
+    ['☁️', 'cloud', 'weather'],
+    ['🌧️', 'cloud_with_rain', 'weather rain'],
+    ['⛈️', 'cloud_with_lightning_and_rain', 'weather storm'],
+    ['❄️', 'snowflake', 'cold winter'],
+    ['☃️', 'snowman_with_snow', 'winter'],
+    ['⛄', 'snowman', 'winter'],
+    ['🌈', 'rainbow', 'pride'],
+    ['🌊', 'ocean', 'wave sea'],
+    ['💧', 'droplet', 'water'],
+  ],
+  food: [
+    ['🍏', 'green_apple', 'fruit'],
+    ['🍎', 'apple', 'fruit'],
+    ['🍐', 'pear', 'fruit'],
+    ['🍊', 'tangerine orange', 'fruit'],
+    ['🍋', 'lemon', 'fruit'],
+    ['🍌', 'banana', 'fruit'],
+    ['🍉', 'watermelon', 'fruit'],
+    ['🍇', 'grapes', 'fruit'],
+    ['🍓', 'strawberry', 'fruit'],
+    ['🫐', 'blueberries', 'fruit'],
+    ['🍒', 'cherries', 'fruit'],
+    ['🍑', 'peach', 'fruit'],
+    ['🥭', 'mango', 'fruit'],
+    ['🍍', 'pineapple', 'fruit'],
+    ['🥥', 'coconut', 'fruit'],
+    ['🥝', 'kiwi_fruit', 'fruit'],
+    ['🍅', 'tomato', 'vegetable'],
+    ['🥑', 'avocado', 'fruit'],
+    ['🍆', 'eggplant', 'vegetable'],
+    ['🥔', 'potato', 'vegetable'],
+    ['🥕', 'carrot', 'vegetable'],
+    ['🌽', 'corn', 'vegetable'],
+    ['🌶️', 'hot_pepper', 'spicy'],
+    ['🥦', 'broccoli', 'vegetable'],
+    ['🧄', 'garlic', 'vegetable'],
+    ['🧅', 'onion', 'vegetable'],
+    ['🥐', 'croissant', 'bread'],
+    ['🍞', 'bread', 'toast'],
+    ['🥖', 'baguette_bread', 'bread french'],
+    ['🧀', 'cheese', 'food'],
+    ['🥚', 'egg', 'food'],
+    ['🍳', 'fried_egg', 'breakfast cooking'],
+    ['🥞', 'pancakes', 'breakfast'],
+    ['🥓', 'bacon', 'breakfast'],
+    ['🍗', 'poultry_leg', 'chicken'],
+    ['🍖', 'meat_on_bone', 'meat'],
+    ['🌭', 'hotdog', 'food'],
+    ['🍔', 'hamburger', 'burger'],
+    ['🍟', 'fries', 'chips'],
+    ['🍕', 'pizza', 'food'],
+    ['🥪', 'sandwich', 'food'],
+    ['🌮', 'taco', 'mexican'],
+    ['🌯', 'burrito', 'mexican'],
+    ['🥗', 'green_salad', 'salad healthy'],
+    ['🍝', 'spaghetti', 'pasta'],
+    ['🍜', 'ramen', 'noodles'],
+    ['🍲', 'stew', 'soup'],
+    ['🍛', 'curry', 'rice'],
+    ['🍣', 'sushi', 'japanese fish'],
+    ['🍱', 'bento', 'japanese'],
+    ['🥟', 'dumpling', 'food'],
+    ['🍚', 'rice', 'food'],
+    ['🍙', 'rice_ball', 'japanese'],
+    ['🍤', 'fried_shrimp', 'tempura'],
+    ['🍦', 'icecream', 'dessert'],
+    ['🍨', 'ice_cream', 'dessert'],
+    ['🍩', 'doughnut', 'donut dessert'],
+    ['🍪', 'cookie', 'dessert'],
+    ['🎂', 'birthday', 'cake party'],
+    ['🍰', 'cake', 'dessert'],
+    ['🧁', 'cupcake', 'dessert'],
+    ['🥧', 'pie', 'dessert'],
+    ['🍫', 'chocolate_bar', 'chocolate'],
+    ['🍬', 'candy', 'sweet'],
+    ['🍭', 'lollipop', 'sweet'],
+    ['🍿', 'popcorn', 'movie'],
+    ['🥜', 'peanuts', 'nuts'],
+    ['🍯', 'honey_pot', 'honey'],
+    ['🥛', 'milk_glass', 'milk'],
+    ['☕', 'coffee', 'cafe tea espresso'],
+    ['🍵', 'tea', 'green tea'],
+    ['🧃', 'beverage_box', 'juice'],
+    ['🥤', 'cup_with_straw', 'soda'],
+    ['🧋', 'bubble_tea', 'boba'],
+    ['🍺', 'beer', 'drink'],
+    ['🍻', 'beers', 'cheers drinks'],
+    ['🥂', 'clinking_glasses', 'cheers celebrate'],
+    ['🍷', 'wine_glass', 'wine'],
+    ['🥃', 'tumbler_glass', 'whisky'],
+    ['🍸', 'cocktail', 'martini'],
+    ['🍹', 'tropical_drink', 'cocktail'],
+    ['🍾', 'champagne', 'celebrate'],
+    ['🧊', 'ice_cube', 'cold'],
+    ['🍴', 'fork_and_knife', 'cutlery'],
+  ],
+  activity: [
+    ['⚽', 'soccer', 'football'],
+    ['🏀', 'basketball', 'sport'],
+    ['🏈', 'football', 'american'],
+    ['⚾', 'baseball', 'sport'],
+    ['🎾', 'tennis', 'sport'],
+    ['🏐', 'volleyball', 'sport'],
+    ['🏉', 'rugby_football', 'rugby'],
+    ['🎱', '8ball', 'pool billiards'],
+    ['🏓', 'ping_pong', 'table tennis'],
+    ['🏸', 'badminton', 'sport'],
+    ['🥅', 'goal_net', 'goal'],
+    ['⛳', 'golf', 'sport'],
+    ['🏹', 'bow_and_arrow', 'archery'],
+    ['🎣', 'fishing_pole_and_fish', 'fishing'],
+    ['🥊', 'boxing_glove', 'boxing'],
+    ['🥋', 'martial_arts_uniform', 'karate'],
+    ['⛸️', 'ice_skate', 'skating'],
+    ['🎿', 'ski', 'skiing winter'],
+    ['🏂', 'snowboarder', 'winter'],
+    ['🏋️', 'weight_lifting', 'gym'],
+    ['🚴', 'bicyclist', 'cycling bike'],
+    ['🏆', 'trophy', 'win award champion'],
+    ['🥇', '1st_place_medal', 'gold first'],
+    ['🥈', '2nd_place_medal', 'silver second'],
+    ['🥉', '3rd_place_medal', 'bronze third'],
+    ['🏅', 'medal_sports', 'award'],
+    ['🎖️', 'medal_military', 'award'],
+    ['🎫', 'ticket', 'event'],
+    ['🎪', 'circus_tent', 'circus'],
+    ['🎭', 'performing_arts', 'theater'],
+    ['🎨', 'art', 'paint design'],
+    ['🎬', 'clapper', 'movie film'],
+    ['🎤', 'microphone', 'sing karaoke'],
+    ['🎧', 'headphones', 'music'],
+    ['🎼', 'musical_score', 'music'],
+    ['🎹', 'musical_keyboard', 'piano'],
+    ['🥁', 'drum', 'music'],
+    ['🎷', 'saxophone', 'music jazz'],
+    ['🎺', 'trumpet', 'music'],
+    ['🎸', 'guitar', 'music rock'],
+    ['🎻', 'violin', 'music'],
+    ['🎲', 'game_die', 'dice game'],
+    ['♟️', 'chess_pawn', 'chess'],
+    ['🎯', 'dart', 'target bullseye'],
+    ['🎳', 'bowling', 'game'],
+    ['🎮', 'video_game', 'gaming controller'],
+    ['🕹️', 'joystick', 'gaming'],
+    ['🧩', 'jigsaw', 'puzzle'],
+    ['🎉', 'tada', 'party celebrate hooray'],
+    ['🎊', 'confetti_ball', 'party'],
+    ['🎈', 'balloon', 'party birthday'],
+    ['🎁', 'gift', 'present birthday'],
+    ['🎀', 'ribbon', 'gift'],
+    ['🎃', 'jack_o_lantern', 'halloween pumpkin'],
+    ['🎆', 'fireworks', 'celebrate'],
+    ['🎇', 'sparkler', 'fireworks'],
+  ],
+  travel: [
+    ['🚗', 'car red_car', 'drive'],
+    ['🚕', 'taxi', 'cab'],
+    ['🚙', 'blue_car', 'suv'],
+    ['🚌', 'bus', 'transport'],
+    ['🏎️', 'racing_car', 'fast race'],
+    ['🚓', 'police_car', 'police'],
+    ['🚑', 'ambulance', 'emergency'],
+    ['🚒', 'fire_engine', 'fire truck'],
+    ['🚚', 'truck', 'delivery'],
+    ['🚜', 'tractor', 'farm'],
+    ['🚲', 'bike', 'bicycle'],
+    ['🛴', 'kick_scooter', 'scooter'],
+    ['🏍️', 'motorcycle', 'bike'],
+    ['🚨', 'rotating_light', 'alert siren emergency'],
+    ['🚥', 'traffic_light', 'signal'],
+    ['🚧', 'construction', 'wip work in progress'],
+    ['⚓', 'anchor', 'ship'],
+    ['⛵', 'boat sailboat', 'sailing'],
+    ['🚤', 'speedboat', 'boat'],
+    ['🚢', 'ship', 'boat cruise'],
+    ['✈️', 'airplane', 'flight travel'],
+    ['🛫', 'flight_departure', 'takeoff'],
+    ['🛬', 'flight_arrival', 'landing'],
+    ['🚁', 'helicopter', 'flight'],
+    ['🚀', 'rocket', 'launch ship deploy fast'],
+    ['🛸', 'flying_saucer', 'ufo'],
+    ['🚂', 'steam_locomotive', 'train'],
+    ['🚆', 'train2', 'train'],
+    ['🚇', 'metro', 'subway'],
+    ['🗺️', 'world_map', 'map'],
+    ['🧭', 'compass', 'navigation'],
+    ['🏔️', 'mountain_snow', 'mountain'],
+    ['🌋', 'volcano', 'mountain'],
+    ['🏕️', 'camping', 'tent'],
+    ['🏖️', 'beach_umbrella', 'beach vacation'],
+    ['🏝️', 'desert_island', 'island vacation'],
+    ['🏠', 'house', 'home'],
+    ['🏡', 'house_with_garden', 'home'],
+    ['🏢', 'office', 'building work'],
+    ['🏥', 'hospital', 'health'],
+    ['🏦', 'bank', 'money'],
+    ['🏨', 'hotel', 'travel'],
+    ['🏫', 'school', 'education'],
+    ['🏰', 'european_castle', 'castle'],
+    ['🗼', 'tokyo_tower', 'tower'],
+    ['🗽', 'statue_of_liberty', 'new york'],
+    ['⛪', 'church', 'religion'],
+    ['⛲', 'fountain', 'park'],
+    ['🌁', 'foggy', 'fog'],
+    ['🌃', 'night_with_stars', 'night city'],
+    ['🌅', 'sunrise', 'morning'],
+    ['🌇', 'city_sunset', 'evening'],
+    ['🌉', 'bridge_at_night', 'bridge'],
+    ['🎡', 'ferris_wheel', 'fair'],
+    ['🎢', 'roller_coaster', 'fair'],
+    ['⏰', 'alarm_clock', 'time wake'],
+    ['⏳', 'hourglass_flowing_sand', 'time waiting'],
+    ['⌛', 'hourglass', 'time'],
+    ['⌚', 'watch', 'time'],
+  ],
+  objects: [
+    ['📱', 'iphone', 'phone mobile'],
+    ['💻', 'computer', 'laptop'],
+    ['🖥️', 'desktop_computer', 'computer monitor'],
+    ['⌨️', 'keyboard', 'typing'],
+    ['🖱️', 'computer_mouse', 'mouse'],
+    ['🖨️', 'printer', 'print'],
+    ['💾', 'floppy_disk', 'save'],
+    ['💿', 'cd', 'disc'],
+    ['📷', 'camera', 'photo'],
+    ['📹', 'video_camera', 'video'],
+    ['🎥', 'movie_camera', 'film'],
+    ['📺', 'tv', 'television'],
+    ['📻', 'radio', 'music'],
+    ['☎️', 'phone telephone', 'call'],
+    ['🔋', 'battery', 'power'],
+    ['🔌', 'electric_plug', 'power'],
+    ['💡', 'bulb', 'idea light'],
+    ['🔦', 'flashlight', 'light'],
+    ['🕯️', 'candle', 'light'],
+    ['🧯', 'fire_extinguisher', 'fire'],
+    ['💸', 'money_with_wings', 'spend money'],
+    ['💵', 'dollar', 'money'],
+    ['💰', 'moneybag', 'money rich'],
+    ['💳', 'credit_card', 'payment'],
+    ['💎', 'gem', 'diamond jewel'],
+    ['⚖️', 'balance_scale', 'law justice'],
+    ['🔧', 'wrench', 'tool fix'],
+    ['🔨', 'hammer', 'tool'],
+    ['🛠️', 'hammer_and_wrench', 'tools fix build'],
+    ['⚙️', 'gear', 'settings config'],
+    ['🔩', 'nut_and_bolt', 'tool'],
+    ['🧰', 'toolbox', 'tools'],
+    ['🧲', 'magnet', 'attract'],
+    ['🔫', 'water_gun', 'pistol'],
+    ['💣', 'bomb', 'explode'],
+    ['🔪', 'hocho knife', 'cut'],
+    ['🛡️', 'shield', 'security protect'],
+    ['🔮', 'crystal_ball', 'magic future'],
+    ['💊', 'pill', 'medicine'],
+    ['💉', 'syringe', 'vaccine'],
+    ['🧬', 'dna', 'science'],
+    ['🔬', 'microscope', 'science'],
+    ['🔭', 'telescope', 'science space'],
+    ['🧪', 'test_tube', 'science test experiment'],
+    ['🧹', 'broom', 'clean cleanup'],
+    ['🧺', 'basket', 'laundry'],
+    ['🚽', 'toilet', 'bathroom'],
+    ['🛁', 'bathtub', 'bath'],
+    ['🔑', 'key', 'lock password'],
+    ['🗝️', 'old_key', 'key'],
+    ['🚪', 'door', 'exit'],
+    ['🛏️', 'bed', 'sleep'],
+    ['🛒', 'shopping_cart', 'shop'],
+    ['🎒', 'school_satchel', 'backpack'],
+    ['👕', 'shirt tshirt', 'clothes'],
+    ['👖', 'jeans', 'clothes'],
+    ['👟', 'athletic_shoe', 'sneaker'],
+    ['💼', 'briefcase', 'work business'],
+    ['🌂', 'closed_umbrella', 'rain'],
+    ['✉️', 'email envelope', 'mail letter'],
+    ['📧', 'e-mail', 'mail'],
+    ['📨', 'incoming_envelope', 'mail'],
+    ['📦', 'package', 'box shipping release'],
+    ['📫', 'mailbox', 'mail'],
+    ['📝', 'memo pencil', 'note write'],
+    ['✏️', 'pencil2', 'write edit'],
+    ['🖊️', 'pen', 'write'],
+    ['📁', 'file_folder', 'folder directory'],
+    ['📂', 'open_file_folder', 'folder'],
+    ['📅', 'date', 'calendar'],
+    ['📆', 'calendar', 'schedule'],
+    ['📈', 'chart_with_upwards_trend', 'graph growth up'],
+    ['📉', 'chart_with_downwards_trend', 'graph down'],
+    ['📊', 'bar_chart', 'stats graph'],
+    ['📋', 'clipboard', 'copy list'],
+    ['📌', 'pushpin', 'pin'],
+    ['📍', 'round_pushpin', 'location pin'],
+    ['📎', 'paperclip', 'attachment'],
+    ['📏', 'straight_ruler', 'ruler measure'],
+    ['✂️', 'scissors', 'cut'],
+    ['🗑️', 'wastebasket', 'trash delete'],
+    ['🔒', 'lock', 'secure private'],
+    ['🔓', 'unlock', 'open'],
+    ['🔔', 'bell', 'notification'],
+    ['🔕', 'no_bell', 'mute silent'],
+    ['📣', 'mega', 'announcement'],
+    ['📢', 'loudspeaker', 'announcement'],
+    ['💬', 'speech_balloon', 'chat comment'],
+    ['💭', 'thought_balloon', 'thinking'],
+    ['📚', 'books', 'library read'],
+    ['📖', 'book open_book', 'read docs'],
+    ['🔖', 'bookmark', 'save'],
+    ['🏷️', 'label', 'tag'],
+    ['🔗', 'link', 'url chain'],
+    ['🔍', 'mag', 'search zoom'],
+  ],
+  symbols: [
+    ['❤️', 'heart', 'love red'],
+    ['🧡', 'orange_heart', 'love'],
+    ['💛', 'yellow_heart', 'love'],
+    ['💚', 'green_heart', 'love'],
+    ['💙', 'blue_heart', 'love'],
+    ['💜', 'purple_heart', 'love'],
+    ['🖤', 'black_heart', 'love'],
+    ['🤍', 'white_heart', 'love'],
+    ['🤎', 'brown_heart', 'love'],
+    ['💔', 'broken_heart', 'sad'],
+    ['❣️', 'heavy_heart_exclamation', 'love'],
+    ['💕', 'two_hearts', 'love'],
+    ['💖', 'sparkling_heart', 'love'],
+    ['💗', 'heartpulse', 'love'],
+    ['💘', 'cupid', 'love'],
+    ['💯', '100', 'perfect score hundred'],
+    ['💢', 'anger', 'angry'],
+    ['💤', 'zzz', 'sleep'],
+    ['💫', 'dizzy', 'star'],
+    ['💦', 'sweat_drops', 'water'],
+    ['🕳️', 'hole', 'empty'],
+    ['✅', 'white_check_mark', 'done yes ok check'],
+    ['☑️', 'ballot_box_with_check', 'done check'],
+    ['✔️', 'heavy_check_mark', 'done check'],
+    ['❌', 'x', 'no cross wrong'],
+    ['❎', 'negative_squared_cross_mark', 'no'],
+    ['➕', 'heavy_plus_sign', 'plus add'],
+    ['➖', 'heavy_minus_sign', 'minus'],
+    ['➗', 'heavy_division_sign', 'divide'],
+    ['✖️', 'heavy_multiplication_x', 'multiply'],
+    ['❓', 'question', 'what huh'],
+    ['❔', 'grey_question', 'question'],
+    ['❗', 'exclamation heavy_exclamation_mark', 'important'],
+    ['❕', 'grey_exclamation', 'important'],
+    ['‼️', 'bangbang', 'exclamation'],
+    ['⁉️', 'interrobang', 'what'],
+    ['⚠️', 'warning', 'caution alert'],
+    ['🚫', 'no_entry_sign', 'forbidden'],
+    ['⛔', 'no_entry', 'stop forbidden'],
+    ['🛑', 'stop_sign', 'stop'],
+    ['♻️', 'recycle', 'environment'],
+    ['🔰', 'beginner', 'new'],
+    ['🆕', 'new', 'fresh'],
+    ['🆗', 'ok', 'okay'],
+    ['🆒', 'cool', 'nice'],
+    ['🆓', 'free', 'gratis'],
+    ['🆘', 'sos', 'help emergency'],
+    ['🔝', 'top', 'up'],
+    ['🔜', 'soon', 'later'],
+    ['🔙', 'back', 'return'],
+    ['ℹ️', 'information_source', 'info'],
+    ['🔴', 'red_circle', 'red dot'],
+    ['🟠', 'orange_circle', 'orange dot'],
+    ['🟡', 'yellow_circle', 'yellow dot'],
+    ['🟢', 'green_circle', 'green dot online'],
+    ['🔵', 'large_blue_circle', 'blue dot'],
+    ['🟣', 'purple_circle', 'purple dot'],
+    ['⚫', 'black_circle', 'black dot'],
+    ['⚪', 'white_circle', 'white dot'],
+    ['🔺', 'small_red_triangle', 'up'],
+    ['🔻', 'small_red_triangle_down', 'down'],
+    ['🔶', 'large_orange_diamond', 'diamond'],
+    ['🔷', 'large_blue_diamond', 'diamond'],
+    ['⬆️', 'arrow_up', 'up'],
+    ['⬇️', 'arrow_down', 'down'],
+    ['⬅️', 'arrow_left', 'left'],
+    ['➡️', 'arrow_right', 'right'],
+    ['↩️', 'leftwards_arrow_with_hook', 'return undo'],
+    ['↪️', 'arrow_right_hook', 'redo'],
+    ['🔄', 'arrows_counterclockwise', 'refresh sync reload'],
+    ['🔁', 'repeat', 'loop'],
+    ['▶️', 'arrow_forward', 'play'],
+    ['⏸️', 'pause_button', 'pause'],
+    ['⏹️', 'stop_button', 'stop'],
+    ['⏩', 'fast_forward', 'skip'],
+    ['🔀', 'twisted_rightwards_arrows', 'shuffle'],
+    ['🎵', 'musical_note', 'music'],
+    ['🎶', 'notes', 'music'],
+    ['〰️', 'wavy_dash', 'wave'],
+    ['©️', 'copyright', 'legal'],
+    ['®️', 'registered', 'legal'],
+    ['™️', 'tm', 'trademark'],
+    ['#️⃣', 'hash', 'number'],
+    ['0️⃣', 'zero', 'number'],
+    ['1️⃣', 'one', 'number'],
+    ['2️⃣', 'two', 'number'],
+    ['3️⃣', 'three', 'number'],
+    ['🔟', 'keycap_ten', 'number'],
+    ['🔢', '1234', 'numbers'],
+    ['🔤', 'abc', 'alphabet'],
+    ['☮️', 'peace_symbol', 'peace'],
+    ['☯️', 'yin_yang', 'balance'],
+    ['♈', 'aries', 'zodiac'],
+    ['⚛️', 'atom_symbol', 'science react'],
+    ['🏧', 'atm', 'money'],
+    ['♿', 'wheelchair', 'accessibility'],
+    ['🚻', 'restroom', 'toilet'],
+    ['🔇', 'mute', 'silent sound'],
+    ['🔊', 'loud_sound', 'volume'],
+  ],
+  flags: [
+    ['🏁', 'checkered_flag', 'finish race'],
+    ['🚩', 'triangular_flag_on_post', 'red flag'],
+    ['🎌', 'crossed_flags', 'japan'],
+    ['🏴', 'black_flag', 'flag'],
+    ['🏳️', 'white_flag', 'surrender'],
+    ['🏳️‍🌈', 'rainbow_flag', 'pride lgbt'],
+    ['🏴‍☠️', 'pirate_flag', 'pirate jolly roger'],
+    ['🇺🇸', 'us', 'united states america flag'],
+    ['🇬🇧', 'gb uk', 'united kingdom britain flag'],
+    ['🇨🇦', 'canada', 'flag'],
+    ['🇲🇽', 'mexico', 'flag'],
+    ['🇧🇷', 'brazil', 'flag'],
+    ['🇦🇷', 'argentina', 'flag'],
+    ['🇫🇷', 'fr', 'france flag'],
+    ['🇩🇪', 'de', 'germany flag'],
+    ['🇪🇸', 'es', 'spain flag'],
+    ['🇮🇹', 'it', 'italy flag'],
+    ['🇵🇹', 'portugal', 'flag'],
+    ['🇳🇱', 'netherlands', 'flag holland'],
+    ['🇸🇪', 'sweden', 'flag'],
+    ['🇳🇴', 'norway', 'flag'],
+    ['🇵🇱', 'poland', 'flag'],
+    ['🇺🇦', 'ukraine', 'flag'],
+    ['🇹🇷', 'tr', 'turkey flag'],
+    ['🇮🇳', 'india', 'flag'],
+    ['🇨🇳', 'cn', 'china flag'],
+    ['🇯🇵', 'jp', 'japan flag'],
+    ['🇰🇷', 'kr', 'korea flag'],
+    ['🇮🇩', 'indonesia', 'flag'],
+    ['🇻🇳', 'vietnam', 'flag'],
+    ['🇦🇺', 'australia', 'flag'],
+    ['🇳🇿', 'new_zealand', 'flag'],
+    ['🇿🇦', 'south_africa', 'flag'],
+    ['🇳🇬', 'nigeria', 'flag'],
+    ['🇪🇬', 'egypt', 'flag'],
+    ['🇪🇺', 'eu european_union', 'europe flag'],
+  ],
+};
+
+/**
+ * All bundled emoji, in picker order
+ */
+export const EMOJI: Emoji[] = EMOJI_CATEGORIES.flatMap(category =>
+  ROWS[category.id].map(([char, shortcodes, keywords = '', skinTones = false]) => ({
+    char,
+    shortcodes: shortcodes.split(' '),
+    keywords: keywords ? keywords.split(' ') : [],
+    category: category.id,
+    skinTones,
+  }))
+);
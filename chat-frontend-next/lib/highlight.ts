@@ -0,0 +1,169 @@
+/**
+ * Lightweight Syntax Highlighter for Code Blocks
+ *
+ * Splits code into tokens (keywords, strings, comments, numbers) with a
+ * single generic tokenizer that covers the languages pasted most often:
+ * - JavaScript / TypeScript, Go, Python, Java, C-like languages, Rust
+ * - Shell, YAML and other `#`-comment languages
+ * - JSON and SQL
+ *
+ * Tokens are rendered as React text nodes, never as HTML.
+ *
+ * @example
+ * ```ts
+ * import { highlightCode } from '@/lib/highlight';
+ *
+ * highlightCode('const a = 1; // one', 'ts');
+ * // [{ type: 'keyword', text: 'const' }, { type: 'plain', text: ' a = ' }, ...]
+ * ```
+ */
+
+export type HighlightTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private',
+  'protected', 'public', 'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  // Go
+  'chan', 'defer', 'func', 'go', 'map', 'package', 'range', 'select', 'struct', 'nil',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise',
+  'True', 'False', 'with',
+  // Rust / C-like
+  'fn', 'impl', 'match', 'mod', 'mut', 'pub', 'trait', 'use', 'where', 'int', 'char',
+  'float', 'double', 'bool', 'string', 'self',
+  // SQL (matched case-insensitively below)
+  'insert', 'update', 'into', 'values', 'join', 'left', 'right', 'inner',
+  'on', 'group', 'by', 'order', 'limit', 'create', 'table', 'drop', 'alter',
+]);
+
+// Languages whose line comments start with `#`
+const HASH_COMMENT_LANGUAGES = new Set([
+  'python', 'py', 'bash', 'sh', 'shell', 'zsh', 'yaml', 'yml', 'ruby', 'rb', 'toml', 'dockerfile', 'makefile',
+]);
+
+// Languages where `--` starts a line comment
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell', 'hs']);
+
+const STRING_QUOTES = new Set(['"', "'", '`']);
+
+// Sticky patterns, matched at a given position without slicing the code
+const NUMBER = /0x[0-9a-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/iy;
+const IDENTIFIER = /[\w$]+/y;
+
+function matchAt(pattern: RegExp, code: string, index: number): string | null {
+  pattern.lastIndex = index;
+  const match = pattern.exec(code);
+  return match ? match[0] : null;
+}
+
+/**
+ * Read a quoted string starting at `start` (up to the closing quote or end of line)
+ */
+function readString(code: string, start: number): number {
+  const quote = code[start];
+  let i = start + 1;
+
+  while (i < code.length) {
+    if (code[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (code[i] === quote) return i + 1;
+    // Only template literals span lines
+    if (code[i] === '\n' && quote !== '`') return i;
+    i++;
+  }
+  return code.length;
+}
+
+/**
+ * Split code into highlight tokens
+ *
+ * @param code - Code block content
+ * @param language - Language from the code fence (null if none)
+ * @returns Tokens; joining their text gives back the code
+ */
+export function highlightCode(code: string, language: string | null): HighlightToken[] {
+  const lang = (language ?? '').toLowerCase();
+  const hashComments = HASH_COMMENT_LANGUAGES.has(lang);
+  const dashComments = DASH_COMMENT_LANGUAGES.has(lang);
+  const slashComments = !hashComments;
+  const caseInsensitive = lang === 'sql';
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    // Line comments
+    if ((slashComments && char === '/' && next === '/') ||
+        (hashComments && char === '#') ||
+        (dashComments && char === '-' && next === '-')) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Block comments
+    if (slashComments && char === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Strings
+    if (STRING_QUOTES.has(char)) {
+      const stop = readString(code, i);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Numbers (not inside identifiers)
+    if (/[0-9]/.test(char) && !/[\w$]/.test(code[i - 1] ?? '')) {
+      const number = matchAt(NUMBER, code, i);
+      if (number) {
+        push('number', number);
+        i += number.length;
+        continue;
+      }
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const word = matchAt(IDENTIFIER, code, i)!;
+      const isKeyword = KEYWORDS.has(word) || (caseInsensitive && KEYWORDS.has(word.toLowerCase()));
+      push(isKeyword ? 'keyword' : 'plain', word);
+      i += word.length;
+      continue;
+    }
+
+    push('plain', char);
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,167 @@
+/**
+ * Link Preview Cache
+ *
+ * Link previews for URLs in messages, shared by every view:
+ * - One unfurl request per URL; later lookups (other messages, the composer,
+ *   reopened rooms) are served from the cache
+ * - URLs without a usable preview are remembered too, so they aren't refetched;
+ *   failed requests (offline, timeouts, server errors) are forgotten, so the
+ *   next view of the link tries again
+ * - Removing a preview before sending: the URL is sent as `<url>`, which
+ *   renders as a link without a preview (see lib/markdown)
+ *
+ * @example
+ * ```ts
+ * import { linkPreviewCache } from '@/lib/linkPreviews';
+ *
+ * linkPreviewCache.load('https://example.com');
+ * linkPreviewCache.subscribe(() => {
+ *   console.log(linkPreviewCache.get('https://example.com'));
+ * });
+ * ```
+ */
+
+import axios from 'axios';
+import { unfurlLink } from './api/links';
+import type { LinkPreview } from './types';
+import type { MarkdownLink } from './markdown';
+
+/**
+ * Preview state of a URL
+ */
+export type LinkPreviewState =
+  | { status: 'loading' }
+  | { status: 'loaded'; preview: LinkPreview }
+  | { status: 'unavailable' };
+
+export type LinkPreviewListener = () => void;
+
+export const MAX_LINK_PREVIEWS = 3; // Per message
+
+const MAX_CACHED_URLS = 500;
+
+// Code spans and blocks keep their text as typed
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+/**
+ * Whether the unfurl endpoint answered that the URL has no preview
+ * (invalid URL, or a page it could not fetch) rather than the request failing
+ */
+function isNoPreview(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  const status = error.response?.status;
+  return status === 400 || status === 422;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Link Preview Cache Class
+ *
+ * Use the shared `linkPreviewCache` instance rather than creating new ones.
+ * `get` returns the same object until that URL's state changes, so it can
+ * be used in a `useSyncExternalStore` snapshot.
+ */
+export class LinkPreviewCache {
+  private entries: Map<string, LinkPreviewState> = new Map();
+  private listeners: Set<LinkPreviewListener> = new Set();
+
+  /**
+   * Subscribe to cache changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: LinkPreviewListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the preview state of a URL
+   *
+   * @param url - Link href
+   * @returns State, or undefined if the URL was never loaded
+   */
+  public get = (url: string): LinkPreviewState | undefined => {
+    return this.entries.get(url);
+  };
+
+  /**
+   * Fetch the preview of a URL unless it is cached or already loading
+   *
+   * @param url - Link href
+   */
+  public async load(url: string): Promise<void> {
+    if (this.entries.has(url)) return;
+
+    this.set(url, { status: 'loading' });
+    try {
+      const preview = await unfurlLink(url);
+
+      // A preview needs at least a title or description to be worth a card
+      this.set(url, preview.title || preview.description
+        ? { status: 'loaded', preview }
+        : { status: 'unavailable' });
+    } catch (error) {
+      if (isNoPreview(error)) {
+        // Pages that can't be fetched stay plain links
+        this.set(url, { status: 'unavailable' });
+      } else {
+        // Let a later view of the link try again
+        this.remove(url);
+      }
+    }
+  }
+
+  private remove(url: string): void {
+    this.entries.delete(url);
+    this.listeners.forEach(listener => listener());
+  }
+
+  private set(url: string, state: LinkPreviewState): void {
+    this.entries.delete(url);
+    this.entries.set(url, state);
+
+    // Forget the least recently added URLs
+    if (this.entries.size > MAX_CACHED_URLS) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared link preview cache
+ */
+export const linkPreviewCache = new LinkPreviewCache();
+
+/**
+ * Send a link without its preview: wraps each bare occurrence in `<>`
+ * (outside code spans and blocks)
+ *
+ * @param content - Message content
+ * @param link - Link whose preview was removed
+ * @returns Content with the link as `<url>`
+ *
+ * @example
+ * ```ts
+ * const [link] = extractLinks(content);
+ * suppressLinkPreview('see https://example.com', link); // 'see <https://example.com>'
+ * ```
+ */
+export function suppressLinkPreview(content: string, link: MarkdownLink): string {
+  const pattern = new RegExp(`(^|[^<\\w])(${escapeRegExp(link.text)})(?![\\w/#?=&%~+-]|\\.\\w)`, 'g');
+
+  return content
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(pattern, '$1<$2>')))
+    .join('');
+}
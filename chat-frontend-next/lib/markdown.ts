@@ -0,0 +1,340 @@
+/**
+ * Message Markdown Parser
+ *
+ * Parses the small Markdown subset supported in messages into a tree that
+ * components render as React elements. Nothing is ever turned into HTML, so
+ * raw HTML in a message is shown as text and cannot be injected.
+ *
+ * Supported syntax:
+ * - **bold** / __bold__, *italic* / _italic_
+ * - `inline code`
+ * - Fenced code blocks (```lang ... ```), highlighted by lib/highlight
+ * - > blockquotes
+ * - Bulleted (-, *, +) and numbered (1. or 1)) lists
+ * - Auto-linked http(s):// and www. URLs (no other schemes); <url> links the
+ *   URL without a link preview
+ * - Mentions encoded as @[username](user:ID) (see lib/mentions)
+ * - Backslash escapes (\*not italic\*)
+ *
+ * @example
+ * ```ts
+ * import { parseMarkdown } from '@/lib/markdown';
+ *
+ * const blocks = parseMarkdown('**Fixed** in `main`, see https://example.com');
+ * // [{ type: 'paragraph', children: [{ type: 'bold', ... }, ...] }]
+ * ```
+ */
+
+/**
+ * Inline Nodes
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownInline[] }
+  | { type: 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string; unfurl: boolean }
+  | { type: 'mention'; userId: number; username: string };
+
+/**
+ * Block Nodes
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+export type MarkdownLink = Extract<MarkdownInline, { type: 'link' }>;
+
+const FENCE = /^\s*```\s*([\w#+.-]*)\s*$/;
+const QUOTE = /^\s*> ?/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+// URLs end at whitespace; trailing punctuation is usually part of the sentence
+const URL_PATTERN = /^(?:https?:\/\/|www\.)[^\s<>"]+/i;
+const URL_TRAILING_PUNCTUATION = /[.,:;!?'")\]]+$/;
+const AUTOLINK = /^<((?:https?:\/\/|www\.)[^\s<>"]+)>/i;
+
+const MENTION = /^@\[([^\]\n]{1,64})\]\(user:(\d+)\)/;
+
+// Characters that can be escaped with a backslash
+const ESCAPABLE = '\\`*_{}[]()#+-.!>~|';
+
+/**
+ * Turn an auto-linked URL into a safe href (http/https only)
+ */
+function toSafeHref(url: string): string | null {
+  const withScheme = /^www\./i.test(url) ? `https://${url}` : url;
+
+  try {
+    const parsed = new URL(withScheme);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Find the closing delimiter of an emphasis run
+ * It must not follow whitespace, and `_` must not be inside a word (snake_case).
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let index = text.indexOf(delimiter, from);
+
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const escaped = before === '\\';
+    const validEdge = before !== undefined && !/\s/.test(before);
+    const validUnderscore = delimiter[0] !== '_' || !isWordChar(after);
+
+    if (!escaped && validEdge && validUnderscore && index > from) {
+      return index;
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting
+ *
+ * @param text - Text of a paragraph or list item
+ * @returns Inline nodes
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Escapes
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code (no formatting inside)
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Bold
+    if ((rest.startsWith('**') || rest.startsWith('__')) && !/\s/.test(text[i + 2] ?? ' ')) {
+      const delimiter = rest.slice(0, 2);
+      const leftOk = delimiter === '**' || !isWordChar(text[i - 1]);
+      const end = leftOk ? findClosing(text, delimiter, i + 2) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'bold', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Italic
+    if ((char === '*' || char === '_') && !/\s/.test(text[i + 1] ?? ' ')) {
+      const leftOk = char === '*' || !isWordChar(text[i - 1]);
+      const end = leftOk ? findClosing(text, char, i + 1) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'italic', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Mentions
+    if (char === '@') {
+      const match = MENTION.exec(rest);
+      if (match) {
+        flush();
+        nodes.push({ type: 'mention', userId: parseInt(match[2], 10), username: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // <url>: a link that is not unfurled into a preview
+    if (char === '<') {
+      const match = AUTOLINK.exec(rest);
+      const href = match ? toSafeHref(match[1]) : null;
+      if (match && href) {
+        flush();
+        nodes.push({ type: 'link', href, text: match[1], unfurl: false });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // Auto-linked URLs (only at the start of a word)
+    if ((char === 'h' || char === 'H' || char === 'w' || char === 'W') && !isWordChar(text[i - 1])) {
+      const match = URL_PATTERN.exec(rest);
+      if (match) {
+        const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+        const href = toSafeHref(url);
+        if (href) {
+          flush();
+          nodes.push({ type: 'link', href, text: url, unfurl: true });
+          i += url.length;
+          continue;
+        }
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse message content into blocks
+ *
+ * @param content - Message content
+ * @returns Block nodes (paragraph text keeps its line breaks)
+ */
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Blank lines separate blocks
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block (runs to the closing fence, or the end of the message)
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push({ type: 'code', language: fence[1] ? fence[1].toLowerCase() : null, code: code.join('\n') });
+      continue;
+    }
+
+    // Blockquote
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    // Lists (consecutive items of the same kind)
+    const numbered = NUMBERED_ITEM.exec(line);
+    if (numbered || BULLET_ITEM.test(line)) {
+      const pattern = numbered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const match = pattern.exec(lines[i])!;
+        items.push(parseInline(match[match.length - 1]));
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!numbered,
+        start: numbered ? parseInt(numbered[1], 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    // Paragraph: everything up to the next blank line or other block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !NUMBERED_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Whether content uses any Markdown syntax (so a preview would differ from the text)
+ *
+ * @param content - Message content
+ * @returns True if rendering changes anything
+ */
+export function hasMarkdown(content: string): boolean {
+  return parseMarkdown(content).some(
+    block =>
+      block.type !== 'paragraph' ||
+      block.children.some(node => node.type !== 'text')
+  );
+}
+
+/**
+ * Links in message content that get a link preview, in order of appearance
+ * Links inside code and `<url>` links are skipped.
+ *
+ * @param content - Message content
+ * @returns Links, one per URL
+ */
+export function extractLinks(content: string): MarkdownLink[] {
+  const links = new Map<string, MarkdownLink>();
+
+  const visitInline = (nodes: MarkdownInline[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'link' && node.unfurl && !links.has(node.href)) links.set(node.href, node);
+      if (node.type === 'bold' || node.type === 'italic') visitInline(node.children);
+    });
+  };
+
+  const visitBlocks = (blocks: MarkdownBlock[]) => {
+    blocks.forEach(block => {
+      if (block.type === 'paragraph') visitInline(block.children);
+      if (block.type === 'list') block.items.forEach(visitInline);
+      if (block.type === 'blockquote') visitBlocks(block.children);
+    });
+  };
+
+  visitBlocks(parseMarkdown(content));
+  return Array.from(links.values());
+}
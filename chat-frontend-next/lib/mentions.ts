@@ -0,0 +1,136 @@
+/**
+ * Message Mentions
+ *
+ * Mentions are stored in message content as `@[username](user:ID)`, so the
+ * backend and every client can tell who was pinged even if the user is
+ * renamed later. While typing, the input shows a plain `@username` and the
+ * selected users are encoded on send.
+ *
+ * Features:
+ * - Encode typed `@username` mentions of selected users
+ * - Decode content back to plain text for editing
+ * - Detect mentions of a given user (highlighting)
+ * - Find the `@query` being typed at the caret (autocomplete)
+ *
+ * @example
+ * ```ts
+ * import { encodeMentions, mentionsUser } from '@/lib/mentions';
+ *
+ * const content = encodeMentions('hey @alice', [{ id: 12, username: 'alice' }]);
+ * // 'hey @[alice](user:12)'
+ *
+ * mentionsUser(content, 12); // true
+ * ```
+ */
+
+/**
+ * User that can be mentioned
+ */
+export interface MentionUser {
+  id: number;
+  username: string;
+}
+
+/**
+ * `@query` being typed, from `start` (the `@`) to the caret
+ */
+export interface MentionQuery {
+  start: number;
+  query: string;
+}
+
+// Encoded mention: @[username](user:ID)
+const MENTION_PATTERN = /@\[([^\]\n]{1,64})\]\(user:(\d+)\)/g;
+
+// `@` at the start of a word, followed by the partial username before the caret
+const MENTION_QUERY_PATTERN = /(?:^|[^\w@])@([\w.-]{0,32})$/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Encode a single mention
+ *
+ * @param user - Mentioned user
+ * @returns Mention as stored in message content
+ */
+export function formatMention(user: MentionUser): string {
+  return `@[${user.username}](user:${user.id})`;
+}
+
+/**
+ * Encode `@username` in typed text for each selected user
+ *
+ * Usernames that were typed without being picked stay plain text.
+ *
+ * @param text - Text as typed
+ * @param mentions - Users picked from the autocomplete
+ * @returns Content with mentions encoded
+ */
+export function encodeMentions(text: string, mentions: MentionUser[]): string {
+  // Longest names first, so @al does not claim the start of @alice
+  const users = [...mentions].sort((a, b) => b.username.length - a.username.length);
+
+  return users.reduce((content, user) => {
+    const pattern = new RegExp(`(^|[^\\w@\\[])@${escapeRegExp(user.username)}(?![\\w-])`, 'g');
+    return content.replace(pattern, (_match, before: string) => `${before}${formatMention(user)}`);
+  }, text);
+}
+
+/**
+ * Decode mentions back to plain `@username` text
+ *
+ * @param content - Message content
+ * @returns Plain text and the mentioned users (to encode again after editing)
+ */
+export function decodeMentions(content: string): { text: string; mentions: MentionUser[] } {
+  const mentions: MentionUser[] = [];
+
+  const text = content.replace(MENTION_PATTERN, (_match, username: string, id: string) => {
+    if (!mentions.some(user => user.username === username)) {
+      mentions.push({ id: parseInt(id, 10), username });
+    }
+    return `@${username}`;
+  });
+
+  return { text, mentions };
+}
+
+/**
+ * Plain text version of content, for previews (reply quotes, room list)
+ *
+ * @param content - Message content
+ * @returns Content with mentions shown as `@username`
+ */
+export function stripMentions(content: string): string {
+  return content.replace(MENTION_PATTERN, (_match, username: string) => `@${username}`);
+}
+
+/**
+ * Whether content mentions a user
+ *
+ * @param content - Message content
+ * @param userId - User to look for
+ * @returns True if the user is mentioned
+ */
+export function mentionsUser(content: string, userId: number): boolean {
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (parseInt(match[2], 10) === userId) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the mention being typed at the caret
+ *
+ * @param text - Input text
+ * @param caret - Caret position
+ * @returns The `@query` before the caret, or null if not typing a mention
+ */
+export function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
@@ -0,0 +1,53 @@
+/**
+ * Message Deep Links
+ *
+ * Links to a single message, as `/chat?room=12&message=3456`. They are
+ * query-param based so they work with the static export (there is no
+ * server to resolve dynamic routes).
+ *
+ * @example
+ * ```ts
+ * import { getMessageLink, parseMessageLink } from '@/lib/messageLinks';
+ *
+ * getMessageLink(message); // 'https://chat.example.com/chat?room=12&message=3456'
+ * parseMessageLink(window.location.search); // { roomId: 12, messageId: 3456 }
+ * ```
+ */
+
+export const CHAT_PATH = '/chat';
+
+/**
+ * Message a deep link points to
+ */
+export interface MessageLinkTarget {
+  roomId: number;
+  messageId: number;
+}
+
+/**
+ * Absolute link to a message
+ *
+ * @param message - Message to link to
+ * @returns URL that opens the chat scrolled to the message
+ */
+export function getMessageLink(message: { id: number; room_id: number }): string {
+  const params = new URLSearchParams({ room: String(message.room_id), message: String(message.id) });
+  return `${window.location.origin}${CHAT_PATH}?${params}`;
+}
+
+/**
+ * Read a message link's target from a query string
+ *
+ * @param search - Query string (e.g. `window.location.search`)
+ * @returns Target, or null unless both IDs are valid
+ */
+export function parseMessageLink(search: string): MessageLinkTarget | null {
+  const params = new URLSearchParams(search);
+  const roomId = Number(params.get('room'));
+  const messageId = Number(params.get('message'));
+
+  if (!Number.isInteger(roomId) || roomId <= 0 || !Number.isInteger(messageId) || messageId <= 0) {
+    return null;
+  }
+  return { roomId, messageId };
+}
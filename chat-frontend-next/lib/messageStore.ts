@@ -0,0 +1,532 @@
+/**
+ * Normalized Client-Side Message Store
+ *
+ * Single source of truth for messages shared by every chat view:
+ * - Messages by ID and users by ID (one canonical object per user)
+ * - Ordered message ID list per room (oldest first); the oldest ID is the
+ *   `before` cursor for loading older history
+ * - A room can hold a window of older history instead (after jumping to an
+ *   old message), which pages outward until it reaches the newest message
+ * - Lives outside React, so reopening a room renders instantly from cache
+ * - Thread replies are looked up by parent ID, and reply counts follow new
+ *   and deleted replies
+ * - Reactions follow optimistic toggles and WebSocket reaction events
+ * - Written by HTTP loads, WebSocket events, edits, deletes and the outbox
+ *
+ * @example
+ * ```ts
+ * import { messageStore } from '@/lib/messageStore';
+ *
+ * const unsubscribe = messageStore.subscribe(() => {
+ *   console.log(messageStore.getRoomMessages(1));
+ * });
+ *
+ * messageStore.addMessages([newMessage]);
+ * ```
+ */
+
+import type { Message, ReactionSummary, ReactionUser, User } from './types';
+import { applyReaction } from './api/messages';
+
+/**
+ * Per-room list and pagination state
+ */
+export interface RoomMessagesState {
+  /** Message IDs, oldest first */
+  ids: number[];
+  /** Whether older messages exist on the server */
+  hasMore: boolean;
+  /** Whether newer messages exist on the server (a window of older history is loaded) */
+  hasNewer: boolean;
+}
+
+export type MessageStoreListener = () => void;
+
+const EMPTY_MESSAGES: Message[] = [];
+
+/**
+ * Merge two ascending ID lists into one ascending list without duplicates
+ * Message IDs are assigned by the server in send order.
+ */
+function mergeIds(a: number[], b: number[]): number[] {
+  return Array.from(new Set([...a, ...b])).sort((x, y) => x - y);
+}
+
+/**
+ * Shallow equality for user records (avoids churn when the same user is re-sent)
+ */
+function sameUser(a: User, b: User): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof User>;
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+}
+
+/**
+ * Message Store Class
+ *
+ * Use the shared `messageStore` instance rather than creating new ones.
+ * Snapshots returned by the getters are stable until the data changes,
+ * so they can be used with `useSyncExternalStore`.
+ */
+export class MessageStore {
+  private messagesById: Map<number, Message> = new Map();
+  private usersById: Map<number, User> = new Map();
+  private rooms: Map<number, RoomMessagesState> = new Map();
+  private roomSnapshots: Map<number, Message[]> = new Map();
+  private threadSnapshots: Map<number, Message[]> = new Map();
+  private loadedThreads: Set<number> = new Set();
+  private listeners: Set<MessageStoreListener> = new Set();
+
+  /**
+   * Subscribe to store changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: MessageStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the cached messages of a room, oldest first
+   *
+   * @param roomId - Room ID
+   * @returns Messages (empty if the room has not been loaded)
+   */
+  public getRoomMessages(roomId: number): Message[] {
+    const room = this.rooms.get(roomId);
+    if (!room) return EMPTY_MESSAGES;
+
+    let snapshot = this.roomSnapshots.get(roomId);
+    if (!snapshot) {
+      snapshot = room.ids
+        .map(id => this.messagesById.get(id))
+        .filter((msg): msg is Message => msg !== undefined);
+      this.roomSnapshots.set(roomId, snapshot);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Get a room's list and pagination state
+   *
+   * @param roomId - Room ID
+   * @returns State, or undefined if the room has never been loaded
+   */
+  public getRoomState(roomId: number): RoomMessagesState | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Get the cached replies to a message, oldest first
+   *
+   * @param rootId - ID of the thread's root message
+   * @returns Replies (stable until the store changes)
+   */
+  public getThreadReplies(rootId: number): Message[] {
+    let snapshot = this.threadSnapshots.get(rootId);
+    if (!snapshot) {
+      snapshot = Array.from(this.messagesById.values())
+        .filter(msg => msg.parent_id === rootId)
+        .sort((a, b) => a.id - b.id);
+      this.threadSnapshots.set(rootId, snapshot);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Whether a thread has been loaded from the API (so its replies are complete)
+   */
+  public isThreadLoaded(rootId: number): boolean {
+    return this.loadedThreads.has(rootId);
+  }
+
+  /**
+   * Get a cached message by ID
+   */
+  public getMessage(messageId: number): Message | undefined {
+    return this.messagesById.get(messageId);
+  }
+
+  /**
+   * Get a cached user by ID
+   */
+  public getUser(userId: number): User | undefined {
+    return this.usersById.get(userId);
+  }
+
+  /**
+   * Store the newest page of a room's history from the API
+   *
+   * Reloading it for a cached room merges it into the cache (keeping older
+   * pages) and drops cached messages that are gone on the server; if it no
+   * longer overlaps the cache, the cache is replaced. A window of older
+   * history (see setMessagesAround) is kept instead, unless `replace` is set:
+   * it pages forward to the newest messages.
+   *
+   * @param roomId - Room ID
+   * @param messages - Messages of the page, oldest first
+   * @param hasMore - Whether older messages exist
+   * @param options - `replace` drops the cached list even if it overlaps
+   *   (e.g. when a gap between cache and page is known to exist)
+   *
+   * @example
+   * ```ts
+   * const response = await getMessages(roomId);
+   * messageStore.setLatestMessages(roomId, [...response.messages].reverse(), hasOlderMessages(response));
+   * ```
+   */
+  public setLatestMessages(
+    roomId: number,
+    messages: Message[],
+    hasMore: boolean,
+    options: { replace?: boolean } = {}
+  ): void {
+    messages.forEach(msg => this.storeMessage(msg));
+
+    const incomingIds = messages.map(msg => msg.id);
+    const room = this.rooms.get(roomId);
+    const oldestIncoming = incomingIds[0];
+    const newestCached = room?.ids[room.ids.length - 1];
+    let next: RoomMessagesState;
+
+    if (
+      !options.replace &&
+      room?.hasNewer &&
+      oldestIncoming !== undefined &&
+      newestCached !== undefined &&
+      oldestIncoming > newestCached
+    ) {
+      // Showing older history: the newest page is cached by ID until paged up to
+      this.emit();
+      return;
+    }
+
+    if (
+      options.replace ||
+      !room ||
+      oldestIncoming === undefined ||
+      newestCached === undefined ||
+      oldestIncoming > newestCached
+    ) {
+      // First load, empty room, empty cache, or a gap between cache and newest page
+      next = { ids: incomingIds, hasMore, hasNewer: false };
+    } else {
+      // Cached messages inside the fetched range that the server no longer has
+      // were deleted (newer ones may have arrived via WebSocket meanwhile)
+      const newestIncoming = incomingIds[incomingIds.length - 1];
+      const incoming = new Set(incomingIds);
+      const isGone = (id: number) =>
+        id >= oldestIncoming && id <= newestIncoming && !incoming.has(id);
+
+      room.ids.filter(isGone).forEach(id => this.messagesById.delete(id));
+      next = { ...room, ids: mergeIds(room.ids.filter(id => !isGone(id)), incomingIds), hasNewer: false };
+    }
+
+    this.rooms.set(roomId, next);
+    this.roomSnapshots.delete(roomId);
+    this.emit();
+  }
+
+  /**
+   * Store a page of older history, loaded with the room's oldest message as cursor
+   *
+   * @param roomId - Room ID
+   * @param messages - Messages of the page, oldest first
+   * @param hasMore - Whether even older messages exist
+   */
+  public addOlderMessages(roomId: number, messages: Message[], hasMore: boolean): void {
+    messages.forEach(msg => this.storeMessage(msg));
+
+    const room = this.rooms.get(roomId);
+    const incomingIds = messages.map(msg => msg.id);
+    this.rooms.set(roomId, { ids: mergeIds(incomingIds, room?.ids ?? []), hasMore, hasNewer: room?.hasNewer ?? false });
+    this.roomSnapshots.delete(roomId);
+    this.emit();
+  }
+
+  /**
+   * Store a page of newer history, loaded with the room's newest message as cursor
+   * (paging forward from a window of older history)
+   *
+   * @param roomId - Room ID
+   * @param messages - Messages of the page, oldest first
+   * @param hasNewer - Whether even newer messages exist
+   */
+  public addNewerMessages(roomId: number, messages: Message[], hasNewer: boolean): void {
+    messages.forEach(msg => this.storeMessage(msg));
+
+    const room = this.rooms.get(roomId);
+    const incomingIds = messages.map(msg => msg.id);
+    this.rooms.set(roomId, { ids: mergeIds(room?.ids ?? [], incomingIds), hasMore: room?.hasMore ?? false, hasNewer });
+    this.roomSnapshots.delete(roomId);
+    this.emit();
+  }
+
+  /**
+   * Store the history around a message (jumping to an old message)
+   *
+   * Merged into the cached list if the two overlap; otherwise the window
+   * replaces it and pages outward from there (see addOlderMessages and
+   * addNewerMessages).
+   *
+   * @param roomId - Room ID
+   * @param messages - Messages of the window, oldest first
+   * @param hasMore - Whether older messages exist
+   * @param hasNewer - Whether newer messages exist
+   */
+  public setMessagesAround(roomId: number, messages: Message[], hasMore: boolean, hasNewer: boolean): void {
+    if (messages.length === 0) return;
+    messages.forEach(msg => this.storeMessage(msg));
+
+    const incomingIds = messages.map(msg => msg.id);
+    const oldestIncoming = incomingIds[0];
+    const newestIncoming = incomingIds[incomingIds.length - 1];
+    const room = this.rooms.get(roomId);
+    const oldestCached = room?.ids[0];
+    const newestCached = room?.ids[room.ids.length - 1];
+    let next: RoomMessagesState;
+
+    if (
+      !room ||
+      oldestCached === undefined ||
+      newestCached === undefined ||
+      newestIncoming < oldestCached ||
+      oldestIncoming > newestCached
+    ) {
+      // A gap on either side: show the window on its own
+      next = { ids: incomingIds, hasMore, hasNewer };
+    } else {
+      next = {
+        ids: mergeIds(room.ids, incomingIds),
+        hasMore: oldestIncoming < oldestCached ? hasMore : room.hasMore,
+        hasNewer: newestIncoming > newestCached ? hasNewer : room.hasNewer,
+      };
+    }
+
+    this.rooms.set(roomId, next);
+    this.roomSnapshots.delete(roomId);
+    this.emit();
+  }
+
+  /**
+   * Store a thread loaded from the API
+   * Replies are cached by ID only: they are room messages too, and show up in
+   * the room once its history reaches them.
+   *
+   * @param root - Root message
+   * @param replies - All direct replies to it
+   */
+  public setThread(root: Message, replies: Message[]): void {
+    this.storeMessage(root);
+    replies.forEach(msg => this.storeMessage(msg));
+    this.loadedThreads.add(root.id);
+    this.roomSnapshots.delete(root.room_id);
+    this.emit();
+  }
+
+  /**
+   * Add new messages (WebSocket broadcasts, sent messages, missed messages)
+   *
+   * Messages for rooms that were never loaded, or that show a window of
+   * older history, are cached by ID only; they show up once the room's
+   * history reaches them.
+   *
+   * @param messages - Messages to add (any order, duplicates are ignored)
+   */
+  public addMessages(messages: Message[]): void {
+    if (messages.length === 0) return;
+
+    const byRoom = new Map<number, number[]>();
+    messages.forEach(msg => {
+      // A reply we have not seen before adds to its parent's reply count
+      if (msg.parent_id && !this.messagesById.has(msg.id)) {
+        this.adjustReplyCount(msg.parent_id, 1);
+      }
+      this.storeMessage(msg);
+      byRoom.set(msg.room_id, [...(byRoom.get(msg.room_id) ?? []), msg.id]);
+    });
+
+    byRoom.forEach((ids, roomId) => {
+      const room = this.rooms.get(roomId);
+      if (room && !room.hasNewer) {
+        this.rooms.set(roomId, { ...room, ids: mergeIds(room.ids, ids) });
+      }
+      this.roomSnapshots.delete(roomId);
+    });
+
+    this.emit();
+  }
+
+  /**
+   * Apply an edited message
+   * Also refreshes the quoted parent preview of cached replies to it.
+   *
+   * @param updated - Edited message from the server
+   */
+  public updateMessage(updated: Message): void {
+    const existing = this.messagesById.get(updated.id);
+    if (existing) {
+      // Keep the parent preview, reply count, reactions and attachments if the update does not carry them
+      this.storeMessage({
+        ...updated,
+        parent_message: updated.parent_message ?? existing.parent_message,
+        parent_deleted: updated.parent_deleted ?? existing.parent_deleted,
+        reply_count: updated.reply_count ?? existing.reply_count,
+        reactions: updated.reactions ?? existing.reactions,
+        attachments: updated.attachments ?? existing.attachments,
+      });
+      this.roomSnapshots.delete(updated.room_id);
+    }
+
+    this.patchReplies(updated.id, updated);
+    this.emit();
+  }
+
+  /**
+   * Remove a deleted message
+   * Cached replies to it are marked, so they show the original as deleted.
+   *
+   * @param messageId - ID of the deleted message
+   */
+  public removeMessage(messageId: number): void {
+    const existing = this.messagesById.get(messageId);
+    if (existing) {
+      this.messagesById.delete(messageId);
+      if (existing.parent_id) {
+        this.adjustReplyCount(existing.parent_id, -1);
+      }
+
+      const room = this.rooms.get(existing.room_id);
+      if (room) {
+        this.rooms.set(existing.room_id, { ...room, ids: room.ids.filter(id => id !== messageId) });
+      }
+      this.roomSnapshots.delete(existing.room_id);
+    }
+
+    this.patchReplies(messageId, undefined);
+    this.emit();
+  }
+
+  /**
+   * Replace the reactions of a cached message (e.g. with the server's copy)
+   *
+   * @param messageId - Message ID
+   * @param reactions - Reactions as returned by the API
+   */
+  public setReactions(messageId: number, reactions: ReactionSummary[]): void {
+    const message = this.messagesById.get(messageId);
+    if (!message) return;
+
+    this.messagesById.set(messageId, { ...message, reactions });
+    this.roomSnapshots.delete(message.room_id);
+    this.emit();
+  }
+
+  /**
+   * Apply one user's reaction change to a cached message
+   * Idempotent, so an optimistic change and its WebSocket echo can both be applied.
+   *
+   * @param messageId - Message ID
+   * @param emoji - Emoji that was added or removed
+   * @param user - User who reacted
+   * @param added - True if the reaction was added, false if removed
+   */
+  public applyReaction(messageId: number, emoji: string, user: ReactionUser, added: boolean): void {
+    const message = this.messagesById.get(messageId);
+    if (!message) return;
+
+    const reactions = applyReaction(message.reactions, emoji, user, added);
+    if (reactions === message.reactions) return;
+
+    this.setReactions(messageId, reactions);
+  }
+
+  /**
+   * Change the reply count of a cached message
+   */
+  private adjustReplyCount(messageId: number, delta: number): void {
+    const message = this.messagesById.get(messageId);
+    if (!message) return;
+
+    this.messagesById.set(messageId, {
+      ...message,
+      reply_count: Math.max(0, (message.reply_count ?? 0) + delta),
+    });
+    this.roomSnapshots.delete(message.room_id);
+  }
+
+  /**
+   * Set the parent preview of every cached reply to a message
+   * (undefined once the parent is deleted)
+   */
+  private patchReplies(parentId: number, parent: Message | undefined): void {
+    this.messagesById.forEach(msg => {
+      if (msg.parent_id === parentId) {
+        this.messagesById.set(msg.id, { ...msg, parent_message: parent, parent_deleted: parent === undefined });
+        this.roomSnapshots.delete(msg.room_id);
+      }
+    });
+  }
+
+  /**
+   * Put a message in the ID map, pointing at the canonical user object
+   */
+  private storeMessage(message: Message): void {
+    // Payloads without the parent preview (WebSocket frames, search results,
+    // pages around a message): fill it in from the cache, and keep a deletion
+    // seen earlier
+    if (message.parent_id && !message.parent_message) {
+      const parent = this.messagesById.get(message.parent_id);
+      const previous = this.messagesById.get(message.id);
+      if (parent) {
+        message = { ...message, parent_message: parent };
+      } else if (previous?.parent_deleted) {
+        message = { ...message, parent_deleted: true };
+      }
+    }
+
+    const user = message.user ? this.storeUser(message.user) : message.user;
+    this.messagesById.set(message.id, user === message.user ? message : { ...message, user });
+    if (message.parent_message?.user) {
+      this.storeUser(message.parent_message.user);
+    }
+  }
+
+  /**
+   * Upsert a user and return the canonical object
+   * When a user's data changes, every cached message by them is updated.
+   */
+  private storeUser(user: User): User {
+    const existing = this.usersById.get(user.id);
+    if (existing && sameUser(existing, user)) return existing;
+
+    this.usersById.set(user.id, user);
+
+    if (existing) {
+      this.messagesById.forEach(msg => {
+        if (msg.user_id === user.id) {
+          this.messagesById.set(msg.id, { ...msg, user });
+          this.roomSnapshots.delete(msg.room_id);
+        }
+      });
+    }
+    return user;
+  }
+
+  private emit(): void {
+    // Replies are found by scanning, so any change may affect any thread
+    this.threadSnapshots.clear();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared message store instance
+ */
+export const messageStore = new MessageStore();
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  shouldAlert,
+  isInQuietHours,
+  findKeyword,
+  getNotificationPermission,
+  requestNotificationPermission,
+} from './notifications';
+import { DEFAULT_SETTINGS, ChatSettings } from './settings';
+import type { Message } from './types';
+
+const CURRENT_USER_ID = 1;
+
+function makeMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 100,
+    content: 'Hello there',
+    user_id: 2,
+    user: { id: 2, username: 'bob', email: 'bob@example.com', role: 'user', created_at: '', updated_at: '' },
+    room_id: 10,
+    created_at: '2024-01-15T12:00:00Z',
+    updated_at: '2024-01-15T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeSettings(overrides: Partial<ChatSettings> = {}): ChatSettings {
+  return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+// Local time on an arbitrary day
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2024, 0, 15, hours, minutes);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('shouldAlert', () => {
+  const context = (settings: ChatSettings = makeSettings(), focusedRoomId: number | null = null) => ({
+    settings,
+    currentUserId: CURRENT_USER_ID,
+    focusedRoomId,
+    now: at('12:00'),
+  });
+
+  it('alerts for messages from others', () => {
+    expect(shouldAlert(makeMessage(), context())).toBe(true);
+  });
+
+  it('skips the user\'s own messages', () => {
+    expect(shouldAlert(makeMessage({ user_id: CURRENT_USER_ID }), context())).toBe(false);
+  });
+
+  it('skips the focused open room', () => {
+    expect(shouldAlert(makeMessage({ room_id: 10 }), context(makeSettings(), 10))).toBe(false);
+    expect(shouldAlert(makeMessage({ room_id: 11 }), context(makeSettings(), 10))).toBe(true);
+  });
+
+  it('skips muted rooms', () => {
+    const settings = makeSettings({ mutedRooms: [10] });
+    expect(shouldAlert(makeMessage(), context(settings))).toBe(false);
+  });
+
+  it('alerts in muted rooms for keywords and mentions', () => {
+    const settings = makeSettings({ mutedRooms: [10], notificationKeywords: ['deploy'] });
+
+    expect(shouldAlert(makeMessage({ content: 'Starting the Deploy now' }), context(settings))).toBe(true);
+    expect(shouldAlert(makeMessage({ content: 'Ping @[alice](user:1)' }), context(settings))).toBe(true);
+    expect(shouldAlert(makeMessage({ content: 'Ping @[carol](user:3)' }), context(settings))).toBe(false);
+  });
+
+  it('stays silent during quiet hours, even for keywords', () => {
+    const settings = makeSettings({
+      notificationKeywords: ['deploy'],
+      quietHours: { enabled: true, start: '22:00', end: '08:00' },
+    });
+
+    expect(shouldAlert(makeMessage({ content: 'deploy' }), { ...context(settings), now: at('23:30') })).toBe(false);
+    expect(shouldAlert(makeMessage({ content: 'deploy' }), { ...context(settings), now: at('12:00') })).toBe(true);
+  });
+});
+
+describe('isInQuietHours', () => {
+  it('covers a window within one day', () => {
+    const quietHours = { enabled: true, start: '13:00', end: '14:30' };
+
+    expect(isInQuietHours(quietHours, at('12:59'))).toBe(false);
+    expect(isInQuietHours(quietHours, at('13:00'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('14:29'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('14:30'))).toBe(false);
+  });
+
+  it('covers a window that wraps past midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '08:00' };
+
+    expect(isInQuietHours(quietHours, at('21:59'))).toBe(false);
+    expect(isInQuietHours(quietHours, at('22:00'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('23:59'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('00:00'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('07:59'))).toBe(true);
+    expect(isInQuietHours(quietHours, at('08:00'))).toBe(false);
+    expect(isInQuietHours(quietHours, at('12:00'))).toBe(false);
+  });
+
+  it('is off when disabled, empty or malformed', () => {
+    expect(isInQuietHours({ enabled: false, start: '00:00', end: '23:59' }, at('12:00'))).toBe(false);
+    expect(isInQuietHours({ enabled: true, start: '12:00', end: '12:00' }, at('12:00'))).toBe(false);
+    expect(isInQuietHours({ enabled: true, start: '25:00', end: '08:00' }, at('23:00'))).toBe(false);
+  });
+});
+
+describe('findKeyword', () => {
+  it('matches whole words, ignoring case', () => {
+    expect(findKeyword('Time to DEPLOY!', ['deploy'])).toBe('deploy');
+    expect(findKeyword('The deployment is done', ['deploy'])).toBeNull();
+    expect(findKeyword('anything', ['  ', ''])).toBeNull();
+  });
+});
+
+describe('notification permission', () => {
+  it('is unsupported without the Notification API', async () => {
+    vi.stubGlobal('Notification', undefined);
+    Reflect.deleteProperty(globalThis, 'Notification');
+
+    expect(getNotificationPermission()).toBe('unsupported');
+    await expect(requestNotificationPermission()).resolves.toBe('unsupported');
+  });
+
+  it('does not prompt again once denied', async () => {
+    const requestPermission = vi.fn();
+    vi.stubGlobal('Notification', { permission: 'denied', requestPermission });
+
+    expect(getNotificationPermission()).toBe('denied');
+    await expect(requestNotificationPermission()).resolves.toBe('denied');
+    expect(requestPermission).not.toHaveBeenCalled();
+  });
+
+  it('prompts while the user has not decided', async () => {
+    const requestPermission = vi.fn().mockResolvedValue('granted');
+    vi.stubGlobal('Notification', { permission: 'default', requestPermission });
+
+    await expect(requestNotificationPermission()).resolves.toBe('granted');
+    expect(requestPermission).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('playNotificationSound', () => {
+  function stubAudioContext(state: AudioContextState = 'running') {
+    const oscillators: { frequency: { value: number }; start: ReturnType<typeof vi.fn> }[] = [];
+    const resume = vi.fn().mockResolvedValue(undefined);
+
+    class MockAudioContext {
+      state = state;
+      currentTime = 0;
+      destination = {};
+      resume = resume;
+
+      createOscillator() {
+        const oscillator = {
+          type: 'sine',
+          frequency: { value: 0 },
+          connect: (node: unknown) => node,
+          start: vi.fn(),
+          stop: vi.fn(),
+        };
+        oscillators.push(oscillator);
+        return oscillator;
+      }
+
+      createGain() {
+        return {
+          gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+          connect: (node: unknown) => node,
+        };
+      }
+    }
+
+    vi.stubGlobal('AudioContext', MockAudioContext);
+    return { oscillators, resume };
+  }
+
+  // The audio context is shared by the module, so each test gets a fresh copy
+  async function loadModule() {
+    vi.resetModules();
+    return import('./notifications');
+  }
+
+  it('plays a two-tone chime', async () => {
+    const { oscillators, resume } = stubAudioContext();
+    const { playNotificationSound } = await loadModule();
+
+    playNotificationSound();
+
+    expect(oscillators.map(oscillator => oscillator.frequency.value)).toEqual([880, 1320]);
+    oscillators.forEach(oscillator => expect(oscillator.start).toHaveBeenCalledTimes(1));
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  it('resumes a suspended audio context', async () => {
+    const { resume } = stubAudioContext('suspended');
+    const { playNotificationSound } = await loadModule();
+
+    playNotificationSound();
+
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without Web Audio', async () => {
+    vi.stubGlobal('AudioContext', undefined);
+    Reflect.deleteProperty(globalThis, 'AudioContext');
+    const { playNotificationSound } = await loadModule();
+
+    expect(() => playNotificationSound()).not.toThrow();
+  });
+});
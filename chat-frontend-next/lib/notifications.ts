@@ -0,0 +1,234 @@
+/**
+ * Desktop Notifications
+ *
+ * Which new messages alert the user, and how:
+ * - Only messages from others, in rooms other than the one on screen
+ *   (any room while the window is in the background)
+ * - Muted rooms only alert for keywords and mentions of the user
+ * - Nothing alerts during quiet hours
+ * - Notification text follows the Message Preview setting
+ * - A short chime (Web Audio, no sound file) when Sound is on
+ *
+ * @example
+ * ```ts
+ * import { shouldAlert, buildNotificationContent } from '@/lib/notifications';
+ *
+ * if (shouldAlert(message, { settings, currentUserId: user.id, focusedRoomId })) {
+ *   const { title, body } = buildNotificationContent(message, { name: 'general', isDirect: false }, settings);
+ *   new Notification(title, { body });
+ * }
+ * ```
+ */
+
+import { mentionsUser } from './mentions';
+import { buildSnippet } from './search';
+import type { ChatSettings, QuietHours } from './settings';
+import type { Message } from './types';
+
+/**
+ * Permission to show notifications ('unsupported' without the Notification API)
+ */
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+/**
+ * What a new message is checked against
+ */
+export interface AlertContext {
+  settings: ChatSettings;
+  currentUserId: number;
+  /** Room on screen while the window has focus (null for none) */
+  focusedRoomId: number | null;
+  /** Current time (default: now) */
+  now?: Date;
+}
+
+/**
+ * The room a notification is about
+ */
+export interface NotificationRoom {
+  name: string;
+  isDirect: boolean;
+}
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+}
+
+const BODY_LENGTH = 140;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Minutes since midnight for "HH:MM" (null if malformed)
+ */
+function parseTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a time falls within quiet hours
+ *
+ * @param quietHours - Quiet hours setting
+ * @param now - Time to check
+ * @returns True while notifications should stay silent
+ *
+ * @example
+ * ```ts
+ * isInQuietHours({ enabled: true, start: '22:00', end: '08:00' }, new Date('2024-01-15T23:30:00'));
+ * // true
+ * ```
+ */
+export function isInQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * First keyword a message contains, as a whole word (case-insensitive)
+ *
+ * @param content - Message content
+ * @param keywords - Keywords to look for
+ * @returns The keyword found, or null
+ */
+export function findKeyword(content: string, keywords: string[]): string | null {
+  for (const keyword of keywords) {
+    const trimmed = keyword.trim();
+    if (!trimmed) continue;
+
+    const pattern = new RegExp(`(^|[^\\w])${escapeRegExp(trimmed)}(?![\\w])`, 'i');
+    if (pattern.test(content)) return trimmed;
+  }
+  return null;
+}
+
+/**
+ * Whether a new message should alert the user (notification and/or sound)
+ *
+ * @param message - New message
+ * @param context - Settings, user and the room on screen
+ * @returns True to alert
+ */
+export function shouldAlert(message: Message, context: AlertContext): boolean {
+  const { settings, currentUserId, focusedRoomId, now } = context;
+
+  if (message.user_id === currentUserId) return false;
+  if (message.room_id === focusedRoomId) return false;
+  if (isInQuietHours(settings.quietHours, now)) return false;
+
+  if (settings.mutedRooms.includes(message.room_id)) {
+    return (
+      mentionsUser(message.content, currentUserId) ||
+      findKeyword(message.content, settings.notificationKeywords) !== null
+    );
+  }
+  return true;
+}
+
+/**
+ * Title and text of a message's notification
+ * Without Message Preview, the text only says there is a new message.
+ *
+ * @param message - New message
+ * @param room - Room it was sent in (null if unknown)
+ * @param settings - Current settings
+ */
+export function buildNotificationContent(
+  message: Message,
+  room: NotificationRoom | null,
+  settings: ChatSettings
+): NotificationContent {
+  const sender = message.user?.username || 'Someone';
+  const title = room && !room.isDirect ? `${sender} in ${room.name}` : sender;
+
+  if (!settings.messagePreview) {
+    return { title, body: 'New message' };
+  }
+
+  const keyword = findKeyword(message.content, settings.notificationKeywords);
+  const snippet = buildSnippet(message.content, keyword ? [keyword.toLowerCase()] : [], BODY_LENGTH);
+  const body = snippet || (message.attachments?.length ? 'Sent an attachment' : 'New message');
+  return { title, body };
+}
+
+/**
+ * Current notification permission
+ */
+export function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+/**
+ * Ask for permission to show notifications (once the user asks for them)
+ *
+ * @returns The permission after asking
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return Notification.permission;
+  }
+}
+
+/**
+ * Shared audio context, created on first use
+ */
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short two-tone chime
+ * Browsers block audio until the user has interacted with the page; the
+ * chime is skipped until then.
+ */
+export function playNotificationSound(): void {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return;
+
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    const context = audioContext;
+    if (context.state === 'suspended') {
+      context.resume().catch(() => {});
+    }
+
+    const start = context.currentTime;
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const at = start + index * 0.12;
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, at);
+      gain.gain.exponentialRampToValueAtTime(0.15, at + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.2);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(at);
+      oscillator.stop(at + 0.2);
+    });
+  } catch (error) {
+    console.error('Failed to play notification sound:', error);
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * Outbound Message Queue (Outbox)
+ *
+ * Holds messages that the backend has not acknowledged yet:
+ * - Persists pending messages to localStorage, per user, so they survive reloads and room switches
+ * - Retries failed sends with exponential backoff
+ * - Retries immediately when the WebSocket reconnects (see useOutbox)
+ * - Lets the user retry or discard each message
+ * - Matches the server copy of a message to its pending entry via a client nonce
+ * - Attachments are uploaded before queueing; entries carry them by reference
+ *
+ * @example
+ * ```ts
+ * import { outbox } from '@/lib/outbox';
+ *
+ * outbox.setUser(user.id);
+ * const unsubscribe = outbox.subscribe(() => {
+ *   console.log('Pending:', outbox.getEntries());
+ * });
+ *
+ * outbox.enqueue({ room_id: 1, content: 'Hello!' });
+ * ```
+ */
+
+import axios from 'axios';
+import { sendMessage, Message } from './api/messages';
+import type { Attachment } from './types';
+
+export type OutboxStatus = 'sending' | 'failed';
+
+export interface OutboxEntry {
+  /** Locally generated ID, stable across retries; sent as the message nonce */
+  client_id: string;
+  /** User who queued the message (only they may send it) */
+  user_id: number;
+  room_id: number;
+  content: string;
+  parent_id?: number;
+  /** Already uploaded attachments (sent by ID) */
+  attachments?: Attachment[];
+  status: OutboxStatus;
+  /** Number of failed attempts so far */
+  attempts: number;
+  /** Last error message (when failed) */
+  error?: string;
+  /** Whether the last failure is worth retrying automatically (when failed) */
+  retryable?: boolean;
+  created_at: string;
+}
+
+/**
+ * Message to queue
+ */
+export interface OutboxMessage {
+  room_id: number;
+  content: string;
+  parent_id?: number;
+  attachments?: Attachment[];
+}
+
+export type OutboxListener = () => void;
+export type OutboxDeliveredListener = (message: Message) => void;
+
+const STORAGE_KEY_PREFIX = 'outbox';
+const BASE_RETRY_DELAY = 2000; // 2 seconds
+const MAX_RETRY_DELAY = 60000; // 60 seconds
+const MAX_AUTO_RETRIES = 5;
+
+const EMPTY: OutboxEntry[] = [];
+
+/**
+ * Generate a unique client-side ID for a pending message
+ */
+function generateClientId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Whether a failed send is worth retrying automatically
+ * Network errors, timeouts, rate limiting and server errors are; other 4xx are not.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  const status = error.response?.status;
+  return !status || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * User-facing message for a failed send
+ */
+function getErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || error.message || 'Failed to send message';
+  }
+  return error instanceof Error && error.message ? error.message : 'Failed to send message';
+}
+
+/**
+ * Outbox Class
+ *
+ * Queue of unacknowledged messages with persistence and retry.
+ * Use the shared `outbox` instance rather than creating new ones.
+ */
+export class MessageOutbox {
+  private entries: OutboxEntry[] = EMPTY;
+  private loaded: boolean = false;
+  private userId: number | null = null;
+  private storageKeyPrefix: string;
+  private inFlight: Set<string> = new Set();
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private listeners: Set<OutboxListener> = new Set();
+  private deliveredListeners: Set<OutboxDeliveredListener> = new Set();
+
+  constructor(storageKeyPrefix: string = STORAGE_KEY_PREFIX) {
+    this.storageKeyPrefix = storageKeyPrefix;
+  }
+
+  /**
+   * Switch to the queue of the signed-in user
+   * Each user's entries are stored separately, so messages queued by one
+   * user are never sent with another user's session.
+   *
+   * @param userId - Current user's ID (null when signed out)
+   */
+  public setUser(userId: number | null): void {
+    if (userId === this.userId) return;
+
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.userId = userId;
+    this.loaded = false;
+    this.entries = EMPTY;
+    this.load();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Get all pending entries (oldest first)
+   *
+   * Returns the same array until the outbox changes, so it can be used
+   * as a `useSyncExternalStore` snapshot.
+   */
+  public getEntries = (): OutboxEntry[] => {
+    this.load();
+    return this.entries;
+  };
+
+  /**
+   * Subscribe to outbox changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: OutboxListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Subscribe to delivered messages
+   *
+   * Called with the server copy of a queued message as soon as it is known,
+   * from either the HTTP response or the WebSocket broadcast (whichever is first).
+   *
+   * @param listener - Called once per delivered message
+   * @returns Function that removes the listener
+   */
+  public onDelivered(listener: OutboxDeliveredListener): () => void {
+    this.deliveredListeners.add(listener);
+    return () => {
+      this.deliveredListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Match a server message to its pending entry and remove the entry
+   *
+   * @param message - Message from the server (HTTP response or WebSocket)
+   * @returns Whether the message belonged to a pending entry
+   *
+   * @example
+   * ```ts
+   * ws.on('message', (msg) => outbox.acknowledge(msg.content));
+   * ```
+   */
+  public acknowledge(message: Message): boolean {
+    if (!message.nonce || !this.find(message.nonce)) return false;
+
+    const clientId = message.nonce;
+    this.clearRetryTimer(clientId);
+    this.setEntries(this.getEntries().filter(entry => entry.client_id !== clientId));
+    this.deliveredListeners.forEach(listener => listener(message));
+    return true;
+  }
+
+  /**
+   * Queue a message and start sending it
+   *
+   * @param data - Message data
+   * @returns The queued entry
+   *
+   * @example
+   * ```ts
+   * const entry = outbox.enqueue({ room_id: 1, content: 'Hi', parent_id: 42 });
+   * ```
+   */
+  public enqueue(data: OutboxMessage): OutboxEntry {
+    if (this.userId === null) {
+      throw new Error('Cannot queue a message while signed out');
+    }
+    this.load();
+
+    const entry: OutboxEntry = {
+      client_id: generateClientId(),
+      user_id: this.userId,
+      room_id: data.room_id,
+      content: data.content,
+      parent_id: data.parent_id,
+      attachments: data.attachments?.length ? data.attachments : undefined,
+      status: 'sending',
+      attempts: 0,
+      created_at: new Date().toISOString(),
+    };
+
+    this.setEntries([...this.entries, entry]);
+    this.dispatch(entry.client_id);
+    return entry;
+  }
+
+  /**
+   * Retry a failed entry now (user action)
+   * Resets the automatic retry budget.
+   *
+   * @param clientId - Entry to retry
+   */
+  public retry(clientId: string): void {
+    this.update(clientId, { attempts: 0 });
+    this.dispatch(clientId);
+  }
+
+  /**
+   * Retry every failed entry now
+   * Used when the connection comes back. Entries the server rejected
+   * (e.g. 4xx) are left for the user to retry or discard.
+   */
+  public retryAll(): void {
+    this.getEntries()
+      .filter(entry => entry.status === 'failed' && entry.retryable !== false)
+      .forEach(entry => this.dispatch(entry.client_id));
+  }
+
+  /**
+   * Remove an entry without sending it
+   *
+   * @param clientId - Entry to discard
+   */
+  public discard(clientId: string): void {
+    this.clearRetryTimer(clientId);
+    this.setEntries(this.getEntries().filter(entry => entry.client_id !== clientId));
+  }
+
+  /**
+   * Send an entry, updating its status and scheduling a retry on failure
+   */
+  private async dispatch(clientId: string): Promise<void> {
+    const entry = this.find(clientId);
+    if (!entry || this.inFlight.has(clientId)) return;
+
+    // Never send another user's message with the current session
+    if (entry.user_id !== this.userId) {
+      this.discard(clientId);
+      return;
+    }
+
+    this.clearRetryTimer(clientId);
+    this.inFlight.add(clientId);
+    this.update(clientId, { status: 'sending', error: undefined, retryable: undefined });
+
+    try {
+      const message = await sendMessage({
+        room_id: entry.room_id,
+        content: entry.content,
+        parent_id: entry.parent_id,
+        attachment_ids: entry.attachments?.map(attachment => attachment.id),
+        nonce: clientId,
+      });
+
+      // No-op if the WebSocket broadcast already acknowledged it
+      this.acknowledge({ ...message, nonce: clientId });
+    } catch (error) {
+      // Acknowledged or discarded while the request was in flight
+      if (!this.find(clientId)) return;
+
+      const attempts = entry.attempts + 1;
+      const retryable = isRetryable(error);
+      this.update(clientId, {
+        status: 'failed',
+        attempts,
+        error: getErrorMessage(error),
+        retryable,
+      });
+
+      if (retryable && attempts < MAX_AUTO_RETRIES) {
+        this.scheduleRetry(clientId, attempts);
+      }
+    } finally {
+      this.inFlight.delete(clientId);
+    }
+  }
+
+  /**
+   * Schedule an automatic retry with exponential backoff
+   */
+  private scheduleRetry(clientId: string, attempts: number): void {
+    const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+
+    this.retryTimers.set(
+      clientId,
+      setTimeout(() => {
+        this.retryTimers.delete(clientId);
+        this.dispatch(clientId);
+      }, delay)
+    );
+  }
+
+  private clearRetryTimer(clientId: string): void {
+    const timer = this.retryTimers.get(clientId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(clientId);
+    }
+  }
+
+  private find(clientId: string): OutboxEntry | undefined {
+    return this.getEntries().find(entry => entry.client_id === clientId);
+  }
+
+  private update(clientId: string, changes: Partial<OutboxEntry>): void {
+    this.setEntries(
+      this.getEntries().map(entry =>
+        entry.client_id === clientId ? { ...entry, ...changes } : entry
+      )
+    );
+  }
+
+  private setEntries(entries: OutboxEntry[]): void {
+    this.entries = entries;
+    this.persist();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private storageKey(): string {
+    return `${this.storageKeyPrefix}:${this.userId}`;
+  }
+
+  /**
+   * Load the current user's persisted entries on first access
+   * Entries that were mid-send when the page closed are marked as failed;
+   * entries of any other user are dropped.
+   */
+  private load(): void {
+    if (this.loaded || this.userId === null || typeof window === 'undefined') return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(this.storageKey());
+      if (!stored) return;
+
+      const parsed: OutboxEntry[] = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        this.entries = parsed
+          .filter(entry => entry.user_id === this.userId)
+          .map(entry => (entry.status === 'sending' ? { ...entry, status: 'failed' } : entry));
+      }
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+    }
+  }
+
+  private persist(): void {
+    if (this.userId === null || typeof window === 'undefined') return;
+
+    try {
+      if (this.entries.length === 0) {
+        localStorage.removeItem(this.storageKey());
+      } else {
+        localStorage.setItem(this.storageKey(), JSON.stringify(this.entries));
+      }
+    } catch (error) {
+      console.error('Failed to persist outbox:', error);
+    }
+  }
+}
+
+/**
+ * Shared outbox instance
+ */
+export const outbox = new MessageOutbox();
+
+/**
+ * Server snapshot for `useSyncExternalStore` (nothing is pending during prerender)
+ */
+export function getServerOutboxEntries(): OutboxEntry[] {
+  return EMPTY;
+}
@@ -0,0 +1,133 @@
+/**
+ * Pinned Message Store
+ *
+ * Pinned messages of each room, shared by the header banner, the Pinned
+ * panel and the message actions:
+ * - Loaded per room, then kept live by WebSocket pin events
+ * - Pins follow edits of the pinned message, and disappear when it is deleted
+ * - Most recently pinned first
+ *
+ * @example
+ * ```ts
+ * import { pinStore } from '@/lib/pins';
+ *
+ * pinStore.setPins(roomId, await getPinnedMessages(roomId));
+ * pinStore.subscribe(() => {
+ *   console.log(pinStore.getPins(roomId));
+ * });
+ * ```
+ */
+
+import type { Message, PinnedMessage } from './types';
+
+export type PinStoreListener = () => void;
+
+function byPinnedAtDesc(a: PinnedMessage, b: PinnedMessage): number {
+  return new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime();
+}
+
+/**
+ * Pinned Message Store Class
+ *
+ * Use the shared `pinStore` instance rather than creating new ones.
+ * `getPins` returns the same array until that room's pins change, so it
+ * can be used in a `useSyncExternalStore` snapshot.
+ */
+export class PinStore {
+  private rooms: Map<number, PinnedMessage[]> = new Map();
+  private listeners: Set<PinStoreListener> = new Set();
+
+  /**
+   * Subscribe to pin changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: PinStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the pins of a room
+   *
+   * @param roomId - Room ID
+   * @returns Pins, most recently pinned first, or undefined if not loaded yet
+   */
+  public getPins = (roomId: number): PinnedMessage[] | undefined => {
+    return this.rooms.get(roomId);
+  };
+
+  /**
+   * Whether a message is pinned in its room
+   *
+   * @param message - Message to check
+   * @returns True if pinned (false while the room's pins are not loaded)
+   */
+  public isPinned(message: Message): boolean {
+    return this.rooms.get(message.room_id)?.some(pin => pin.message.id === message.id) ?? false;
+  }
+
+  /**
+   * Replace a room's pins with a fresh list from the server
+   *
+   * @param roomId - Room ID
+   * @param pins - Pins of the room
+   */
+  public setPins(roomId: number, pins: PinnedMessage[]): void {
+    this.rooms.set(roomId, [...pins].sort(byPinnedAtDesc));
+    this.emit();
+  }
+
+  /**
+   * Add a pin (from the API response or a `message_pinned` event)
+   * Pinning an already pinned message replaces its pin.
+   *
+   * @param pin - New pin
+   */
+  public addPin(pin: PinnedMessage): void {
+    const roomId = pin.message.room_id;
+    const pins = this.rooms.get(roomId) ?? [];
+
+    this.rooms.set(roomId, [pin, ...pins.filter(p => p.message.id !== pin.message.id)].sort(byPinnedAtDesc));
+    this.emit();
+  }
+
+  /**
+   * Remove a pin (from an unpin or a `message_unpinned` event)
+   *
+   * @param roomId - Room ID
+   * @param messageId - ID of the unpinned message
+   */
+  public removePin(roomId: number, messageId: number): void {
+    const pins = this.rooms.get(roomId);
+    if (!pins?.some(pin => pin.message.id === messageId)) return;
+
+    this.rooms.set(roomId, pins.filter(pin => pin.message.id !== messageId));
+    this.emit();
+  }
+
+  /**
+   * Show the latest version of an edited message in its pin
+   *
+   * @param message - Updated message
+   */
+  public updateMessage(message: Message): void {
+    const pins = this.rooms.get(message.room_id);
+    if (!pins?.some(pin => pin.message.id === message.id)) return;
+
+    this.rooms.set(message.room_id, pins.map(pin => (pin.message.id === message.id ? { ...pin, message } : pin)));
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared pinned message store
+ */
+export const pinStore = new PinStore();
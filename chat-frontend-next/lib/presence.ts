@@ -0,0 +1,349 @@
+/**
+ * Presence Store
+ *
+ * Who is online, away, busy or offline, shared by every avatar badge and
+ * "Active now" / "Last seen" label:
+ * - Kept live by WebSocket `presence` events; until one arrives for a user,
+ *   their presence comes from the REST data (`is_online`, `last_active_at`)
+ * - Custom status texts expire on their own
+ * - Also holds the current user's chosen status (automatic, away or busy)
+ *   and custom status, persisted to localStorage
+ *
+ * @example
+ * ```ts
+ * import { presenceStore, describePresence } from '@/lib/presence';
+ *
+ * presenceStore.apply(2, { status: 'away', last_active_at: '2024-01-15T14:30:00Z' });
+ * describePresence(presenceStore.getPresence(2)!); // "Away"
+ *
+ * presenceStore.setOwnStatus({ mode: 'busy' });
+ * ```
+ */
+
+import type { PresencePayload, PresenceStatus } from './websocket';
+
+/**
+ * A custom status text, e.g. "In a meeting"
+ */
+export interface CustomStatus {
+  text: string;
+  /** When the status clears itself (null to keep it until cleared) */
+  expires_at: string | null;
+}
+
+/**
+ * A user's presence
+ */
+export interface UserPresence {
+  status: PresenceStatus;
+  /** Last time the user was active (shown while offline) */
+  last_active_at: string | null;
+  custom_status: CustomStatus | null;
+}
+
+/**
+ * Status the current user picked
+ * - auto: online, or away after being idle or with the tab hidden
+ * - away / busy: kept until changed
+ */
+export type OwnStatusMode = 'auto' | 'away' | 'busy';
+
+export interface OwnStatus {
+  mode: OwnStatusMode;
+  custom_status: CustomStatus | null;
+}
+
+/**
+ * User data from the REST API that carries presence
+ */
+export interface PresenceSource {
+  id: number;
+  is_online?: boolean;
+  last_active_at?: string | null;
+  status?: string;
+  status_text?: string | null;
+  status_expires_at?: string | null;
+}
+
+export type PresenceStoreListener = () => void;
+
+/** Without activity for this long, the user goes away */
+export const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+export const MAX_STATUS_TEXT_LENGTH = 100;
+
+const PRESENCE_STATUSES: readonly string[] = ['online', 'away', 'busy', 'offline'];
+
+const STORAGE_KEY = 'presence-status';
+
+const DEFAULT_OWN_STATUS: OwnStatus = { mode: 'auto', custom_status: null };
+
+const EMPTY_IDS: number[] = [];
+
+/**
+ * Presence from REST user data (used until a `presence` event arrives)
+ *
+ * @param source - User data
+ * @returns The user's presence
+ */
+export function presenceFromUser(source: PresenceSource): UserPresence {
+  const status = source.status && PRESENCE_STATUSES.includes(source.status)
+    ? (source.status as PresenceStatus)
+    : source.is_online ? 'online' : 'offline';
+
+  return {
+    status,
+    last_active_at: source.last_active_at ?? null,
+    custom_status: source.status_text
+      ? { text: source.status_text, expires_at: source.status_expires_at ?? null }
+      : null,
+  };
+}
+
+/**
+ * The custom status, unless it has expired
+ *
+ * @param customStatus - Custom status (null for none)
+ * @param now - Current time in milliseconds
+ * @returns The custom status, or null when there is none (anymore)
+ */
+export function getActiveCustomStatus(customStatus: CustomStatus | null, now: number = Date.now()): CustomStatus | null {
+  if (!customStatus) return null;
+  if (customStatus.expires_at && new Date(customStatus.expires_at).getTime() <= now) return null;
+  return customStatus;
+}
+
+/**
+ * "Last seen" label for a time
+ *
+ * @param lastActiveAt - Last time the user was active
+ * @param now - Current time in milliseconds
+ * @returns e.g. "Last seen 5m ago"
+ *
+ * @example
+ * ```ts
+ * formatLastSeen('2024-01-15T14:30:00Z'); // "Last seen 5m ago"
+ * ```
+ */
+export function formatLastSeen(lastActiveAt: string, now: number = Date.now()): string {
+  const date = new Date(lastActiveAt);
+  const diffInMins = Math.floor((now - date.getTime()) / 60000);
+  const diffInHours = Math.floor(diffInMins / 60);
+  const diffInDays = Math.floor(diffInHours / 24);
+
+  if (diffInMins < 1) return 'Last seen just now';
+  if (diffInMins < 60) return `Last seen ${diffInMins}m ago`;
+  if (diffInHours < 24) return `Last seen ${diffInHours}h ago`;
+  if (diffInDays < 7) return `Last seen ${diffInDays}d ago`;
+
+  return `Last seen ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+/**
+ * Label for a presence: "Active now", "Away", "Busy", "Last seen 5m ago" or "Offline"
+ *
+ * @param presence - User's presence
+ * @param now - Current time in milliseconds
+ */
+export function describePresence(presence: UserPresence, now: number = Date.now()): string {
+  switch (presence.status) {
+    case 'online':
+      return 'Active now';
+    case 'away':
+      return 'Away';
+    case 'busy':
+      return 'Busy';
+    default:
+      return presence.last_active_at ? formatLastSeen(presence.last_active_at, now) : 'Offline';
+  }
+}
+
+/**
+ * The status to broadcast for the current user
+ *
+ * @param mode - Status the user picked
+ * @param inactive - Whether the user is idle or the tab is hidden
+ * @param visible - Whether the user shares their online status (privacy setting)
+ */
+export function resolveOwnStatus(mode: OwnStatusMode, inactive: boolean, visible: boolean): PresenceStatus {
+  if (!visible) return 'offline';
+  if (mode === 'busy') return 'busy';
+  if (mode === 'away' || inactive) return 'away';
+  return 'online';
+}
+
+/**
+ * Presence Store Class
+ *
+ * Use the shared `presenceStore` instance rather than creating new ones.
+ * `getPresence`, `getOnlineUserIds` and `getOwnStatus` return the same value
+ * until it changes, so they can be used in a `useSyncExternalStore` snapshot.
+ */
+export class PresenceStore {
+  private users: Map<number, UserPresence> = new Map();
+  private onlineUserIds: number[] = EMPTY_IDS;
+  private ownStatus: OwnStatus = DEFAULT_OWN_STATUS;
+  private ownStatusLoaded: boolean = false;
+  private listeners: Set<PresenceStoreListener> = new Set();
+
+  /**
+   * Subscribe to presence changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: PresenceStoreListener): (() => void) => {
+    if (this.listeners.size === 0 && typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && typeof window !== 'undefined') {
+        window.removeEventListener('storage', this.handleStorage);
+      }
+    };
+  };
+
+  /**
+   * Get a user's live presence
+   *
+   * @param userId - User ID
+   * @returns The presence, or undefined if no `presence` event has arrived for them
+   */
+  public getPresence = (userId: number): UserPresence | undefined => {
+    return this.users.get(userId);
+  };
+
+  /**
+   * Get the users who are online, away or busy
+   */
+  public getOnlineUserIds = (): number[] => {
+    return this.onlineUserIds;
+  };
+
+  /**
+   * Apply a `presence` event
+   * Fields the event leaves out keep their known value.
+   *
+   * @param userId - User the event is about
+   * @param payload - Event content
+   */
+  public apply(userId: number, payload: PresencePayload): void {
+    const current = this.users.get(userId);
+
+    let customStatus = current?.custom_status ?? null;
+    if (payload.status_text !== undefined) {
+      customStatus = payload.status_text
+        ? { text: payload.status_text, expires_at: payload.status_expires_at ?? null }
+        : null;
+    }
+
+    this.users.set(userId, {
+      status: payload.status,
+      last_active_at: payload.last_active_at !== undefined
+        ? payload.last_active_at
+        : current?.last_active_at ?? null,
+      custom_status: customStatus,
+    });
+
+    const wasOnline = !!current && current.status !== 'offline';
+    const isOnline = payload.status !== 'offline';
+    if (wasOnline !== isOnline) {
+      this.onlineUserIds = isOnline
+        ? [...this.onlineUserIds, userId]
+        : this.onlineUserIds.filter(id => id !== userId);
+    }
+
+    this.emit();
+  }
+
+  /**
+   * Forget all live presence (e.g. when the connection goes away)
+   */
+  public clear(): void {
+    if (this.users.size === 0) return;
+
+    this.users = new Map();
+    this.onlineUserIds = EMPTY_IDS;
+    this.emit();
+  }
+
+  /**
+   * Get the current user's chosen status
+   */
+  public getOwnStatus = (): OwnStatus => {
+    this.loadOwnStatus();
+    return this.ownStatus;
+  };
+
+  /**
+   * Change the current user's chosen status
+   *
+   * @param changes - Mode and/or custom status to change
+   */
+  public setOwnStatus(changes: Partial<OwnStatus>): void {
+    this.ownStatus = { ...this.getOwnStatus(), ...changes };
+    this.persistOwnStatus();
+    this.emit();
+  }
+
+  /**
+   * Pick up a status set in another tab
+   */
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== STORAGE_KEY) return;
+
+    this.ownStatusLoaded = false;
+    this.loadOwnStatus();
+    this.emit();
+  };
+
+  private loadOwnStatus(): void {
+    if (this.ownStatusLoaded || typeof window === 'undefined') return;
+    this.ownStatusLoaded = true;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.ownStatus = stored
+        ? { ...DEFAULT_OWN_STATUS, ...(JSON.parse(stored) as Partial<OwnStatus>) }
+        : DEFAULT_OWN_STATUS;
+    } catch (error) {
+      console.error('Failed to load status:', error);
+    }
+  }
+
+  private persistOwnStatus(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.ownStatus));
+    } catch (error) {
+      console.error('Failed to persist status:', error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared presence store
+ */
+export const presenceStore = new PresenceStore();
+
+/**
+ * Server snapshot of the current user's status for `useSyncExternalStore`
+ */
+export function getServerOwnStatus(): OwnStatus {
+  return DEFAULT_OWN_STATUS;
+}
+
+/**
+ * Server snapshot of the online users for `useSyncExternalStore`
+ */
+export function getServerOnlineUserIds(): number[] {
+  return EMPTY_IDS;
+}
@@ -0,0 +1,175 @@
+/**
+ * Read Receipt Store
+ *
+ * How far each member of a room has read, shared by the message list's
+ * "Seen" and "read by" indicators:
+ * - Loaded per room, then kept live by WebSocket `read` events
+ * - Positions only move forward, so late or out-of-order updates are ignored
+ *
+ * @example
+ * ```ts
+ * import { readReceiptStore, getReadersByMessage } from '@/lib/readReceipts';
+ *
+ * readReceiptStore.setReceipts(roomId, await getReadReceipts(roomId));
+ * const readers = getReadersByMessage(messageIds, readReceiptStore.getReceipts(roomId) ?? [], user.id);
+ * readers.get(123); // Members whose latest read message is 123
+ * ```
+ */
+
+import type { ReactionUser, ReadReceipt } from './types';
+
+export type ReadReceiptStoreListener = () => void;
+
+/**
+ * Read Receipt Store Class
+ *
+ * Use the shared `readReceiptStore` instance rather than creating new ones.
+ * `getReceipts` returns the same array until that room's receipts change,
+ * so it can be used in a `useSyncExternalStore` snapshot.
+ */
+export class ReadReceiptStore {
+  private rooms: Map<number, ReadReceipt[]> = new Map();
+  private listeners: Set<ReadReceiptStoreListener> = new Set();
+
+  /**
+   * Subscribe to receipt changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: ReadReceiptStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Get the receipts of a room
+   *
+   * @param roomId - Room ID
+   * @returns One receipt per member, or undefined if none are known yet
+   */
+  public getReceipts = (roomId: number): ReadReceipt[] | undefined => {
+    return this.rooms.get(roomId);
+  };
+
+  /**
+   * Merge a fresh list of receipts from the server into a room's receipts
+   *
+   * @param roomId - Room ID
+   * @param receipts - Receipts of the room
+   */
+  public setReceipts(roomId: number, receipts: ReadReceipt[]): void {
+    let changed = !this.rooms.has(roomId);
+    let current = this.rooms.get(roomId) ?? [];
+
+    receipts.forEach(receipt => {
+      const next = this.merge(current, receipt);
+      if (next !== current) {
+        current = next;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.rooms.set(roomId, current);
+      this.emit();
+    }
+  }
+
+  /**
+   * Move a member's read position forward (from a `read` event)
+   *
+   * @param roomId - Room ID
+   * @param user - Member who read (username may be empty if the event had none)
+   * @param messageId - ID of the latest message they have seen
+   * @param readAt - When they read it
+   */
+  public applyRead(roomId: number, user: ReactionUser, messageId: number, readAt: string): void {
+    const current = this.rooms.get(roomId) ?? [];
+    const next = this.merge(current, { user, last_read_message_id: messageId, read_at: readAt });
+
+    if (next !== current || !this.rooms.has(roomId)) {
+      this.rooms.set(roomId, next);
+      this.emit();
+    }
+  }
+
+  /**
+   * Returns `receipts` unchanged when `receipt` is not ahead of what is known
+   */
+  private merge(receipts: ReadReceipt[], receipt: ReadReceipt): ReadReceipt[] {
+    const existing = receipts.find(r => r.user.id === receipt.user.id);
+    if (existing && existing.last_read_message_id >= receipt.last_read_message_id) {
+      return receipts;
+    }
+
+    // Events may carry no username; keep the one we already know
+    const user = receipt.user.username || !existing ? receipt.user : existing.user;
+    return [...receipts.filter(r => r.user.id !== receipt.user.id), { ...receipt, user }];
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared read receipt store
+ */
+export const readReceiptStore = new ReadReceiptStore();
+
+/**
+ * Place each member's receipt at the latest loaded message they have read
+ *
+ * A member who read up to a message that is not loaded (e.g. a thread reply)
+ * is placed at the closest earlier one; members whose position is above the
+ * loaded messages are left out.
+ *
+ * @param messageIds - IDs of the loaded messages, oldest first
+ * @param receipts - Receipts of the room
+ * @param excludeUserId - Member to leave out (the current user)
+ * @returns Receipts by message ID, earliest reader first
+ *
+ * @example
+ * ```ts
+ * const readers = getReadersByMessage([10, 11, 12], receipts, user.id);
+ * readers.get(12)?.map(r => r.user.username); // ['bob']
+ * ```
+ */
+export function getReadersByMessage(
+  messageIds: number[],
+  receipts: ReadReceipt[],
+  excludeUserId?: number
+): Map<number, ReadReceipt[]> {
+  const readers = new Map<number, ReadReceipt[]>();
+  if (messageIds.length === 0) return readers;
+
+  receipts.forEach(receipt => {
+    if (receipt.user.id === excludeUserId) return;
+
+    // Binary search for the latest message at or before the read position
+    let low = 0;
+    let high = messageIds.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (messageIds[mid] <= receipt.last_read_message_id) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found === -1) return;
+
+    const messageId = messageIds[found];
+    readers.set(messageId, [...(readers.get(messageId) ?? []), receipt]);
+  });
+
+  readers.forEach(list => {
+    list.sort((a, b) => new Date(a.read_at).getTime() - new Date(b.read_at).getTime());
+  });
+  return readers;
+}
@@ -0,0 +1,92 @@
+/**
+ * Message Search Helpers
+ *
+ * Text helpers for showing search results:
+ * - Split a query into the words the backend matches
+ * - Split text into matching and non-matching parts, for highlighting
+ * - Cut long messages down to a snippet around the first match
+ *
+ * @example
+ * ```ts
+ * import { getSearchTerms, buildSnippet, highlightMatches } from '@/lib/search';
+ *
+ * const terms = getSearchTerms('release notes');
+ * highlightMatches(buildSnippet(message.content, terms), terms);
+ * // [{ text: 'the ', match: false }, { text: 'release', match: true }, ...]
+ * ```
+ */
+
+import { stripMentions } from './mentions';
+
+/**
+ * Part of a text, and whether it matches a search term
+ */
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_LENGTH = 160;
+
+// Characters of context kept before the first match in a snippet
+const SNIPPET_LEAD = 40;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Words of a search query (as matched by the backend)
+ *
+ * @param query - Search query
+ * @returns Unique lowercase words
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/**
+ * Split text into parts that match a search term and parts that don't
+ *
+ * @param text - Text to highlight
+ * @param terms - Search terms (see getSearchTerms)
+ * @returns Parts in order; joined, they are the original text
+ */
+export function highlightMatches(text: string, terms: string[]): HighlightPart[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // Longest first, so a term inside another one doesn't split the match
+  const pattern = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const splitter = new RegExp(`(${pattern})`, 'gi');
+
+  return text
+    .split(splitter)
+    // Captured matches are at the odd indexes
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter(part => part.text !== '');
+}
+
+/**
+ * Plain-text snippet of a message around the first match
+ *
+ * @param content - Message content
+ * @param terms - Search terms (see getSearchTerms)
+ * @param maxLength - Maximum snippet length (default: 160)
+ * @returns Snippet, with `…` where text was cut
+ */
+export function buildSnippet(content: string, terms: string[], maxLength = SNIPPET_LENGTH): string {
+  const text = stripMentions(content).replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+
+  const lower = text.toLowerCase();
+  const firstMatch = terms.reduce((first, term) => {
+    const index = lower.indexOf(term);
+    return index !== -1 && (first === -1 || index < first) ? index : first;
+  }, -1);
+
+  const start = firstMatch <= SNIPPET_LEAD ? 0 : Math.min(firstMatch - SNIPPET_LEAD, text.length - maxLength);
+  const end = start + maxLength;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Chat Settings Store
+ *
+ * User preferences from the settings page, shared with the rest of the app:
+ * - Persisted to localStorage, so they survive reloads
+ * - Lives outside React; every view reads the same values and updates live
+ *   when a setting changes (also across tabs)
+ *
+ * @example
+ * ```ts
+ * import { settingsStore } from '@/lib/settings';
+ *
+ * if (settingsStore.getSettings().autoDownload) {
+ *   loadPreview();
+ * }
+ *
+ * settingsStore.update({ autoDownload: true });
+ * ```
+ */
+
+/**
+ * Time of day when notifications stay silent ("HH:MM", local time)
+ * An end before the start spans midnight.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/**
+ * User preferences
+ */
+export interface ChatSettings {
+  /** Desktop notifications for new messages */
+  notifications: boolean;
+  soundEnabled: boolean;
+  darkMode: boolean;
+  readReceipts: boolean;
+  onlineStatus: boolean;
+  /** Show message content in notifications */
+  messagePreview: boolean;
+  /** Rooms that only notify for keywords and mentions */
+  mutedRooms: number[];
+  /** Words that always notify, even in muted rooms */
+  notificationKeywords: string[];
+  quietHours: QuietHours;
+  /** Load image previews without a click */
+  autoDownload: boolean;
+  twoFactorAuth: boolean;
+}
+
+export type SettingsListener = () => void;
+
+export const DEFAULT_SETTINGS: ChatSettings = {
+  notifications: true,
+  soundEnabled: true,
+  darkMode: false,
+  readReceipts: true,
+  onlineStatus: true,
+  messagePreview: true,
+  mutedRooms: [],
+  notificationKeywords: [],
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+  autoDownload: false,
+  twoFactorAuth: false,
+};
+
+const STORAGE_KEY = 'settings';
+
+/**
+ * Settings Store Class
+ *
+ * Use the shared `settingsStore` instance rather than creating new ones.
+ * `getSettings` returns the same object until a setting changes, so it can
+ * be used as a `useSyncExternalStore` snapshot.
+ */
+export class SettingsStore {
+  private settings: ChatSettings = DEFAULT_SETTINGS;
+  private loaded: boolean = false;
+  private listeners: Set<SettingsListener> = new Set();
+
+  /**
+   * Get the current settings
+   */
+  public getSettings = (): ChatSettings => {
+    this.load();
+    return this.settings;
+  };
+
+  /**
+   * Subscribe to settings changes
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe = (listener: SettingsListener): (() => void) => {
+    if (this.listeners.size === 0 && typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && typeof window !== 'undefined') {
+        window.removeEventListener('storage', this.handleStorage);
+      }
+    };
+  };
+
+  /**
+   * Change one or more settings
+   *
+   * @param changes - Settings to change
+   */
+  public update(changes: Partial<ChatSettings>): void {
+    this.settings = { ...this.getSettings(), ...changes };
+    this.persist();
+    this.emit();
+  }
+
+  /**
+   * Pick up changes made in another tab
+   */
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== STORAGE_KEY) return;
+
+    this.loaded = false;
+    this.load();
+    this.emit();
+  };
+
+  /**
+   * Load persisted settings on first access
+   * Settings added since they were stored get their defaults.
+   */
+  private load(): void {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.settings = stored
+        ? { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<ChatSettings>) }
+        : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }
+
+  private persist(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to persist settings:', error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared settings instance
+ */
+export const settingsStore = new SettingsStore();
+
+/**
+ * Server snapshot for `useSyncExternalStore` (defaults during prerender)
+ */
+export function getServerSettings(): ChatSettings {
+  return DEFAULT_SETTINGS;
+}
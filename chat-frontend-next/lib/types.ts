@@ -13,7 +13,9 @@ export interface User {
   // Activity tracking
   last_active_at?: string | null;
   is_online?: boolean;
-  status?: string;
+  status?: string; // Presence: online, away, busy or offline
+  status_text?: string | null; // Custom status
+  status_expires_at?: string | null;
   // Timestamps
   created_at: string;
   updated_at: string;
@@ -27,10 +29,64 @@ export interface Message {
   room_id: number;
   parent_id?: number;
   parent_message?: Message;
+  parent_deleted?: boolean;
+  reply_count?: number;
+  reactions?: ReactionSummary[];
+  attachments?: Attachment[];
+  nonce?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface ReactionUser {
+  id: number;
+  username: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  users: ReactionUser[];
+}
+
+export interface PinnedMessage {
+  message: Message;
+  pinned_by: ReactionUser;
+  pinned_at: string;
+}
+
+export interface ReadReceipt {
+  user: ReactionUser;
+  last_read_message_id: number;
+  read_at: string;
+}
+
+export interface Bookmark {
+  message: Message;
+  note?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Attachment {
+  id: number;
+  filename: string;
+  content_type: string;
+  size: number;
+  url: string;
+  thumbnail_url?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image_url?: string;
+  site_name?: string;
+}
+
 export interface Room {
   id: number;
   name: string;
@@ -4,9 +4,11 @@
  * This module provides a WebSocket client for real-time chat features including:
  * - Real-time message delivery
  * - Typing indicators
- * - Online status updates
+ * - Read receipts
+ * - Presence (online, away, busy, offline) and custom status
  * - Room join/leave notifications
  * - Automatic reconnection with exponential backoff
+ * - A shared, ref-counted connection per token (see acquireWebSocketClient)
  *
  * @example
  * ```ts
@@ -23,17 +25,272 @@
  * ```
  */
 
-export interface WSMessage {
-  type: 'message' | 'typing' | 'join' | 'leave' | 'error';
+import type { Message, PinnedMessage } from './types';
+
+/**
+ * Protocol Payloads
+ *
+ * `content` of each frame type. Inbound frames are validated against
+ * these shapes before any handler sees them.
+ */
+export interface TypingPayload {
+  typing: boolean;
+}
+
+export interface RoomPayload {
+  room_id: number;
+}
+
+export interface ErrorPayload {
+  error: string;
+}
+
+export interface MessageDeletedPayload {
+  id: number;
+  room_id: number;
+}
+
+export interface ReactionPayload {
+  message_id: number;
+  emoji: string;
+  user_id: number;
+  username: string;
+}
+
+export interface UnpinPayload {
+  message_id: number;
+  room_id: number;
+}
+
+export interface ReadPayload {
+  message_id: number;
+  read_at?: string;
+  /** Set by the server on inbound frames */
+  username?: string;
+}
+
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'offline';
+
+export interface PresencePayload {
+  status: PresenceStatus;
+  last_active_at?: string | null;
+  /** Custom status text (null clears it, left out keeps it) */
+  status_text?: string | null;
+  /** When the custom status clears itself */
+  status_expires_at?: string | null;
+}
+
+/**
+ * Payload type for every frame the server can send
+ */
+export interface WSInboundPayloads {
+  message: Message;
+  typing: TypingPayload;
+  join: RoomPayload;
+  leave: RoomPayload;
+  error: ErrorPayload;
+  message_updated: Message;
+  message_deleted: MessageDeletedPayload;
+  reaction_added: ReactionPayload;
+  reaction_removed: ReactionPayload;
+  message_pinned: PinnedMessage;
+  message_unpinned: UnpinPayload;
+  read: ReadPayload;
+  presence: PresencePayload;
+}
+
+/**
+ * Payload type for every frame the client can send
+ */
+export interface WSOutboundPayloads {
+  join: RoomPayload;
+  leave: RoomPayload;
+  typing: TypingPayload;
+  read: ReadPayload;
+  presence: PresencePayload;
+}
+
+export type WSInboundType = keyof WSInboundPayloads;
+export type WSOutboundType = keyof WSOutboundPayloads;
+
+/**
+ * Common frame envelope
+ */
+export interface WSFrame<T extends string, P> {
+  type: T;
   room_id: number;
   user_id: number;
-  content: any;
+  content: P;
   timestamp?: string;
 }
 
-export type WSMessageHandler = (message: WSMessage) => void;
+export type WSInboundFrameOf<T extends WSInboundType> = WSFrame<T, WSInboundPayloads[T]>;
+export type WSOutboundFrameOf<T extends WSOutboundType> = WSFrame<T, WSOutboundPayloads[T]>;
+
+/**
+ * Discriminated union of all inbound frames (narrow on `type`)
+ */
+export type WSInboundFrame = { [K in WSInboundType]: WSInboundFrameOf<K> }[WSInboundType];
+
+/**
+ * Discriminated union of all outbound frames
+ */
+export type WSOutboundFrame = { [K in WSOutboundType]: WSOutboundFrameOf<K> }[WSOutboundType];
+
+/**
+ * Any validated inbound frame
+ */
+export type WSMessage = WSInboundFrame;
+
+export type WSFrameHandler<T extends WSInboundType> = (message: WSInboundFrameOf<T>) => void;
+export type WSMessageHandler = (message: WSInboundFrame) => void;
 export type WSErrorHandler = (error: Error) => void;
 export type WSConnectionHandler = () => void;
+export type WSReconnectHandler = (rooms: number[]) => void;
+export type WSProtocolErrorHandler = (error: WSProtocolError) => void;
+
+/**
+ * Raised when an inbound frame is not valid JSON or does not match the protocol
+ */
+export class WSProtocolError extends Error {
+  /** Raw frame data as received */
+  public readonly raw: unknown;
+
+  constructor(message: string, raw: unknown) {
+    super(message);
+    this.name = 'WSProtocolError';
+    this.raw = raw;
+  }
+}
+
+/**
+ * Runtime Validation
+ */
+type Validator = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptional = (check: Validator): Validator => (value) =>
+  value === undefined || value === null || check(value);
+
+function isMessagePayload(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    isNumber(value.id) &&
+    isString(value.content) &&
+    isNumber(value.user_id) &&
+    isNumber(value.room_id) &&
+    isObject(value.user) &&
+    isString(value.created_at) &&
+    isString(value.updated_at) &&
+    isOptional(isNumber)(value.parent_id) &&
+    isOptional(isObject)(value.parent_message)
+  );
+}
+
+function isReactionPayload(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    isNumber(value.message_id) &&
+    isString(value.emoji) &&
+    value.emoji.length > 0 &&
+    isNumber(value.user_id) &&
+    isString(value.username)
+  );
+}
+
+function isPinPayload(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    isMessagePayload(value.message) &&
+    isObject(value.pinned_by) &&
+    isNumber(value.pinned_by.id) &&
+    isString(value.pinned_by.username) &&
+    isString(value.pinned_at)
+  );
+}
+
+const PRESENCE_STATUSES: readonly string[] = ['online', 'away', 'busy', 'offline'];
+
+const payloadValidators: { [K in WSInboundType]: Validator } = {
+  message: isMessagePayload,
+  typing: (value) => isObject(value) && typeof value.typing === 'boolean',
+  join: (value) => isObject(value) && isNumber(value.room_id),
+  leave: (value) => isObject(value) && isNumber(value.room_id),
+  error: (value) => isObject(value) && isString(value.error),
+  message_updated: isMessagePayload,
+  message_deleted: (value) => isObject(value) && isNumber(value.id) && isNumber(value.room_id),
+  reaction_added: isReactionPayload,
+  reaction_removed: isReactionPayload,
+  message_pinned: isPinPayload,
+  message_unpinned: (value) => isObject(value) && isNumber(value.message_id) && isNumber(value.room_id),
+  read: (value) =>
+    isObject(value) &&
+    isNumber(value.message_id) &&
+    isOptional(isString)(value.read_at) &&
+    isOptional(isString)(value.username),
+  presence: (value) =>
+    isObject(value) &&
+    isString(value.status) &&
+    PRESENCE_STATUSES.includes(value.status) &&
+    isOptional(isString)(value.last_active_at) &&
+    isOptional(isString)(value.status_text) &&
+    isOptional(isString)(value.status_expires_at),
+};
+
+/**
+ * Validate raw frame data received from the server
+ *
+ * @param data - Raw `MessageEvent.data`
+ * @returns The validated, narrowed frame
+ * @throws WSProtocolError if the data is not a known, well-formed frame
+ *
+ * @example
+ * ```ts
+ * const frame = parseInboundFrame(event.data);
+ * if (frame.type === 'typing') {
+ *   console.log(frame.content.typing); // boolean
+ * }
+ * ```
+ */
+export function parseInboundFrame(data: unknown): WSInboundFrame {
+  let parsed: unknown;
+  try {
+    parsed = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    throw new WSProtocolError('Frame is not valid JSON', data);
+  }
+
+  if (!isObject(parsed) || !isString(parsed.type)) {
+    throw new WSProtocolError('Frame has no type', data);
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(payloadValidators, parsed.type)) {
+    throw new WSProtocolError(`Unknown frame type "${parsed.type}"`, data);
+  }
+
+  const type = parsed.type as WSInboundType;
+
+  if (!isNumber(parsed.room_id) || !isNumber(parsed.user_id)) {
+    throw new WSProtocolError(`Frame "${type}" is missing room_id or user_id`, data);
+  }
+
+  if (!isOptional(isString)(parsed.timestamp)) {
+    throw new WSProtocolError(`Frame "${type}" has an invalid timestamp`, data);
+  }
+
+  if (!payloadValidators[type](parsed.content)) {
+    throw new WSProtocolError(`Frame "${type}" has an invalid payload`, data);
+  }
+
+  return parsed as unknown as WSInboundFrame;
+}
 
 /**
  * WebSocket Client Class
@@ -47,17 +304,21 @@ export class WebSocketClient {
   private token: string;
   private connected: boolean = false;
   private reconnecting: boolean = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private manualDisconnect: boolean = false;
   private reconnectDelay: number = 5000; // Start with 5 seconds
   private maxReconnectDelay: number = 60000; // Max 60 seconds
-  private currentRooms: Set<number> = new Set();
+  private currentRooms: Map<number, number> = new Map(); // roomId -> subscriber count
   private reconnectAttempts: number = 0;
+  private hasConnectedBefore: boolean = false;
 
   // Event handlers
-  private messageHandlers: Map<string, Set<WSMessageHandler>> = new Map();
+  private messageHandlers: Map<WSInboundType | 'all', Set<WSMessageHandler>> = new Map();
+  private protocolErrorHandlers: Set<WSProtocolErrorHandler> = new Set();
   private errorHandlers: Set<WSErrorHandler> = new Set();
   private connectHandlers: Set<WSConnectionHandler> = new Set();
   private disconnectHandlers: Set<WSConnectionHandler> = new Set();
+  private reconnectHandlers: Set<WSReconnectHandler> = new Set();
 
   /**
    * Create a new WebSocket client
@@ -110,24 +371,34 @@ export class WebSocketClient {
           this.reconnectDelay = 5000; // Reset delay on successful connection
           console.log('WebSocket connected');
 
-          // Rejoin all previously joined rooms
-          this.currentRooms.forEach(roomId => {
-            this.joinRoom(roomId);
+          // Rejoin all previously joined rooms (once per room, not per subscriber)
+          this.currentRooms.forEach((_count, roomId) => {
+            this.sendRoomFrame('join', roomId);
           });
 
           // Notify connect handlers
           this.connectHandlers.forEach(handler => handler());
 
+          // Frames broadcast while the socket was down are lost - let
+          // subscribers catch up on the rooms they were in
+          if (this.hasConnectedBefore) {
+            const rooms = this.getJoinedRooms();
+            this.reconnectHandlers.forEach(handler => handler(rooms));
+          }
+          this.hasConnectedBefore = true;
+
           resolve();
         };
 
         this.ws.onmessage = (event) => {
+          let message: WSInboundFrame;
           try {
-            const message: WSMessage = JSON.parse(event.data);
-            this.handleMessage(message);
+            message = parseInboundFrame(event.data);
           } catch (error) {
-            console.error('Failed to parse WebSocket message:', error);
+            this.handleProtocolError(error as WSProtocolError);
+            return;
           }
+          this.handleMessage(message);
         };
 
         this.ws.onerror = (event) => {
@@ -170,13 +441,44 @@ export class WebSocketClient {
   public disconnect(): void {
     this.manualDisconnect = true;
     this.connected = false;
+    this.clearReconnectTimer();
 
     if (this.ws) {
+      // Detach first so a late close event cannot schedule a reconnect
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onerror = null;
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
+
+      this.disconnectHandlers.forEach(handler => handler());
     }
   }
 
+  /**
+   * Drop the current socket and connect again immediately
+   *
+   * Joined rooms and registered handlers are kept and rooms are
+   * rejoined once the new socket is open.
+   *
+   * @returns Promise that resolves when reconnected
+   *
+   * @example
+   * ```ts
+   * await ws.reconnect();
+   * ```
+   */
+  public reconnect(): Promise<void> {
+    // disconnect() also cancels a pending backoff reconnect, so it cannot
+    // open a second socket next to this one
+    this.disconnect();
+    this.manualDisconnect = false;
+    this.reconnecting = false;
+    this.reconnectAttempts = 0;
+    return this.connect();
+  }
+
   /**
    * Check if WebSocket is currently connected
    *
@@ -196,6 +498,10 @@ export class WebSocketClient {
   /**
    * Join a chat room
    *
+   * Joins are counted per subscriber: the server only receives a `join`
+   * frame for the first subscriber of a room, so several components can
+   * share one connection without duplicate joins.
+   *
    * @param roomId - Room ID to join
    *
    * @example
@@ -204,21 +510,20 @@ export class WebSocketClient {
    * ```
    */
   public joinRoom(roomId: number): void {
-    this.currentRooms.add(roomId);
+    const count = this.currentRooms.get(roomId) ?? 0;
+    this.currentRooms.set(roomId, count + 1);
 
-    if (this.isConnected()) {
-      this.send({
-        type: 'join',
-        room_id: roomId,
-        user_id: 0, // Will be set by server
-        content: { room_id: roomId }
-      });
+    if (count === 0) {
+      this.sendRoomFrame('join', roomId);
     }
   }
 
   /**
    * Leave a chat room
    *
+   * The `leave` frame is only sent once the last subscriber of the room
+   * has left. Calling this for a room that was never joined is a no-op.
+   *
    * @param roomId - Room ID to leave
    *
    * @example
@@ -227,16 +532,25 @@ export class WebSocketClient {
    * ```
    */
   public leaveRoom(roomId: number): void {
-    this.currentRooms.delete(roomId);
+    const count = this.currentRooms.get(roomId);
+    if (!count) return;
 
-    if (this.isConnected()) {
-      this.send({
-        type: 'leave',
-        room_id: roomId,
-        user_id: 0, // Will be set by server
-        content: { room_id: roomId }
-      });
+    if (count > 1) {
+      this.currentRooms.set(roomId, count - 1);
+      return;
     }
+
+    this.currentRooms.delete(roomId);
+    this.sendRoomFrame('leave', roomId);
+  }
+
+  /**
+   * Get the IDs of all rooms with at least one subscriber
+   *
+   * @returns Array of joined room IDs
+   */
+  public getJoinedRooms(): number[] {
+    return Array.from(this.currentRooms.keys());
   }
 
   /**
@@ -265,24 +579,75 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Tell a room how far the user has read (their read receipt)
+   * Dropped while disconnected; send again after reconnecting.
+   *
+   * @param roomId - Room ID
+   * @param messageId - ID of the latest message the user has seen
+   *
+   * @example
+   * ```ts
+   * ws.sendRead(1, 123);
+   * ```
+   */
+  public sendRead(roomId: number, messageId: number): void {
+    if (this.isConnected()) {
+      this.send({
+        type: 'read',
+        room_id: roomId,
+        user_id: 0, // Will be set by server
+        content: { message_id: messageId }
+      });
+    }
+  }
+
+  /**
+   * Tell the server the user's presence, which it shares with everyone who
+   * has a room or DM with them. Not tied to a room, so `room_id` is 0.
+   * Dropped while disconnected; send again after reconnecting.
+   *
+   * @param presence - Status, plus the custom status to show (null for none)
+   *
+   * @example
+   * ```ts
+   * ws.sendPresence({ status: 'busy', status_text: 'In a meeting', status_expires_at: '2024-01-15T15:00:00Z' });
+   * ```
+   */
+  public sendPresence(presence: PresencePayload): void {
+    if (this.isConnected()) {
+      this.send({
+        type: 'presence',
+        room_id: 0,
+        user_id: 0, // Will be set by server
+        content: presence
+      });
+    }
+  }
+
   /**
    * Register handler for specific message type
    *
+   * The handler receives the frame narrowed to that type; use 'all' to
+   * receive every frame as the discriminated union.
+   *
    * @param type - Message type to listen for
    * @param handler - Handler function
    *
    * @example
    * ```ts
    * ws.on('message', (msg) => {
-   *   console.log('New message:', msg.content);
+   *   console.log('New message:', msg.content.content);
    * });
    *
    * ws.on('typing', (msg) => {
-   *   console.log(`User ${msg.user_id} is typing`);
+   *   console.log(`User ${msg.user_id} typing: ${msg.content.typing}`);
    * });
    * ```
    */
-  public on(type: string, handler: WSMessageHandler): void {
+  public on(type: 'all', handler: WSMessageHandler): void;
+  public on<T extends WSInboundType>(type: T, handler: WSFrameHandler<T>): void;
+  public on(type: WSInboundType | 'all', handler: WSMessageHandler): void {
     if (!this.messageHandlers.has(type)) {
       this.messageHandlers.set(type, new Set());
     }
@@ -302,13 +667,42 @@ export class WebSocketClient {
    * ws.off('message', handler);
    * ```
    */
-  public off(type: string, handler: WSMessageHandler): void {
+  public off(type: 'all', handler: WSMessageHandler): void;
+  public off<T extends WSInboundType>(type: T, handler: WSFrameHandler<T>): void;
+  public off(type: WSInboundType | 'all', handler: WSMessageHandler): void {
     const handlers = this.messageHandlers.get(type);
     if (handlers) {
       handlers.delete(handler);
     }
   }
 
+  /**
+   * Register handler for frames that fail validation
+   *
+   * Invalid frames are never passed to `on()` handlers.
+   *
+   * @param handler - Protocol error handler
+   *
+   * @example
+   * ```ts
+   * ws.onProtocolError((error) => {
+   *   console.warn(error.message, error.raw);
+   * });
+   * ```
+   */
+  public onProtocolError(handler: WSProtocolErrorHandler): void {
+    this.protocolErrorHandlers.add(handler);
+  }
+
+  /**
+   * Remove protocol error handler
+   *
+   * @param handler - Protocol error handler to remove
+   */
+  public offProtocolError(handler: WSProtocolErrorHandler): void {
+    this.protocolErrorHandlers.delete(handler);
+  }
+
   /**
    * Register error handler
    *
@@ -325,6 +719,15 @@ export class WebSocketClient {
     this.errorHandlers.add(handler);
   }
 
+  /**
+   * Remove error handler
+   *
+   * @param handler - Error handler function to remove
+   */
+  public offError(handler: WSErrorHandler): void {
+    this.errorHandlers.delete(handler);
+  }
+
   /**
    * Register connection handler
    *
@@ -341,6 +744,15 @@ export class WebSocketClient {
     this.connectHandlers.add(handler);
   }
 
+  /**
+   * Remove connection handler
+   *
+   * @param handler - Connection handler function to remove
+   */
+  public offConnect(handler: WSConnectionHandler): void {
+    this.connectHandlers.delete(handler);
+  }
+
   /**
    * Register disconnection handler
    *
@@ -357,12 +769,50 @@ export class WebSocketClient {
     this.disconnectHandlers.add(handler);
   }
 
+  /**
+   * Remove disconnection handler
+   *
+   * @param handler - Disconnection handler function to remove
+   */
+  public offDisconnect(handler: WSConnectionHandler): void {
+    this.disconnectHandlers.delete(handler);
+  }
+
+  /**
+   * Register reconnection handler
+   *
+   * Called after the connection is re-established (automatically or via
+   * reconnect()), but not on the first connect. Frames sent while the
+   * socket was down are not replayed, so use this to refetch missed data.
+   *
+   * @param handler - Receives the IDs of the rooms that were rejoined
+   *
+   * @example
+   * ```ts
+   * ws.onReconnect((rooms) => {
+   *   rooms.forEach(roomId => refetchMessages(roomId));
+   * });
+   * ```
+   */
+  public onReconnect(handler: WSReconnectHandler): void {
+    this.reconnectHandlers.add(handler);
+  }
+
+  /**
+   * Remove reconnection handler
+   *
+   * @param handler - Reconnection handler function to remove
+   */
+  public offReconnect(handler: WSReconnectHandler): void {
+    this.reconnectHandlers.delete(handler);
+  }
+
   /**
    * Send message through WebSocket
    *
    * @param message - Message to send
    */
-  private send(message: WSMessage): void {
+  private send(message: WSOutboundFrame): void {
     if (this.ws && this.isConnected()) {
       this.ws.send(JSON.stringify(message));
     } else {
@@ -370,12 +820,29 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Send a join/leave frame for a room if connected
+   *
+   * @param type - Frame type
+   * @param roomId - Room ID
+   */
+  private sendRoomFrame(type: 'join' | 'leave', roomId: number): void {
+    if (this.isConnected()) {
+      this.send({
+        type,
+        room_id: roomId,
+        user_id: 0, // Will be set by server
+        content: { room_id: roomId }
+      });
+    }
+  }
+
   /**
    * Handle incoming WebSocket message
    *
    * @param message - Received message
    */
-  private handleMessage(message: WSMessage): void {
+  private handleMessage(message: WSInboundFrame): void {
     const handlers = this.messageHandlers.get(message.type);
     if (handlers) {
       handlers.forEach(handler => handler(message));
@@ -388,6 +855,19 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Report an invalid inbound frame
+   *
+   * @param error - Validation error
+   */
+  private handleProtocolError(error: WSProtocolError): void {
+    if (this.protocolErrorHandlers.size === 0) {
+      console.warn('Dropped invalid WebSocket frame:', error.message);
+      return;
+    }
+    this.protocolErrorHandlers.forEach(handler => handler(error));
+  }
+
   /**
    * Attempt to reconnect with exponential backoff
    */
@@ -406,7 +886,8 @@ export class WebSocketClient {
 
     console.log(`Reconnecting in ${delay / 1000}s (attempt ${this.reconnectAttempts})...`);
 
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       if (!this.manualDisconnect) {
         this.connect().catch(error => {
           console.error('Reconnection failed:', error);
@@ -416,12 +897,23 @@ export class WebSocketClient {
       }
     }, delay);
   }
+
+  /**
+   * Cancel a scheduled reconnect
+   */
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
 }
 
 /**
- * Create and export a singleton WebSocket client instance
+ * Create a standalone WebSocket client instance
  *
- * Note: You need to initialize this with token after login
+ * Most components should use acquireWebSocketClient instead so that the
+ * whole app shares one connection.
  *
  * @example
  * ```ts
@@ -436,3 +928,64 @@ export class WebSocketClient {
 export function createWebSocketClient(baseURL: string, token: string): WebSocketClient {
   return new WebSocketClient(baseURL, token);
 }
+
+/**
+ * Shared clients keyed by base URL and token, with their subscriber count
+ */
+const sharedClients = new Map<string, { client: WebSocketClient; refs: number }>();
+
+/**
+ * Get the shared WebSocket client for a base URL and token
+ *
+ * The first caller creates and connects the client; later callers get the
+ * same instance. Every call must be paired with releaseWebSocketClient.
+ *
+ * @param baseURL - Base URL of the backend
+ * @param token - JWT authentication token
+ * @returns The shared client
+ *
+ * @example
+ * ```ts
+ * const client = acquireWebSocketClient(WS_BASE_URL, token);
+ * client.on('message', handler);
+ *
+ * // Later
+ * client.off('message', handler);
+ * releaseWebSocketClient(client);
+ * ```
+ */
+export function acquireWebSocketClient(baseURL: string, token: string): WebSocketClient {
+  const key = `${baseURL}|${token}`;
+  let entry = sharedClients.get(key);
+
+  if (!entry) {
+    entry = { client: new WebSocketClient(baseURL, token), refs: 0 };
+    sharedClients.set(key, entry);
+    entry.client.connect().catch(error => {
+      console.error('Failed to connect to WebSocket:', error);
+    });
+  }
+
+  entry.refs++;
+  return entry.client;
+}
+
+/**
+ * Release a client obtained from acquireWebSocketClient
+ *
+ * The connection is closed once the last subscriber releases it.
+ *
+ * @param client - Client returned by acquireWebSocketClient
+ */
+export function releaseWebSocketClient(client: WebSocketClient): void {
+  for (const [key, entry] of sharedClients) {
+    if (entry.client !== client) continue;
+
+    entry.refs--;
+    if (entry.refs <= 0) {
+      sharedClients.delete(key);
+      client.disconnect();
+    }
+    return;
+  }
+}